@@ -1,75 +1,55 @@
-#!/usr/bin/env node
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { getSynapse, getWalletAddress } from '../utils/synapse.js';
-import { TOKENS } from '@filoz/synapse-sdk';
-import { ethers } from 'ethers';
 import { errorHandler } from '../utils/errorHandler.js';
-import { formatUSDFC, CHAIN_IDS, BALANCE_THRESHOLDS, EXIT_CODES } from '../constants.js';
+import { isMachineOutput, emitResult, spinnerProgress } from '../utils/output.js';
+import { CHAIN_IDS, BALANCE_THRESHOLDS, EXIT_CODES } from '../constants.js';
+import { SynapseVault } from '../sdk/index.js';
 
-const program = new Command();
-
-program
-  .name('balance')
-  .description('Check wallet and Synapse balances')
-  .action(async () => {
-    const spinner = ora();
-    errorHandler.setContext({ spinner, debug: process.env.DEBUG === 'true' });
+export function createBalanceCommand(): Command {
+  return new Command('balance')
+    .description('Check wallet and Synapse balances')
+    .action(async () => {
+      const spinner = ora();
+      errorHandler.setContext({ spinner, debug: process.env.DEBUG === 'true' });
     
-    try {
-      // Initialize Synapse
-      spinner.start('Connecting to Filecoin...');
-      const { synapse } = await getSynapse();
-      const address = await getWalletAddress();
-      spinner.succeed(`Connected with wallet: ${address}`);
+      try {
+        const result = await new SynapseVault().balance({ onProgress: spinnerProgress(spinner) });
+        const { wallet, deposits } = result;
 
-      // Get balances
-      spinner.start('Fetching balances...');
-      
-      // FIL balance
-      const filBalance = await synapse.payments.walletBalance();
-      const filFormatted = ethers.formatEther(filBalance);
-      
-      // USDFC balance (wallet)
-      const usdfcWalletBalance = await synapse.payments.walletBalance(TOKENS.USDFC);
-      const usdfcWalletFormatted = formatUSDFC(usdfcWalletBalance);
-      
-      // USDFC balance (Synapse)
-      const usdfcSynapseBalance = await synapse.payments.balance(TOKENS.USDFC);
-      const usdfcSynapseFormatted = formatUSDFC(usdfcSynapseBalance);
-      
-      spinner.succeed('Balances fetched');
+        if (isMachineOutput()) {
+          emitResult(result);
+          process.exit(EXIT_CODES.SUCCESS);
+        }
       
-      // Display balances
-      console.log(chalk.cyan('\n💰 Wallet Balances:\n'));
-      console.log(chalk.white('  FIL:'), chalk.green(`${filFormatted} FIL`));
-      console.log(chalk.white('  USDFC:'), chalk.green(`${usdfcWalletFormatted} USDFC`));
+        // Display balances
+        console.log(chalk.cyan('\n💰 Wallet Balances:\n'));
+        console.log(chalk.white('  FIL:'), chalk.green(`${wallet.fil} FIL`));
+        console.log(chalk.white('  USDFC:'), chalk.green(`${wallet.usdfc} USDFC`));
       
-      console.log(chalk.cyan('\n🏦 Synapse Deposits:\n'));
-      console.log(chalk.white('  USDFC:'), chalk.green(`${usdfcSynapseFormatted} USDFC`));
+        console.log(chalk.cyan('\n🏦 Synapse Deposits:\n'));
+        console.log(chalk.white('  USDFC:'), chalk.green(`${deposits.usdfc} USDFC`));
       
-      // Check if balances are sufficient
-      if (usdfcWalletFormatted < BALANCE_THRESHOLDS.LOW_BALANCE_WARNING) {
-        console.log(chalk.yellow('\n⚠️  Low USDFC balance in wallet'));
-        console.log(chalk.yellow('   You may need to fund your wallet to upload files.'));
+        // Check if balances are sufficient
+        if (wallet.usdfc < BALANCE_THRESHOLDS.LOW_BALANCE_WARNING) {
+          console.log(chalk.yellow('\n⚠️  Low USDFC balance in wallet'));
+          console.log(chalk.yellow('   You may need to fund your wallet to upload files.'));
         
-        if (synapse.getChainId() === CHAIN_IDS.CALIBRATION) {
-          console.log(chalk.cyan('\n   Get USDFC from faucet:'));
-          console.log(chalk.cyan('   https://forest-explorer.chainsafe.dev/faucet/calibnet_usdfc'));
+          if (result.chainId === CHAIN_IDS.CALIBRATION) {
+            console.log(chalk.cyan('\n   Get USDFC from faucet:'));
+            console.log(chalk.cyan('   https://forest-explorer.chainsafe.dev/faucet/calibnet_usdfc'));
+          }
         }
-      }
       
-      if (usdfcSynapseFormatted < BALANCE_THRESHOLDS.LOW_BALANCE_WARNING && usdfcWalletFormatted >= BALANCE_THRESHOLDS.DEPOSIT_SUGGESTION_MIN) {
-        console.log(chalk.yellow('\n💡 Tip: You have USDFC in your wallet but not deposited to Synapse.'));
-        console.log(chalk.yellow('   Use the deposit command to fund your storage operations.'));
-      }
+        if (deposits.usdfc < BALANCE_THRESHOLDS.LOW_BALANCE_WARNING && wallet.usdfc >= BALANCE_THRESHOLDS.DEPOSIT_SUGGESTION_MIN) {
+          console.log(chalk.yellow('\n💡 Tip: You have USDFC in your wallet but not deposited to Synapse.'));
+          console.log(chalk.yellow('   Use the deposit command to fund your storage operations.'));
+        }
       
-      // Exit successfully
-      process.exit(EXIT_CODES.SUCCESS);
-    } catch (error) {
-      errorHandler.handle(error);
-    }
-  });
-
-program.parse();
\ No newline at end of file
+        // Exit successfully
+        process.exit(EXIT_CODES.SUCCESS);
+      } catch (error) {
+        errorHandler.handle(error);
+      }
+    });
+}
@@ -0,0 +1,66 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { SynapseVault } from '../sdk/index.js';
+import { errorHandler } from '../utils/errorHandler.js';
+import { formatPrice } from '../utils/distribution.js';
+import { isMachineOutput, emitResult, spinnerProgress } from '../utils/output.js';
+import { bytesToMB, EXIT_CODES } from '../constants.js';
+
+interface BuyCommandOptions {
+  output?: string;
+  maxPrice?: string;
+  debug?: boolean;
+}
+
+export function createBuyCommand(): Command {
+  return new Command('buy')
+    .description('Pay for access to a file someone sells, then download and decrypt it')
+    .argument('<pieceCid>', 'The Piece CID of the file to buy')
+    .option('-o, --output <path>', 'Output file path, or directory for folders (default: ./<name>)')
+    .option('--max-price <amount>', 'Refuse to pay more than this amount of the file\'s token')
+    .option('-d, --debug', 'Enable debug output')
+    .action(async (pieceCid: string, options: BuyCommandOptions) => {
+      const spinner = ora();
+      errorHandler.setContext({ spinner, debug: options.debug || process.env.DEBUG === 'true' });
+
+      try {
+        console.log(chalk.cyan('\n🛒 Buying File Access'));
+        console.log(chalk.gray(`Piece CID: ${pieceCid}`));
+
+        const result = await new SynapseVault({ debug: options.debug }).buy(pieceCid, {
+          output: options.output,
+          maxPrice: options.maxPrice,
+          onProgress: spinnerProgress(spinner),
+        });
+
+        if (isMachineOutput()) {
+          emitResult(result);
+          process.exit(EXIT_CODES.SUCCESS);
+        }
+
+        if (result.purchased) {
+          console.log(chalk.green(`\n✅ Access Bought:`));
+          console.log(chalk.gray(`  Price: ${formatPrice(result.price)}`));
+          console.log(chalk.gray(`  Transaction Hash: ${result.transactionHash}`));
+        } else {
+          console.log(chalk.green(`\n✅ Your wallet already had access, so nothing was paid.`));
+        }
+        console.log(chalk.gray(`  Data ID: ${result.dataIdentifier}`));
+
+        const { download } = result;
+        console.log(chalk.green(`\n✅ Download complete!`));
+        console.log(chalk.cyan('📁 Saved to:'), download.path);
+        if (download.kind === 'folder') {
+          console.log(chalk.cyan('🗂️  Files:'), download.fileCount);
+        }
+        console.log(chalk.cyan('📊 Size:'), `${bytesToMB(download.size)} MB`);
+        console.log(chalk.cyan('🔓 Decrypted:'), download.decrypted ? 'Yes' : 'No');
+
+        // Exit successfully
+        process.exit(EXIT_CODES.SUCCESS);
+      } catch (error) {
+        errorHandler.handle(error);
+      }
+    });
+}
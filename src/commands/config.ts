@@ -0,0 +1,116 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { errorHandler, createConfigError } from '../utils/errorHandler.js';
+import {
+  PROFILE_SETTINGS,
+  ProfileKey,
+  applyProfile,
+  getConfigFilePath,
+  getSettingSource,
+  getSettingValue,
+  loadConfigFile,
+  setActiveProfile,
+  setProfileValue,
+} from '../utils/profiles.js';
+import { isMachineOutput, emitResult } from '../utils/output.js';
+import { EXIT_CODES } from '../constants.js';
+
+export function createConfigCommand(): Command {
+  return new Command('config')
+    .description('Show and edit configuration profiles')
+    .addCommand(
+      new Command('show')
+        .description('Show the effective settings, where each comes from, and the stored profiles')
+        .action(async (_options: unknown, command: Command) => {
+          await run(async () => {
+            const profile = applyProfile(command.optsWithGlobals().profile);
+            const file = loadConfigFile();
+            const settings = (Object.keys(PROFILE_SETTINGS) as ProfileKey[]).map((key) => ({
+              key,
+              env: PROFILE_SETTINGS[key].env,
+              value: getSettingValue(key) ?? null,
+              source: getSettingSource(key),
+            }));
+
+            if (isMachineOutput()) {
+              emitResult({ path: getConfigFilePath(), profile, activeProfile: file.activeProfile ?? null, profiles: file.profiles, settings });
+              return;
+            }
+
+            console.log(chalk.cyan(`\n⚙️  Configuration${profile ? ` (profile: ${profile})` : ' (no profile)'}:`));
+            for (const setting of settings) {
+              const value = setting.value === null ? chalk.gray('(not set)') : chalk.white(String(setting.value));
+              console.log(`  ${setting.key.padEnd(26)} ${value} ${chalk.gray(`[${setting.source}]`)}`);
+            }
+
+            const names = Object.keys(file.profiles);
+            console.log(chalk.cyan(`\n📁 Profiles (${getConfigFilePath()}):`));
+            if (names.length === 0) {
+              console.log(chalk.gray('  None. Create one with "config set <key> <value> --profile <name>".'));
+            }
+            for (const name of names) {
+              const marker = name === file.activeProfile ? chalk.green('*') : ' ';
+              console.log(`${marker} ${chalk.white(name)} ${chalk.gray(`(${Object.keys(file.profiles[name]).length} setting(s))`)}`);
+            }
+          });
+        })
+    )
+    .addCommand(
+      new Command('set')
+        .description('Store a setting in a profile (created if missing)')
+        .argument('<key>', `Setting name or its environment variable (${Object.keys(PROFILE_SETTINGS).join(', ')})`)
+        .argument('<value>', 'Value to store')
+        .action(async (key: string, value: string, _options: unknown, command: Command) => {
+          await run(async () => {
+            const file = loadConfigFile();
+            const profile = command.optsWithGlobals().profile || process.env.SYNAPSE_PROFILE || file.activeProfile;
+            if (!profile) {
+              throw createConfigError('No profile selected', {
+                userMessage: 'Choose the profile to edit with --profile <name> (it is created if missing).'
+              });
+            }
+
+            const setting = setProfileValue(profile, key, value);
+            // The first profile becomes the active one, like the first wallet
+            const activated = !file.activeProfile && Object.keys(file.profiles).length === 0;
+            if (activated) {
+              setActiveProfile(profile);
+            }
+
+            if (isMachineOutput()) {
+              emitResult({ profile, ...setting, active: activated || file.activeProfile === profile });
+              return;
+            }
+            console.log(chalk.green(`✅ ${profile}: ${setting.key} = ${setting.value}`));
+            if (activated) {
+              console.log(chalk.gray(`  "${profile}" is now the active profile.`));
+            }
+          });
+        })
+    )
+    .addCommand(
+      new Command('use')
+        .description('Select the profile commands use by default')
+        .argument('<name>', 'Profile name')
+        .action(async (name: string) => {
+          await run(async () => {
+            setActiveProfile(name);
+            if (isMachineOutput()) {
+              emitResult({ activeProfile: name });
+              return;
+            }
+            console.log(chalk.green(`✅ Commands now use profile "${name}"`));
+          });
+        })
+    );
+}
+
+async function run(action: () => Promise<void>): Promise<void> {
+  errorHandler.setContext({ debug: process.env.DEBUG === 'true' });
+  try {
+    await action();
+    process.exit(EXIT_CODES.SUCCESS);
+  } catch (error) {
+    errorHandler.handle(error);
+  }
+}
@@ -0,0 +1,123 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { errorHandler, createConfigError, createNetworkError, AppError, ErrorCategory } from '../utils/errorHandler.js';
+import { createS3Gateway } from '../utils/s3Gateway.js';
+import { SynapseObjectStore, MemoryObjectStore } from '../utils/objectStore.js';
+import { getAccount } from '../utils/account.js';
+import { config, validateLitConfig } from '../config.js';
+import { API_SERVER, S3_GATEWAY, EXIT_CODES } from '../constants.js';
+
+interface S3GatewayCommandOptions {
+  port: string;
+  host: string;
+  accessKey?: string;
+  secretKey?: string;
+  public?: boolean;
+  skipPaymentCheck?: boolean;
+  memory?: boolean;
+  debug?: boolean;
+}
+
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+export function createGatewayCommand(): Command {
+  return new Command('gateway')
+    .description('Serve protocol gateways in front of Synapse storage')
+    .addCommand(createS3GatewayCommand());
+}
+
+function createS3GatewayCommand(): Command {
+  return new Command('s3')
+    .description('Serve an S3-compatible API (PutObject, GetObject, HeadObject, ListObjectsV2, DeleteObject)')
+    .option('-p, --port <port>', 'Port to listen on', String(S3_GATEWAY.DEFAULT_PORT))
+    .option('--host <host>', 'Interface to listen on', API_SERVER.DEFAULT_HOST)
+    .option('--access-key <id>', 'Access key ID clients sign with (default: S3_GATEWAY_ACCESS_KEY_ID)')
+    .option('--secret-key <secret>', 'Secret access key clients sign with (default: S3_GATEWAY_SECRET_ACCESS_KEY)')
+    .option('--public', 'Store objects with public access (anyone can decrypt them); objects are private by default')
+    .option('--skip-payment-check', 'Skip the payment check before each upload')
+    .option('--memory', 'Keep objects in memory instead of Synapse (for testing S3 clients)')
+    .option('-d, --debug', 'Enable debug output')
+    .action(async (options: S3GatewayCommandOptions) => {
+      errorHandler.setContext({ debug: options.debug || process.env.DEBUG === 'true' });
+
+      try {
+        const port = Number(options.port);
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+          throw new AppError(`Invalid port: ${options.port}`, {
+            category: ErrorCategory.VALIDATION,
+            userMessage: '--port must be a number between 0 and 65535',
+            exitCode: EXIT_CODES.VALIDATION_ERROR,
+            details: { port: options.port }
+          });
+        }
+
+        const accessKeyId = options.accessKey || config.s3AccessKeyId;
+        const secretAccessKey = options.secretKey || config.s3SecretAccessKey;
+        if (!accessKeyId !== !secretAccessKey) {
+          throw createConfigError('Incomplete S3 credentials', {
+            userMessage: 'Set both the access key ID and the secret access key (--access-key/--secret-key or S3_GATEWAY_ACCESS_KEY_ID/S3_GATEWAY_SECRET_ACCESS_KEY).'
+          });
+        }
+        const credentials = accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined;
+
+        // Anyone who can reach the gateway can spend from the wallet, so other interfaces need credentials
+        if (!credentials && !LOOPBACK_HOSTS.includes(options.host)) {
+          throw createConfigError('S3 credentials required', {
+            userMessage: `Listening on ${options.host} requires S3 credentials. Pass --access-key and --secret-key or set S3_GATEWAY_ACCESS_KEY_ID and S3_GATEWAY_SECRET_ACCESS_KEY.`,
+            details: { host: options.host }
+          });
+        }
+
+        // Fail now rather than on the first request, and unlock a keystore while a terminal is attached
+        if (!options.memory) {
+          validateLitConfig();
+          await getAccount();
+        }
+
+        const store = options.memory
+          ? new MemoryObjectStore()
+          : new SynapseObjectStore({
+            public: options.public,
+            skipPaymentCheck: options.skipPaymentCheck,
+            debug: options.debug,
+            onProgress: options.debug ? ({ message }) => console.log(chalk.gray(`  ${message}`)) : undefined,
+          });
+
+        const server = createS3Gateway({
+          store,
+          credentials,
+          debug: options.debug,
+          onRequest: (method, url, status, durationMs) => {
+            const color = status >= 500 ? chalk.red : status >= 400 ? chalk.yellow : chalk.green;
+            console.log(`${chalk.gray(new Date().toISOString())} ${method} ${url} ${color(status)} ${durationMs}ms`);
+          },
+        });
+
+        await new Promise<void>((resolve, reject) => {
+          server.once('error', (listenError) => reject(createNetworkError(`Cannot listen on ${options.host}:${port}`, {
+            cause: listenError,
+            userMessage: `Cannot listen on ${options.host}:${port}: ${listenError.message}`,
+            details: { host: options.host, port }
+          })));
+          server.listen(port, options.host, resolve);
+        });
+
+        const address = server.address();
+        const boundPort = address && typeof address === 'object' ? address.port : port;
+        console.log(chalk.green(`✅ S3 gateway listening on http://${options.host}:${boundPort}`));
+        console.log(chalk.gray(`  Storage: ${options.memory ? 'in memory (nothing is uploaded)' : `Synapse, encrypted with ${options.public ? 'public' : 'private'} access`}`));
+        console.log(chalk.gray(`  Auth: ${credentials ? `SigV4 with access key ${credentials.accessKeyId}` : 'none (loopback only)'}`));
+        console.log(chalk.gray('  Use path-style addressing; multipart uploads are not supported.'));
+
+        const shutdown = () => {
+          console.log(chalk.gray('\nShutting down...'));
+          server.close(() => process.exit(EXIT_CODES.SUCCESS));
+          server.closeAllConnections();
+        };
+        process.once('SIGINT', shutdown);
+        process.once('SIGTERM', shutdown);
+      } catch (error) {
+        errorHandler.handle(error);
+      }
+    });
+}
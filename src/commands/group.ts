@@ -0,0 +1,128 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora, { Ora } from 'ora';
+import { isAddress } from 'viem';
+import { errorHandler, AppError, ErrorCategory } from '../utils/errorHandler.js';
+import { isMachineOutput, emitResult, emitList, spinnerProgress } from '../utils/output.js';
+import { EXIT_CODES } from '../constants.js';
+import { SynapseVault, GroupResult } from '../sdk/index.js';
+
+interface GroupCommandOptions {
+  debug?: boolean;
+}
+
+export function createGroupCommand(): Command {
+  return new Command('group')
+    .description('Manage access groups: every member can decrypt the files bound to a group')
+    .addCommand(
+      new Command('create')
+        .description('Create an access group with you as its first member')
+        .argument('<name>', 'Name for the group')
+        .option('-d, --debug', 'Enable debug output')
+        .action(async (name: string, options: GroupCommandOptions) => {
+          await run(options, async (spinner) => {
+            const result = await new SynapseVault({ debug: options.debug }).createGroup(name, { onProgress: spinnerProgress(spinner) });
+            report(result, `✅ Group "${name}" created`);
+            if (!isMachineOutput()) {
+              console.log(chalk.blue(`\n💡 Bind files with "upload --group ${name}" or "share <cid> --group ${name}", then add members.`));
+            }
+          });
+        })
+    )
+    .addCommand(
+      new Command('add-member')
+        .description('Give wallets access to every file bound to the group')
+        .argument('<group>', 'Group name or identifier')
+        .argument('<addresses...>', 'Wallet addresses to add')
+        .option('-d, --debug', 'Enable debug output')
+        .action(async (group: string, addresses: string[], options: GroupCommandOptions) => {
+          await run(options, async (spinner) => {
+            addresses.forEach(assertAddress);
+            const result = await new SynapseVault({ debug: options.debug }).addGroupMembers(group, addresses, { onProgress: spinnerProgress(spinner) });
+            report(result, result.added.length > 0 ? `✅ Added ${result.added.length} member(s)` : '⚠️  Every address is already a member');
+          });
+        })
+    )
+    .addCommand(
+      new Command('remove-member')
+        .description('Take a wallet\'s access to the group\'s files away (re-registers the group)')
+        .argument('<group>', 'Group name or identifier')
+        .argument('<address>', 'Wallet address to remove')
+        .option('-d, --debug', 'Enable debug output')
+        .action(async (group: string, address: string, options: GroupCommandOptions) => {
+          await run(options, async (spinner) => {
+            assertAddress(address);
+            const result = await new SynapseVault({ debug: options.debug }).removeGroupMember(group, address, { onProgress: spinnerProgress(spinner) });
+            report(result, `✅ Removed ${address}`);
+            if (!isMachineOutput()) {
+              console.log(chalk.gray(`  Files moved to the new group contract: ${result.reboundFiles.length}`));
+              console.log(chalk.yellow('\n⚠️  Only your own files were moved. Files other wallets bound to this group still let the removed member in'));
+              console.log(chalk.yellow('   until their owners run "share <cid> --group" again, which moves the binding to the new contract.'));
+            }
+          });
+        })
+    )
+    .addCommand(
+      new Command('list')
+        .description('List the groups created on this machine and their members')
+        .action(async () => {
+          await run({}, async (spinner) => {
+            const groups = await new SynapseVault().listGroups({ onProgress: spinnerProgress(spinner) });
+            if (isMachineOutput()) {
+              emitList(groups, { total: groups.length });
+              return;
+            }
+
+            if (groups.length === 0) {
+              console.log(chalk.yellow('No access groups. Create one with "group create <name>".'));
+              return;
+            }
+            for (const group of groups) {
+              console.log(chalk.cyan(`\n👥 ${group.name ?? group.id}`));
+              console.log(chalk.gray(`  ID: ${group.id}`));
+              console.log(chalk.gray(`  Contract: ${group.contractAddress}`));
+              console.log(chalk.gray(`  Members (${group.members.length}):`));
+              for (const member of group.members) {
+                console.log(`    ${member}${member.toLowerCase() === group.owner.toLowerCase() ? chalk.gray(' (owner)') : ''}`);
+              }
+            }
+          });
+        })
+    );
+}
+
+async function run(options: GroupCommandOptions, action: (spinner: Ora) => Promise<void>): Promise<void> {
+  const spinner = ora();
+  errorHandler.setContext({ spinner, debug: options.debug || process.env.DEBUG === 'true' });
+  try {
+    await action(spinner);
+    process.exit(EXIT_CODES.SUCCESS);
+  } catch (error) {
+    errorHandler.handle(error);
+  }
+}
+
+function report(result: GroupResult, headline: string): void {
+  if (isMachineOutput()) {
+    emitResult(result);
+    return;
+  }
+  console.log(chalk.green(`\n${headline}`));
+  console.log(chalk.gray(`  Group: ${result.group.name ?? result.group.id}`));
+  console.log(chalk.gray(`  ID: ${result.group.id}`));
+  console.log(chalk.gray(`  Members: ${result.group.members.length}`));
+  if (result.transactionHash) {
+    console.log(chalk.gray(`  Transaction Hash: ${result.transactionHash}`));
+  }
+}
+
+function assertAddress(address: string): void {
+  if (!isAddress(address)) {
+    throw new AppError(`Invalid address: ${address}`, {
+      category: ErrorCategory.VALIDATION,
+      userMessage: `"${address}" is not a valid wallet address.`,
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { address }
+    });
+  }
+}
@@ -1,134 +1,125 @@
-#!/usr/bin/env node
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { getWalletAddress } from '../utils/synapse.js';
+import { getWalletAddress } from '../utils/account.js';
 import { errorHandler } from '../utils/errorHandler.js';
+import { formatExpiry } from '../utils/expiry.js';
 import { EXIT_CODES } from '../constants.js';
-import { list as listEncryptedFiles } from '../utils/list.js';
-
-const program = new Command();
+import { SynapseVault, VaultFile } from '../sdk/index.js';
+import { isMachineOutput, emitList, spinnerProgress } from '../utils/output.js';
 
 interface ListOptions {
   detailed?: boolean;
+  offline?: boolean;
 }
 
-program
-  .name('list')
-  .description('List all uploaded encrypted files')
-  .option('--detailed', 'Show detailed file information')
-  .action(async (options: ListOptions) => {
-    const spinner = ora();
-    errorHandler.setContext({ spinner, debug: process.env.DEBUG === 'true' });
+export function createListCommand(): Command {
+  return new Command('list')
+    .description('List all uploaded encrypted files')
+    .option('--detailed', 'Show detailed file information')
+    .option('--offline', 'Read the local index without syncing it (see "sync")')
+    .action(async (options: ListOptions) => {
+      const spinner = ora();
+      errorHandler.setContext({ spinner, debug: process.env.DEBUG === 'true' });
     
-    try {
-      // Get wallet address
-      spinner.start('Getting wallet address...');
-      const address = await getWalletAddress();
-      spinner.succeed(`Connected with wallet: ${address}`);
-      
-      // Fetch encrypted files from Keypo.io API
-      spinner.start('Fetching encrypted files...');
-      const encryptedFiles = await listEncryptedFiles(address, false);
-      const fileEntries = Object.entries(encryptedFiles);
+      try {
+        // Get wallet address
+        spinner.start('Getting wallet address...');
+        const address = await getWalletAddress();
+        spinner.succeed(`Connected with wallet: ${address}`);
       
-      if (fileEntries.length === 0) {
-        spinner.warn('No encrypted files found');
-        console.log(chalk.yellow('\nYou have not uploaded any encrypted files yet.'));
-        console.log(chalk.yellow('Use the upload command with --encrypt flag to upload encrypted files.'));
-        process.exit(EXIT_CODES.SUCCESS);
-      }
+        // Resolve encrypted files against the local index (synced first unless offline)
+        const files = await new SynapseVault().list({ offline: options.offline, expiry: true, onProgress: spinnerProgress(spinner) });
 
-      spinner.succeed(`Found ${fileEntries.length} encrypted file(s)`);
+        if (isMachineOutput()) {
+          const items = files.map(({ metadata, ...summary }) => summary);
+          emitList(items, {
+            address,
+            total: items.length,
+            public: items.filter(item => item.accessType === 'public').length,
+            private: items.filter(item => item.accessType !== 'public').length,
+          });
+          process.exit(EXIT_CODES.SUCCESS);
+        }
       
-      console.log(chalk.cyan('\n🔐 Your Encrypted Files:\n'));
+        if (files.length === 0) {
+          console.log(chalk.yellow('\nYou have not uploaded any encrypted files yet.'));
+          console.log(chalk.yellow('Use the upload command with --encrypt flag to upload encrypted files.'));
+          process.exit(EXIT_CODES.SUCCESS);
+        }
+
+        console.log(chalk.cyan('\n🔐 Your Encrypted Files:\n'));
       
-      // Group files by access type
-      const publicFiles = fileEntries.filter(([, file]) => {
-        // Access type is now directly available in dataMetadata
-        return file.dataMetadata?.accessType === 'public';
-      });
+        // Group files by access type
+        const publicFiles = files.filter(file => file.accessType === 'public');
+        const privateFiles = files.filter(file => file.accessType !== 'public');
       
-      const privateFiles = fileEntries.filter(([, file]) => {
-        // Access type is now directly available in dataMetadata  
-        return file.dataMetadata?.accessType === 'private' || !file.dataMetadata?.accessType; // Default to private if not specified
-      });
+        // Display public files
+        if (publicFiles.length > 0) {
+          console.log(chalk.blue('📢 Public Files (anyone can decrypt):'));
+          displayFiles(publicFiles, options.detailed || false, address);
+          console.log('');
+        }
       
-      // Display public files
-      if (publicFiles.length > 0) {
-        console.log(chalk.blue('📢 Public Files (anyone can decrypt):'));
-        displayFiles(publicFiles, options.detailed || false, address);
-        console.log('');
-      }
+        // Display private files
+        if (privateFiles.length > 0) {
+          console.log(chalk.magenta('🔒 Private Files:'));
+          displayFiles(privateFiles, options.detailed || false, address);
+          console.log('');
+        }
       
-      // Display private files
-      if (privateFiles.length > 0) {
-        console.log(chalk.magenta('🔒 Private Files:'));
-        displayFiles(privateFiles, options.detailed || false, address);
-        console.log('');
-      }
+        // Summary
+        console.log(chalk.cyan('📊 Summary:'));
+        console.log(chalk.white(`  Total Encrypted Files: ${files.length}`));
+        console.log(chalk.blue(`    📢 Public: ${publicFiles.length}`));
+        console.log(chalk.magenta(`    🔒 Private: ${privateFiles.length}`));
       
-      // Summary
-      console.log(chalk.cyan('📊 Summary:'));
-      console.log(chalk.white(`  Total Encrypted Files: ${fileEntries.length}`));
-      console.log(chalk.blue(`    📢 Public: ${publicFiles.length}`));
-      console.log(chalk.magenta(`    🔒 Private: ${privateFiles.length}`));
+        if (!options.detailed) {
+          console.log(chalk.gray('\n  Use --detailed flag to see more information'));
+        }
       
-      if (!options.detailed) {
-        console.log(chalk.gray('\n  Use --detailed flag to see more information'));
+        // Exit successfully
+        process.exit(EXIT_CODES.SUCCESS);
+      } catch (error) {
+        errorHandler.handle(error);
       }
-      
-      // Exit successfully
-      process.exit(EXIT_CODES.SUCCESS);
-    } catch (error) {
-      errorHandler.handle(error);
-    }
-  });
+    });
+}
 
-function displayFiles(files: [string, any][], detailed: boolean, currentWallet: string) {
-  for (const [dataIdentifier, file] of files) {
-    const metadata = file.dataMetadata;
-    const fileName = metadata?.name || 'Unknown';
-    const pieceCid = metadata?.pieceCid || file.cid || 'Unknown';
-    
-    // Parse complete metadata from userMetaData (which now contains the full metadata)
-    let fullMetadata = {};
-    try {
-      fullMetadata = JSON.parse(metadata?.userMetaData || '{}');
-    } catch {
-      // Ignore parsing errors
+function displayFiles(files: VaultFile[], detailed: boolean, currentWallet: string) {
+  for (const file of files) {
+    console.log(chalk.white(`  📄 ${file.name || 'Unknown'}`));
+    console.log(chalk.gray(`    Data ID: ${file.dataIdentifier}`));
+    console.log(chalk.gray(`    Piece CID: ${file.pieceCid || 'Unknown'}`));
+    if (file.expiry) {
+      console.log(file.expiry.expired
+        ? chalk.red(`    Access: ${formatExpiry(file.expiry)}`)
+        : chalk.yellow(`    Access: ${formatExpiry(file.expiry)}`));
     }
     
-    console.log(chalk.white(`  📄 ${fileName}`));
-    console.log(chalk.gray(`    Data ID: ${dataIdentifier}`));
-    console.log(chalk.gray(`    Piece CID: ${pieceCid}`));
-    
     if (detailed) {
-      console.log(chalk.gray(`    Contract: ${file.dataContractAddress || 'Unknown'}`));
+      console.log(chalk.gray(`    Contract: ${file.contractAddress || 'Unknown'}`));
       // Check if owner is the current wallet and add (You) if so
       const ownerAddress = file.owner || 'Unknown';
       const ownerDisplay = ownerAddress.toLowerCase() === currentWallet.toLowerCase() 
         ? `${ownerAddress} (You)` 
         : ownerAddress;
       console.log(chalk.gray(`    Owner: ${ownerDisplay}`));
-      console.log(chalk.gray(`    Access NFT: ${file.isAccessMinted ? 'Minted ✓' : 'Not minted'}`));
+      console.log(chalk.gray(`    Access NFT: ${file.accessMinted ? 'Minted ✓' : 'Not minted'}`));
       
       // Show additional metadata if available
-      const info = fullMetadata as any;
-      if (info.filecoinStorageInfo?.uploadTimestamp) {
-        const uploadDate = new Date(info.filecoinStorageInfo.uploadTimestamp);
-        console.log(chalk.gray(`    Uploaded: ${uploadDate.toLocaleString()}`));
+      if (file.uploadedAt) {
+        console.log(chalk.gray(`    Uploaded: ${new Date(file.uploadedAt).toLocaleString()}`));
       }
-      if (info.filecoinStorageInfo?.datasetCreated !== undefined) {
-        console.log(chalk.gray(`    Dataset Created: ${info.filecoinStorageInfo.datasetCreated ? 'Yes' : 'No'}`));
+      const datasetCreated = file.metadata.filecoinStorageInfo?.datasetCreated;
+      if (datasetCreated !== undefined) {
+        console.log(chalk.gray(`    Dataset Created: ${datasetCreated ? 'Yes' : 'No'}`));
       }
-      if (metadata?.type) {
-        console.log(chalk.gray(`    File Type: ${metadata.type}`));
+      if (file.type) {
+        console.log(chalk.gray(`    File Type: ${file.type}`));
       }
     }
     
     console.log('');
   }
 }
-
-program.parse();
\ No newline at end of file
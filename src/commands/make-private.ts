@@ -1,73 +1,187 @@
-#!/usr/bin/env node
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { getSynapse, getWalletAddress } from '../utils/synapse.js';
+import inquirer from 'inquirer';
+import { getAccount, getWalletAddress } from '../utils/account.js';
 import { errorHandler } from '../utils/errorHandler.js';
 import { EXIT_CODES } from '../constants.js';
 import { validateFileForConversion } from '../utils/fileConversion.js';
-
-const program = new Command();
+import { updateAccessType } from '../utils/keypo.js';
+import { getAccessPrice } from '../utils/distribution.js';
+import { startJournalEntry, updateJournalEntry } from '../utils/journal.js';
+import { config } from '../config.js';
+import { createWalletClient, http } from 'viem';
+import { KernelVersionToAddressesMap, KERNEL_V3_3 } from "@zerodev/sdk/constants";
+import { getRegistryChain } from '../utils/registryChain.js';
 
 interface MakePrivateOptions {
   recipient?: string;
   force?: boolean;
+  debug?: boolean;
 }
 
-program
-  .name('make-private')
-  .description('Convert a public encrypted file to private access (NFT required)')
-  .argument('<pieceCid>', 'The piece CID of the public file to make private')
-  .option('-r, --recipient <address>', 'Wallet address to mint the NFT to (default: your wallet)')
-  .option('-f, --force', 'Skip confirmation prompt')
-  .action(async (pieceCid: string, options: MakePrivateOptions) => {
-    const spinner = ora();
-    errorHandler.setContext({ spinner, debug: process.env.DEBUG === 'true' });
+export function createMakePrivateCommand(): Command {
+  return new Command('make-private')
+    .description('Convert a public encrypted file to private access (NFT required)')
+    .argument('<pieceCid>', 'The piece CID of the public file to make private')
+    .option('-r, --recipient <address>', 'Wallet address to mint the NFT to (default: your wallet)')
+    .option('-f, --force', 'Skip confirmation prompt')
+    .option('-d, --debug', 'Enable debug output')
+    .action(async (pieceCid: string, options: MakePrivateOptions) => {
+      const spinner = ora();
+      errorHandler.setContext({ spinner, debug: options.debug || process.env.DEBUG === 'true' });
     
-    try {
-      // Get wallet address
-      spinner.start('Getting wallet address...');
-      const address = await getWalletAddress();
-      spinner.succeed(`Connected with wallet: ${address}`);
-      
-      const recipient = options.recipient || address;
-      
-      console.log(chalk.cyan('\n🔄 Converting Public File to Private Access'));
-      console.log(chalk.gray(`Piece CID: ${pieceCid}`));
-      console.log(chalk.gray(`NFT Recipient: ${recipient}`));
-      
-      // Step 1: Get Synapse instance to access contracts
-      spinner.start('Connecting to contracts...');
-      const { synapse } = await getSynapse();
-      spinner.succeed('Connected to contracts');
-      
-      // Step 2-6: Validate file and get contract address
-      spinner.start('Looking up file by piece CID...');
-      const result = await validateFileForConversion(pieceCid, 'public', 'private');
-      
-      if (!result.success) {
-        spinner.fail('File validation failed');
-        console.log(chalk.red(`\n❌ ${result.message}`));
-        process.exit(EXIT_CODES.ERROR);
-      }
+      try {
+        // Get wallet address
+        spinner.start('Getting wallet address...');
+        const address = await getWalletAddress();
+        spinner.succeed(`Connected with wallet: ${address}`);
       
-      spinner.succeed('File contract address retrieved');
+        const recipient = options.recipient || address;
       
-      // TODO: Continue with remaining logic:
-      // - Update smart contract permissions (set tokenQuantity to 1)
-      // - Update metadata to set accessType to 'private'
-      // - Mint an NFT to the specified recipient
+        console.log(chalk.cyan('\n🔄 Converting Public File to Private Access'));
+        console.log(chalk.gray(`Piece CID: ${pieceCid}`));
+        console.log(chalk.gray(`NFT Recipient: ${recipient}`));
       
-      console.log(chalk.blue('\n💡 Next steps (not yet implemented):'));
-      console.log(chalk.gray('  • Update permission contract to set tokenQuantity = 1'));
-      console.log(chalk.gray('  • Update metadata accessType to "private"'));
-      console.log(chalk.gray('  • Mint access NFT to specified recipient'));
+        // Step 1-5: Validate file and get contract address
+        spinner.start('Looking up file by piece CID...');
+        const result = await validateFileForConversion(pieceCid, 'public', 'private');
       
-      // Exit successfully
-      process.exit(EXIT_CODES.SUCCESS);
-    } catch (error) {
-      errorHandler.handle(error);
-    }
-  });
-
-program.parse();
\ No newline at end of file
+        if (!result.success) {
+          spinner.fail('File validation failed');
+          console.log(chalk.red(`\n❌ ${result.message}`));
+          process.exit(EXIT_CODES.ERROR);
+        }
+      
+        spinner.succeed('File contract address retrieved');
+      
+        const dataIdentifier = result.dataIdentifier!;
+        const fileData = result.fileData;
+      
+        // Check if user is the owner
+        if (fileData.owner?.toLowerCase() !== address.toLowerCase()) {
+          console.log(chalk.red('\n❌ You are not the owner of this file.'));
+          console.log(chalk.gray(`File owner: ${fileData.owner}`));
+          console.log(chalk.gray(`Your address: ${address}`));
+          process.exit(EXIT_CODES.ERROR);
+        }
+      
+        console.log(chalk.yellow('\n⚠️  Warning: Making a file private only affects future decryptions!'));
+        console.log(chalk.yellow('Anyone who already downloaded and decrypted this file keeps the plaintext.'));
+      
+        if (!options.force) {
+          const { confirm } = await inquirer.prompt([
+            {
+              type: 'confirm',
+              name: 'confirm',
+              message: `Make ${fileData.dataMetadata?.name || pieceCid} private?`,
+              default: false,
+            },
+          ]);
+        
+          if (!confirm) {
+            console.log(chalk.yellow('\nOperation cancelled'));
+            process.exit(EXIT_CODES.SUCCESS);
+          }
+        }
+      
+        // Step 6: Prepare wallet and kernel client
+        spinner.start('Preparing to update permissions...');
+      
+        // Validate required configuration
+        if (!config.registryContractAddress) {
+          throw new Error('REGISTRY_CONTRACT_ADDRESS not configured');
+        }
+        if (!config.validationContractAddress) {
+          throw new Error('VALIDATION_CONTRACT_ADDRESS not configured');
+        }
+        if (!config.bundlerRpcUrl) {
+          throw new Error('BUNDLER_RPC_URL not configured');
+        }
+      
+        // Create wallet client
+        const account = await getAccount();
+      
+        const walletClient = createWalletClient({
+          account: account,
+          chain: getRegistryChain().chain,
+          transport: http(),
+        });
+      
+        // Get authorization for kernel account
+        const kernelVersion = KERNEL_V3_3;
+        const kernelAddresses = KernelVersionToAddressesMap[kernelVersion];
+        const accountImplementationAddress = kernelAddresses.accountImplementationAddress;
+        const authorization = await walletClient.signAuthorization({
+          contractAddress: accountImplementationAddress as `0x${string}`,
+          account: account,
+        });
+      
+        // Re-registering replaces the file contract, so a price kept from before is set on the new one again
+        const price = await getAccessPrice(result.fileContractAddress!);
+        const distribution = price ? { fee: BigInt(price.amountRaw), tokenAddress: price.token, feeRecipient: price.feeRecipient } : undefined;
+        spinner.succeed('Ready to update permissions');
+      
+        // Journal the on-chain steps so `resume` can finish them if they fail
+        const journalEntry = await startJournalEntry('make-private', {
+          stage: 'started',
+          ownerAddress: address,
+          fileName: fileData.dataMetadata?.name,
+          pieceCid,
+          dataIdentifier,
+          accessType: 'private',
+          fileContractAddress: result.fileContractAddress!,
+          metadata: result.fileMetadata!,
+          recipient,
+          ...(price && { distribution: { fee: price.amountRaw, tokenAddress: price.token, feeRecipient: price.feeRecipient } }),
+        });
+      
+        // Step 7: Re-register with tokenQuantity 1 and accessType private, minting the access NFT in the same user operation
+        spinner.start('Updating permissions, metadata and minting access NFT...');
+      
+        let receipt, mintTransactionHash;
+        try {
+          ({ receipt, mintTransactionHash } = await updateAccessType(
+            dataIdentifier,
+            result.fileContractAddress!,
+            result.fileMetadata!,
+            'private',
+            walletClient as any,
+            authorization,
+            config.registryContractAddress,
+            config.validationContractAddress,
+            config.bundlerRpcUrl,
+            options.debug,
+            recipient,
+            async (transactionHash) => {
+              await updateJournalEntry(journalEntry.id, { stage: 'permissions-updated', txHashes: { update: transactionHash, mint: transactionHash } });
+            },
+            distribution
+          ));
+        } catch (updateError) {
+          await updateJournalEntry(journalEntry.id, {
+            lastError: updateError instanceof Error ? updateError.message : String(updateError),
+          });
+          console.warn(chalk.yellow(`\nRun "synapse-cli resume ${journalEntry.id}" to retry the remaining steps.`));
+          throw updateError;
+        }
+        await updateJournalEntry(journalEntry.id, { stage: 'completed' });
+      
+        spinner.succeed('File is now private');
+      
+        console.log(chalk.green(`\n✅ File Access Updated:`));
+        console.log(chalk.gray(`  Transaction Hash: ${receipt.transactionHash}`));
+        console.log(chalk.gray(`  NFT Mint Transaction Hash: ${mintTransactionHash || 'N/A'}`));
+        console.log(chalk.gray(`  NFT Recipient: ${recipient}`));
+        console.log(chalk.gray(`  File: ${fileData.dataMetadata?.name || 'Unknown'}`));
+        console.log(chalk.gray(`  Access Type: private`));
+        console.log(chalk.blue('\n💡 Only wallets holding an access NFT can now decrypt this file.'));
+        console.log(chalk.yellow('⚠️  Copies that were already downloaded and decrypted remain readable.'));
+      
+        // Exit successfully
+        process.exit(EXIT_CODES.SUCCESS);
+      } catch (error) {
+        errorHandler.handle(error);
+      }
+    });
+}
@@ -1,73 +1,151 @@
-#!/usr/bin/env node
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { getSynapse, getWalletAddress } from '../utils/synapse.js';
+import inquirer from 'inquirer';
+import { getAccount, getWalletAddress } from '../utils/account.js';
 import { errorHandler } from '../utils/errorHandler.js';
 import { EXIT_CODES } from '../constants.js';
 import { validateFileForConversion } from '../utils/fileConversion.js';
-
-const program = new Command();
+import { updateAccessType } from '../utils/keypo.js';
+import { getAccessPrice } from '../utils/distribution.js';
+import { config } from '../config.js';
+import { createWalletClient, http } from 'viem';
+import { KernelVersionToAddressesMap, KERNEL_V3_3 } from "@zerodev/sdk/constants";
+import { getRegistryChain } from '../utils/registryChain.js';
 
 interface MakePublicOptions {
   force?: boolean;
+  debug?: boolean;
 }
 
-program
-  .name('make-public')
-  .description('Convert a private encrypted file to public access (anyone can decrypt)')
-  .argument('<pieceCid>', 'The piece CID of the private file to make public')
-  .option('-f, --force', 'Skip confirmation prompt')
-  .action(async (pieceCid: string, options: MakePublicOptions) => {
-    const spinner = ora();
-    errorHandler.setContext({ spinner, debug: process.env.DEBUG === 'true' });
+export function createMakePublicCommand(): Command {
+  return new Command('make-public')
+    .description('Convert a private encrypted file to public access (anyone can decrypt)')
+    .argument('<pieceCid>', 'The piece CID of the private file to make public')
+    .option('-f, --force', 'Skip confirmation prompt')
+    .option('-d, --debug', 'Enable debug output')
+    .action(async (pieceCid: string, options: MakePublicOptions) => {
+      const spinner = ora();
+      errorHandler.setContext({ spinner, debug: options.debug || process.env.DEBUG === 'true' });
     
-    try {
-      // Get wallet address
-      spinner.start('Getting wallet address...');
-      const address = await getWalletAddress();
-      spinner.succeed(`Connected with wallet: ${address}`);
-      
-      console.log(chalk.cyan('\n🔄 Converting Private File to Public Access'));
-      console.log(chalk.gray(`Piece CID: ${pieceCid}`));
-      
-      // Step 1: Get Synapse instance to access contracts
-      spinner.start('Connecting to contracts...');
-      const { synapse } = await getSynapse();
-      spinner.succeed('Connected to contracts');
-      
-      // Step 2-6: Validate file and get contract address
-      spinner.start('Looking up file by piece CID...');
-      const result = await validateFileForConversion(pieceCid, 'private', 'public');
-      
-      if (!result.success) {
-        spinner.fail('File validation failed');
-        console.log(chalk.red(`\n❌ ${result.message}`));
-        process.exit(EXIT_CODES.ERROR);
-      }
+      try {
+        // Get wallet address
+        spinner.start('Getting wallet address...');
+        const address = await getWalletAddress();
+        spinner.succeed(`Connected with wallet: ${address}`);
       
-      spinner.succeed('File contract address retrieved');
-      
-      // Placeholder warning
-      console.log(chalk.yellow('\n⚠️  Warning: This will make the file publicly accessible!'));
-      console.log(chalk.yellow('Anyone will be able to decrypt and download this file.'));
-      
-      // TODO: Continue with remaining logic:
-      // - Update smart contract permissions (set tokenQuantity to 0)
-      // - Update metadata to set accessType to 'public'
-      // - Remove/burn the NFT (if applicable)
-      
-      console.log(chalk.blue('\n💡 Next steps (not yet implemented):'));
-      console.log(chalk.gray('  • Update permission contract to set tokenQuantity = 0'));
-      console.log(chalk.gray('  • Update metadata accessType to "public"'));
-      console.log(chalk.gray('  • Remove NFT requirement for decryption'));
-      console.log(chalk.gray('  • Maintain file encryption but allow public access'));
-      
-      // Exit successfully
-      process.exit(EXIT_CODES.SUCCESS);
-    } catch (error) {
-      errorHandler.handle(error);
-    }
-  });
-
-program.parse();
\ No newline at end of file
+        console.log(chalk.cyan('\n🔄 Converting Private File to Public Access'));
+        console.log(chalk.gray(`Piece CID: ${pieceCid}`));
+      
+        // Step 1-5: Validate file and get contract address
+        spinner.start('Looking up file by piece CID...');
+        const result = await validateFileForConversion(pieceCid, 'private', 'public');
+      
+        if (!result.success) {
+          spinner.fail('File validation failed');
+          console.log(chalk.red(`\n❌ ${result.message}`));
+          process.exit(EXIT_CODES.ERROR);
+        }
+      
+        spinner.succeed('File contract address retrieved');
+      
+        const dataIdentifier = result.dataIdentifier!;
+        const fileData = result.fileData;
+      
+        // Check if user is the owner
+        if (fileData.owner?.toLowerCase() !== address.toLowerCase()) {
+          console.log(chalk.red('\n❌ You are not the owner of this file.'));
+          console.log(chalk.gray(`File owner: ${fileData.owner}`));
+          console.log(chalk.gray(`Your address: ${address}`));
+          process.exit(EXIT_CODES.ERROR);
+        }
+      
+        console.log(chalk.yellow('\n⚠️  Warning: This will make the file publicly accessible!'));
+        console.log(chalk.yellow('Anyone will be able to decrypt and download this file.'));
+      
+        if (!options.force) {
+          const { confirm } = await inquirer.prompt([
+            {
+              type: 'confirm',
+              name: 'confirm',
+              message: `Make ${fileData.dataMetadata?.name || pieceCid} public?`,
+              default: false,
+            },
+          ]);
+        
+          if (!confirm) {
+            console.log(chalk.yellow('\nOperation cancelled'));
+            process.exit(EXIT_CODES.SUCCESS);
+          }
+        }
+      
+        // Step 6: Prepare wallet and kernel client
+        spinner.start('Preparing to update permissions...');
+      
+        // Validate required configuration
+        if (!config.registryContractAddress) {
+          throw new Error('REGISTRY_CONTRACT_ADDRESS not configured');
+        }
+        if (!config.validationContractAddress) {
+          throw new Error('VALIDATION_CONTRACT_ADDRESS not configured');
+        }
+        if (!config.bundlerRpcUrl) {
+          throw new Error('BUNDLER_RPC_URL not configured');
+        }
+      
+        // Create wallet client
+        const account = await getAccount();
+      
+        const walletClient = createWalletClient({
+          account: account,
+          chain: getRegistryChain().chain,
+          transport: http(),
+        });
+      
+        // Get authorization for kernel account
+        const kernelVersion = KERNEL_V3_3;
+        const kernelAddresses = KernelVersionToAddressesMap[kernelVersion];
+        const accountImplementationAddress = kernelAddresses.accountImplementationAddress;
+        const authorization = await walletClient.signAuthorization({
+          contractAddress: accountImplementationAddress as `0x${string}`,
+          account: account,
+        });
+      
+        // Re-registering replaces the file contract, so a price is set on the new one again
+        const price = await getAccessPrice(result.fileContractAddress!);
+        spinner.succeed('Ready to update permissions');
+      
+        // Step 7: Re-register with tokenQuantity 0 and accessType public
+        spinner.start('Updating permissions and metadata...');
+      
+        const { receipt } = await updateAccessType(
+          dataIdentifier,
+          result.fileContractAddress!,
+          result.fileMetadata!,
+          'public',
+          walletClient as any,
+          authorization,
+          config.registryContractAddress,
+          config.validationContractAddress,
+          config.bundlerRpcUrl,
+          options.debug,
+          undefined,
+          undefined,
+          price ? { fee: BigInt(price.amountRaw), tokenAddress: price.token, feeRecipient: price.feeRecipient } : undefined
+        );
+      
+        spinner.succeed('File is now public');
+      
+        console.log(chalk.green(`\n✅ File Access Updated:`));
+        console.log(chalk.gray(`  Transaction Hash: ${receipt.transactionHash}`));
+        console.log(chalk.gray(`  File: ${fileData.dataMetadata?.name || 'Unknown'}`));
+        console.log(chalk.gray(`  Access Type: public`));
+        console.log(chalk.blue('\n💡 Anyone can now decrypt this file using the download command.'));
+      
+        // Exit successfully
+        process.exit(EXIT_CODES.SUCCESS);
+      } catch (error) {
+        errorHandler.handle(error);
+      }
+    });
+}
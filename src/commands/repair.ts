@@ -0,0 +1,249 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { getSynapse } from '../utils/synapse.js';
+import { errorHandler, createFileError } from '../utils/errorHandler.js';
+import { EXIT_CODES } from '../constants.js';
+import { deployPermissionsAndMintNFT, getFileContract } from '../utils/keypo.js';
+import { isEnvelope, decodeEnvelope } from '../utils/envelope.js';
+import { findRegistryCondition } from '../utils/conditions.js';
+import { isChunkedManifest } from '../utils/chunkedFile.js';
+import { getKernelClient } from '../utils/getKernelClient.js';
+import { startJournalEntry, updateJournalEntry } from '../utils/journal.js';
+import { DataMetadata } from '../utils/types.js';
+import { config, validateLitConfig } from '../config.js';
+import { getAccount } from '../utils/account.js';
+import { createWalletClient, http } from 'viem';
+import { KernelVersionToAddressesMap, KERNEL_V3_3 } from "@zerodev/sdk/constants";
+import { getRegistryChain } from '../utils/registryChain.js';
+
+interface RepairOptions {
+  private?: boolean;
+  debug?: boolean;
+}
+
+/**
+ * What an encrypted payload records about its own registration.
+ */
+interface RegistrationInfo {
+  format: string;
+  dataIdentifier: string;
+  metadata: DataMetadata;
+  accessControlConditions: any;
+  chunkedPieceCount?: number;
+}
+
+export function createRepairCommand(): Command {
+  return new Command('repair')
+    .description('Register an encrypted file whose permission contract was never deployed')
+    .argument('<pieceCid>', 'The piece CID of the orphaned encrypted file')
+    .option('--private', 'Register the file as private (NFT required) instead of public')
+    .option('-d, --debug', 'Enable debug output')
+    .action(async (pieceCid: string, options: RepairOptions) => {
+      const spinner = ora();
+      errorHandler.setContext({ spinner, debug: options.debug || process.env.DEBUG === 'true' });
+
+      try {
+        // Validate Lit Protocol and contract configuration
+        validateLitConfig();
+
+        console.log(chalk.cyan('\n🛠️  Repairing File Registration'));
+        console.log(chalk.gray(`Piece CID: ${pieceCid}`));
+
+        // Step 1: Download the payload
+        spinner.start('Connecting to Filecoin...');
+        const { synapse } = await getSynapse();
+        spinner.text = `Downloading payload for ${pieceCid}...`;
+        let payloadBytes: Uint8Array;
+        try {
+          payloadBytes = await synapse.storage.download(pieceCid);
+        } catch (downloadError) {
+          throw createFileError('File not found', {
+            cause: downloadError,
+            userMessage: `File with Piece CID not found: ${pieceCid}\n${chalk.yellow('Make sure the CID is correct and the file exists in your datasets.')}`,
+            details: { pieceCid }
+          });
+        }
+        spinner.succeed('Payload downloaded');
+
+        // Step 2: Read the data identifier and metadata the payload was encrypted for
+        const info = readRegistrationInfo(payloadBytes);
+        if (!info) {
+          console.log(chalk.red('\n❌ This piece is not an encrypted synapse-cli payload, so there is nothing to register.'));
+          process.exit(EXIT_CODES.ERROR);
+        }
+
+        console.log(chalk.green(`\n✅ Payload Details:`));
+        console.log(chalk.gray(`  Format: ${info.format}`));
+        console.log(chalk.gray(`  Name: ${info.metadata?.name || 'Unknown'}`));
+        console.log(chalk.gray(`  Data ID: ${info.dataIdentifier}`));
+
+        // The access control conditions name the registry Lit will ask; registering elsewhere would never unlock the file
+        const conditionRegistry = findRegistryCondition(info.accessControlConditions)?.contractAddress;
+        if (conditionRegistry && conditionRegistry.toLowerCase() !== config.registryContractAddress!.toLowerCase()) {
+          console.log(chalk.red('\n❌ The payload is bound to a different permissions registry.'));
+          console.log(chalk.gray(`Payload registry: ${conditionRegistry}`));
+          console.log(chalk.gray(`Configured registry: ${config.registryContractAddress}`));
+          process.exit(EXIT_CODES.ERROR);
+        }
+
+        // Step 3: Refuse if the identifier is already registered
+        spinner.start('Checking permissions registry...');
+        const existingContract = await getFileContract(info.dataIdentifier, config.registryContractAddress!);
+        if (existingContract) {
+          spinner.fail('File is already registered');
+          console.log(chalk.red(`\n❌ Data identifier ${info.dataIdentifier} is already deployed at ${existingContract}.`));
+          console.log(chalk.gray('Nothing to repair. Use "list" to see the file.'));
+          process.exit(EXIT_CODES.ERROR);
+        }
+        spinner.succeed('Data identifier is not registered');
+
+        // Step 4: Prepare wallet and kernel client
+        spinner.start('Preparing kernel client...');
+        const account = await getAccount();
+
+        const walletClient = createWalletClient({
+          account: account,
+          chain: getRegistryChain().chain,
+          transport: http(),
+        });
+
+        const kernelVersion = KERNEL_V3_3;
+        const kernelAddresses = KernelVersionToAddressesMap[kernelVersion];
+        const accountImplementationAddress = kernelAddresses.accountImplementationAddress;
+        const authorization = await walletClient.signAuthorization({
+          contractAddress: accountImplementationAddress as `0x${string}`,
+          account: account,
+        });
+
+        const kernelClient = await getKernelClient(
+          walletClient,
+          getRegistryChain().chain,
+          config.bundlerRpcUrl!,
+          authorization,
+          options.debug
+        );
+        spinner.succeed('Kernel client ready');
+
+        // Step 5: Deploy the permission contract (and mint the owner NFT for private files)
+        const isPublic = !options.private;
+        const metadataWithPieceCid = {
+          ...info.metadata,
+          filecoinStorageInfo: {
+            pieceCid,
+            repairedAt: new Date().toISOString(),
+            ...(info.chunkedPieceCount && { chunked: true, pieceCount: info.chunkedPieceCount })
+          },
+          accessType: isPublic ? 'public' : 'private'
+        };
+
+        const journalEntry = await startJournalEntry('repair', {
+          stage: 'uploaded',
+          ownerAddress: account.address,
+          fileName: info.metadata?.name,
+          pieceCid,
+          dataIdentifier: info.dataIdentifier,
+          accessType: isPublic ? 'public' : 'private',
+          metadata: metadataWithPieceCid,
+        });
+
+        spinner.start('Deploying permission contracts...');
+        let transactions;
+        try {
+          transactions = await deployPermissionsAndMintNFT(
+            info.dataIdentifier,
+            metadataWithPieceCid as DataMetadata,
+            kernelClient,
+            account.address,
+            config.registryContractAddress!,
+            config.validationContractAddress!,
+            isPublic,
+            {
+              onDeployed: async (transactionHash) => {
+                await updateJournalEntry(journalEntry.id, { stage: 'deployed', txHashes: { deploy: transactionHash } });
+              },
+              onMinted: async (transactionHash) => {
+                await updateJournalEntry(journalEntry.id, { stage: 'minted', txHashes: { mint: transactionHash } });
+              },
+            },
+            undefined,
+            [],
+            options.debug
+          );
+        } catch (contractError) {
+          await updateJournalEntry(journalEntry.id, {
+            lastError: contractError instanceof Error ? contractError.message : String(contractError),
+          });
+          console.warn(chalk.yellow(`\nRun "synapse-cli resume ${journalEntry.id}" to retry the remaining steps.`));
+          throw contractError;
+        }
+        await updateJournalEntry(journalEntry.id, { stage: 'completed' });
+        spinner.succeed('File registered');
+
+        console.log(chalk.green(`\n✅ File Repaired:`));
+        console.log(chalk.gray(`  File: ${info.metadata?.name || 'Unknown'}`));
+        console.log(chalk.gray(`  Data Identifier: ${info.dataIdentifier}`));
+        console.log(chalk.gray(`  Access Type: ${isPublic ? 'public' : 'private'}`));
+        console.log(chalk.gray(`  Deploy Transaction Hash: ${transactions.deployTransactionHash || 'N/A'}`));
+        if (!isPublic) {
+          console.log(chalk.gray(`  NFT Mint Transaction Hash: ${transactions.mintTransactionHash || 'N/A'}`));
+        }
+        console.log(chalk.blue('\n💡 The file now shows up in "list" and can be shared or deleted again.'));
+
+        // Exit successfully
+        process.exit(EXIT_CODES.SUCCESS);
+      } catch (error) {
+        errorHandler.handle(error);
+      }
+    });
+}
+
+/**
+ * Extracts the data identifier and metadata from any encrypted payload format.
+ * Returns null for unencrypted or foreign payloads.
+ */
+function readRegistrationInfo(payloadBytes: Uint8Array): RegistrationInfo | null {
+  if (isEnvelope(payloadBytes)) {
+    const { version, metadata, encryption } = decodeEnvelope(payloadBytes);
+    if (!encryption) {
+      return null;
+    }
+    return {
+      format: `encrypted envelope v${version}`,
+      dataIdentifier: encryption.dataIdentifier,
+      metadata,
+      accessControlConditions: encryption.accessControlConditions,
+    };
+  }
+
+  let jsonData: any;
+  try {
+    jsonData = JSON.parse(new TextDecoder().decode(payloadBytes));
+  } catch {
+    return null;
+  }
+
+  if (isChunkedManifest(jsonData)) {
+    if (!jsonData.encrypted || !jsonData.dataIdentifier) {
+      return null;
+    }
+    return {
+      format: `chunked manifest v${jsonData.version}`,
+      dataIdentifier: jsonData.dataIdentifier,
+      metadata: jsonData.metadata,
+      accessControlConditions: jsonData.accessControlConditions,
+      chunkedPieceCount: jsonData.pieces.length,
+    };
+  }
+
+  if (jsonData?.ciphertext && jsonData.dataIdentifier && jsonData.metadata) {
+    return {
+      format: 'encrypted JSON payload',
+      dataIdentifier: jsonData.dataIdentifier,
+      metadata: jsonData.metadata,
+      accessControlConditions: jsonData.accessControlConditions,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,255 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { errorHandler, AppError, ErrorCategory } from '../utils/errorHandler.js';
+import { EXIT_CODES } from '../constants.js';
+import { deployPermissionsAndMintNFT, updateAccessType, groupPermission, getFileContract, getAccessHolders, setPublicDistribution } from '../utils/keypo.js';
+import { getKernelClient } from '../utils/getKernelClient.js';
+import { listJournalEntries, updateJournalEntry, removeJournalEntry, getJournalPath, JournalEntry } from '../utils/journal.js';
+import { DataMetadata } from '../utils/types.js';
+import { continueRotation } from '../sdk/files.js';
+import { config, validateLitConfig } from '../config.js';
+import { getAccount } from '../utils/account.js';
+import { createWalletClient, http } from 'viem';
+import { KernelVersionToAddressesMap, KERNEL_V3_3 } from "@zerodev/sdk/constants";
+import { getRegistryChain } from '../utils/registryChain.js';
+
+interface ResumeOptions {
+  list?: boolean;
+  all?: boolean;
+  discard?: boolean;
+  debug?: boolean;
+}
+
+interface ResumeClients {
+  kernelClient: any;
+  walletClient: any;
+  authorization: any;
+  debug?: boolean;
+}
+
+export function createResumeCommand(): Command {
+  return new Command('resume')
+    .description('Finish the pending steps of interrupted uploads, repairs, access changes and rotations')
+    .argument('[id]', 'Journal entry to resume (default: every pending entry)')
+    .option('-l, --list', 'List pending journal entries instead of resuming')
+    .option('-a, --all', 'With --list, include completed entries')
+    .option('--discard', 'Remove the given entry from the journal without resuming it')
+    .option('-d, --debug', 'Enable debug output')
+    .action(async (id: string | undefined, options: ResumeOptions) => {
+      const spinner = ora();
+      errorHandler.setContext({ spinner, debug: options.debug || process.env.DEBUG === 'true' });
+
+      try {
+        if (options.list) {
+          const entries = await listJournalEntries(options.all);
+          if (entries.length === 0) {
+            console.log(chalk.yellow(options.all ? 'The journal is empty.' : 'No pending operations.'));
+            process.exit(EXIT_CODES.SUCCESS);
+          }
+
+          console.log(chalk.cyan(`\n📒 ${options.all ? 'Journal entries' : 'Pending operations'} (${getJournalPath()}):\n`));
+          entries.forEach(printEntry);
+          process.exit(EXIT_CODES.SUCCESS);
+        }
+
+        if (options.discard) {
+          if (!id) {
+            throw new AppError('Missing journal entry id', {
+              category: ErrorCategory.VALIDATION,
+              userMessage: '--discard requires the id of the entry to remove',
+              exitCode: EXIT_CODES.VALIDATION_ERROR,
+            });
+          }
+          if (!(await removeJournalEntry(id))) {
+            console.log(chalk.red(`\n❌ No journal entry with id ${id}`));
+            process.exit(EXIT_CODES.ERROR);
+          }
+          console.log(chalk.green(`✅ Discarded journal entry ${id}`));
+          process.exit(EXIT_CODES.SUCCESS);
+        }
+
+        // A rotation waits for the upload entry of its re-encrypted copy, so rotations run last
+        const pending = (await listJournalEntries())
+          .filter(entry => !id || entry.id === id)
+          .sort((a, b) => Number(a.operation === 'rotate') - Number(b.operation === 'rotate'));
+        if (pending.length === 0) {
+          if (id) {
+            const existing = (await listJournalEntries(true)).find(entry => entry.id === id);
+            console.log(existing
+              ? chalk.green(`✅ Journal entry ${id} is already completed.`)
+              : chalk.red(`\n❌ No journal entry with id ${id}`));
+            process.exit(existing ? EXIT_CODES.SUCCESS : EXIT_CODES.ERROR);
+          }
+          console.log(chalk.green('✅ Nothing to resume.'));
+          process.exit(EXIT_CODES.SUCCESS);
+        }
+
+        // Validate Lit Protocol and contract configuration
+        validateLitConfig();
+
+        // Prepare wallet and kernel client once for every entry
+        spinner.start('Preparing kernel client...');
+        const account = await getAccount();
+
+        const walletClient = createWalletClient({
+          account: account,
+          chain: getRegistryChain().chain,
+          transport: http(),
+        });
+
+        const kernelVersion = KERNEL_V3_3;
+        const kernelAddresses = KernelVersionToAddressesMap[kernelVersion];
+        const accountImplementationAddress = kernelAddresses.accountImplementationAddress;
+        const authorization = await walletClient.signAuthorization({
+          contractAddress: accountImplementationAddress as `0x${string}`,
+          account: account,
+        });
+
+        const kernelClient = await getKernelClient(
+          walletClient,
+          getRegistryChain().chain,
+          config.bundlerRpcUrl!,
+          authorization,
+          options.debug
+        );
+        spinner.succeed(`Kernel client ready for ${account.address}`);
+
+        let failed = 0;
+        for (const entry of pending) {
+          const label = `${entry.operation} ${entry.fileName || entry.pieceCid || ''} [${entry.id}]`;
+
+          if (entry.ownerAddress.toLowerCase() !== account.address.toLowerCase()) {
+            console.log(chalk.yellow(`\n⚠️  Skipping ${label}: started by ${entry.ownerAddress}, not the configured wallet`));
+            failed++;
+            continue;
+          }
+
+          spinner.start(`Resuming ${label} from stage "${entry.stage}"...`);
+          try {
+            await resumeEntry(entry, { kernelClient, walletClient, authorization, debug: options.debug });
+            await updateJournalEntry(entry.id, { stage: 'completed', lastError: undefined });
+            spinner.succeed(`Completed ${label}`);
+          } catch (resumeError) {
+            failed++;
+            const message = resumeError instanceof Error ? resumeError.message : String(resumeError);
+            await updateJournalEntry(entry.id, { lastError: message });
+            spinner.fail(`Failed ${label}: ${message}`);
+          }
+        }
+
+        console.log(failed === 0
+          ? chalk.green(`\n✅ Resumed ${pending.length} operation(s)`)
+          : chalk.yellow(`\n⚠️  ${pending.length - failed} of ${pending.length} operation(s) resumed; run "resume --list" for details`));
+        process.exit(failed === 0 ? EXIT_CODES.SUCCESS : EXIT_CODES.CONTRACT_ERROR);
+      } catch (error) {
+        errorHandler.handle(error);
+      }
+    });
+}
+
+/**
+ * Runs the remaining on-chain steps of a journal entry, recording each finished step.
+ */
+async function resumeEntry(entry: JournalEntry, clients: ResumeClients): Promise<void> {
+  const { kernelClient, walletClient, authorization, debug } = clients;
+
+  // A repair is an upload whose piece is already on Filecoin, so both finish the same way
+  if (entry.operation === 'upload' || entry.operation === 'repair') {
+    // The deploy may have gone through without the journal recording it; deploying again would replace the contract
+    let deployed = entry.stage !== 'uploaded';
+    if (!deployed && await getFileContract(entry.dataIdentifier!, config.registryContractAddress!)) {
+      entry = await updateJournalEntry(entry.id, { stage: 'deployed' });
+      deployed = true;
+    }
+    if (deployed && entry.accessType === 'public') {
+      return; // Public files need no NFT
+    }
+
+    await deployPermissionsAndMintNFT(
+      entry.dataIdentifier!,
+      entry.metadata as DataMetadata,
+      kernelClient,
+      entry.ownerAddress,
+      config.registryContractAddress!,
+      config.validationContractAddress!,
+      entry.accessType === 'public',
+      {
+        skipDeploy: deployed,
+        // Only the paid distribution is left when the owner NFT exists, so it is never minted twice
+        skipMint: deployed && await ownerNftMinted(entry),
+        onDeployed: async (transactionHash) => {
+          await updateJournalEntry(entry.id, { stage: 'deployed', txHashes: { deploy: transactionHash } });
+        },
+        onMinted: async (transactionHash) => {
+          await updateJournalEntry(entry.id, { stage: 'minted', txHashes: { mint: transactionHash } });
+        },
+      },
+      entry.distribution && { ...entry.distribution, fee: BigInt(entry.distribution.fee) },
+      entry.groupContractAddress ? [groupPermission(entry.groupContractAddress, entry.timeLimitBlockNumber)] : [],
+      debug
+    );
+    return;
+  }
+
+  if (entry.operation === 'rotate') {
+    await continueRotation(entry, walletClient, authorization, {}, undefined, debug);
+    return;
+  }
+
+  if (entry.operation === 'make-private') {
+    const distribution = entry.distribution && { ...entry.distribution, fee: BigInt(entry.distribution.fee) };
+    if (entry.stage === 'permissions-updated') {
+      // The access NFT was minted with the re-registration; only the paid distribution can be left
+      if (distribution) {
+        await setPublicDistribution(kernelClient, entry.dataIdentifier!, config.registryContractAddress!, distribution, debug);
+      }
+      return;
+    }
+
+    await updateAccessType(
+      entry.dataIdentifier!,
+      entry.fileContractAddress!,
+      entry.metadata!,
+      'private',
+      walletClient,
+      authorization,
+      config.registryContractAddress!,
+      config.validationContractAddress!,
+      config.bundlerRpcUrl!,
+      debug,
+      entry.recipient,
+      async (transactionHash) => {
+        await updateJournalEntry(entry.id, { stage: 'permissions-updated', txHashes: { update: transactionHash, mint: transactionHash } });
+      },
+      distribution
+    );
+  }
+}
+
+/**
+ * Whether the owner NFT of an entry's file exists: recorded in the journal, or held by the
+ * owner when the process stopped between the mint and the journal write.
+ */
+async function ownerNftMinted(entry: JournalEntry): Promise<boolean> {
+  if (entry.stage === 'minted' || entry.txHashes.mint) {
+    return true;
+  }
+  const fileContractAddress = await getFileContract(entry.dataIdentifier!, config.registryContractAddress!);
+  return fileContractAddress !== null
+    && (await getAccessHolders(fileContractAddress)).some(holder => holder.toLowerCase() === entry.ownerAddress.toLowerCase());
+}
+
+function printEntry(entry: JournalEntry): void {
+  const stageColor = entry.stage === 'completed' ? chalk.green : chalk.yellow;
+  console.log(`${chalk.bold(entry.id)}  ${entry.operation}  ${stageColor(entry.stage)}`);
+  console.log(chalk.gray(`   File: ${entry.fileName || 'Unknown'}`));
+  if (entry.pieceCid) console.log(chalk.gray(`   Piece CID: ${entry.pieceCid}`));
+  if (entry.dataIdentifier) console.log(chalk.gray(`   Data Identifier: ${entry.dataIdentifier}`));
+  for (const [step, hash] of Object.entries(entry.txHashes)) {
+    console.log(chalk.gray(`   ${step} tx: ${hash}`));
+  }
+  console.log(chalk.gray(`   Updated: ${new Date(entry.updatedAt).toLocaleString()}`));
+  if (entry.lastError) console.log(chalk.red(`   Last error: ${entry.lastError}`));
+  console.log();
+}
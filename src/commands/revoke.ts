@@ -0,0 +1,80 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { isAddress } from 'viem';
+import { getWalletAddress } from '../utils/account.js';
+import { errorHandler, AppError, ErrorCategory } from '../utils/errorHandler.js';
+import { isMachineOutput, emitResult, spinnerProgress } from '../utils/output.js';
+import { EXIT_CODES } from '../constants.js';
+import { SynapseVault } from '../sdk/index.js';
+
+interface RevokeCommandOptions {
+  rotate?: boolean;
+  debug?: boolean;
+}
+
+export function createRevokeCommand(): Command {
+  return new Command('revoke')
+    .description('Take shared access to an encrypted file away from a wallet')
+    .argument('<pieceCid>', 'The piece CID of the file')
+    .argument('<address>', 'The wallet address to revoke access from')
+    .option('--rotate', 'Also re-encrypt the file under a new data identifier so old copies of the ciphertext stop decrypting')
+    .option('-d, --debug', 'Enable debug output')
+    .action(async (pieceCid: string, holderAddress: string, options: RevokeCommandOptions) => {
+      const spinner = ora();
+      errorHandler.setContext({ spinner, debug: options.debug || process.env.DEBUG === 'true' });
+
+      try {
+        if (!isAddress(holderAddress)) {
+          throw new AppError(`Invalid address: ${holderAddress}`, {
+            category: ErrorCategory.VALIDATION,
+            userMessage: `"${holderAddress}" is not a valid wallet address.`,
+            exitCode: EXIT_CODES.VALIDATION_ERROR,
+            details: { address: holderAddress }
+          });
+        }
+
+        // Get wallet address
+        spinner.start('Getting wallet address...');
+        const address = await getWalletAddress();
+        spinner.succeed(`Connected with wallet: ${address}`);
+
+        console.log(chalk.cyan(`\n🚫 Revoking File Access${options.rotate ? ' (with key rotation)' : ''}`));
+        console.log(chalk.gray(`Piece CID: ${pieceCid}`));
+        console.log(chalk.gray(`Address: ${holderAddress}`));
+
+        const result = await new SynapseVault({ debug: options.debug }).revoke(pieceCid, holderAddress, {
+          rotate: options.rotate,
+          onProgress: spinnerProgress(spinner),
+        });
+
+        if (isMachineOutput()) {
+          emitResult(result);
+          process.exit(EXIT_CODES.SUCCESS);
+        }
+
+        console.log(chalk.green(`\n✅ File Access Revoked:`));
+        console.log(chalk.gray(`  Transaction Hash: ${result.transactionHash}`));
+        console.log(chalk.gray(`  Revoked: ${result.revoked}`));
+        console.log(chalk.gray(`  File: ${result.name || 'Unknown'}`));
+        console.log(chalk.gray(`  Remaining holders: ${result.remainingHolders.length}`));
+
+        if (result.rotated) {
+          console.log(chalk.green(`\n🔄 File Re-encrypted:`));
+          console.log(chalk.white(`  New Piece CID: ${result.rotated.pieceCid}`));
+          console.log(chalk.gray(`  New Data ID: ${result.rotated.dataIdentifier}`));
+          if (result.rotated.shareTransactionHash) {
+            console.log(chalk.gray(`  Share Transaction Hash: ${result.rotated.shareTransactionHash}`));
+          }
+          console.log(chalk.blue('\n💡 Use the new Piece CID from now on. The old one no longer decrypts for anyone.'));
+        } else {
+          console.log(chalk.blue('\n💡 The data key is unchanged, so anyone who already unwrapped it can still decrypt copies of the ciphertext. Use --rotate to re-encrypt the file.'));
+        }
+
+        // Exit successfully
+        process.exit(EXIT_CODES.SUCCESS);
+      } catch (error) {
+        errorHandler.handle(error);
+      }
+    });
+}
@@ -0,0 +1,95 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { errorHandler, createConfigError, createNetworkError, AppError, ErrorCategory } from '../utils/errorHandler.js';
+import { createApiServer } from '../utils/apiServer.js';
+import { getAccount } from '../utils/account.js';
+import { config, validateConfig } from '../config.js';
+import { API_SERVER, EXIT_CODES } from '../constants.js';
+
+interface ServeOptions {
+  port: string;
+  host: string;
+  token?: string;
+  debug?: boolean;
+}
+
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+export function createServeCommand(): Command {
+  return new Command('serve')
+    .description('Serve a local REST API for uploading, downloading, listing and sharing files')
+    .option('-p, --port <port>', 'Port to listen on', String(API_SERVER.DEFAULT_PORT))
+    .option('--host <host>', 'Interface to listen on', API_SERVER.DEFAULT_HOST)
+    .option('--token <token>', 'Bearer token clients must send (default: SYNAPSE_API_TOKEN)')
+    .option('-d, --debug', 'Enable debug output')
+    .action(async (options: ServeOptions) => {
+      errorHandler.setContext({ debug: options.debug || process.env.DEBUG === 'true' });
+
+      try {
+        const port = Number(options.port);
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+          throw new AppError(`Invalid port: ${options.port}`, {
+            category: ErrorCategory.VALIDATION,
+            userMessage: '--port must be a number between 0 and 65535',
+            exitCode: EXIT_CODES.VALIDATION_ERROR,
+            details: { port: options.port }
+          });
+        }
+
+        // Anyone who can reach the server can spend from the wallet, so other interfaces need a token
+        const token = options.token || config.apiToken;
+        if (!token && !LOOPBACK_HOSTS.includes(options.host)) {
+          throw createConfigError('API token required', {
+            userMessage: `Listening on ${options.host} requires a bearer token. Pass --token or set SYNAPSE_API_TOKEN.`,
+            details: { host: options.host }
+          });
+        }
+
+        // Fail now rather than on the first request, and unlock a keystore while a terminal is attached
+        validateConfig();
+        await getAccount();
+
+        const server = createApiServer({
+          token,
+          debug: options.debug,
+          onProgress: options.debug ? ({ message }) => console.log(chalk.gray(`  ${message}`)) : undefined,
+          onRequest: (method, url, status, durationMs) => {
+            const color = status >= 500 ? chalk.red : status >= 400 ? chalk.yellow : chalk.green;
+            console.log(`${chalk.gray(new Date().toISOString())} ${method} ${url} ${color(status)} ${durationMs}ms`);
+          },
+        });
+
+        await new Promise<void>((resolve, reject) => {
+          server.once('error', (listenError) => reject(createNetworkError(`Cannot listen on ${options.host}:${port}`, {
+            cause: listenError,
+            userMessage: `Cannot listen on ${options.host}:${port}: ${listenError.message}`,
+            details: { host: options.host, port }
+          })));
+          server.listen(port, options.host, resolve);
+        });
+
+        const address = server.address();
+        const boundPort = address && typeof address === 'object' ? address.port : port;
+        console.log(chalk.green(`✅ Synapse API listening on http://${options.host}:${boundPort}`));
+        console.log(chalk.gray(`  Auth: ${token ? 'bearer token required' : 'none (loopback only)'}`));
+        console.log(chalk.cyan('\n📡 Endpoints:'));
+        console.log(chalk.white('  POST   /files?name=<name>         Upload the request body (?private, ?unencrypted, ?chunked)'));
+        console.log(chalk.white('  GET    /files                     List your encrypted files'));
+        console.log(chalk.white('  GET    /files/:pieceCid           Download (and decrypt) a file'));
+        console.log(chalk.white('  POST   /files/:pieceCid/share     Share access: {"recipient": "0x..."}'));
+        console.log(chalk.white('  POST   /files/:pieceCid/revoke    Revoke access: {"holder": "0x...", "rotate": true}'));
+        console.log(chalk.white('  DELETE /files/:pieceCid           Delete a file from the registry'));
+        console.log(chalk.white('  GET    /balance                   Wallet and Synapse balances'));
+
+        const shutdown = () => {
+          console.log(chalk.gray('\nShutting down...'));
+          server.close(() => process.exit(EXIT_CODES.SUCCESS));
+          server.closeAllConnections();
+        };
+        process.once('SIGINT', shutdown);
+        process.once('SIGTERM', shutdown);
+      } catch (error) {
+        errorHandler.handle(error);
+      }
+    });
+}
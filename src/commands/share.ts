@@ -1,151 +1,159 @@
-#!/usr/bin/env node
 import { Command } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
-import { getWalletAddress } from '../utils/synapse.js';
-import { errorHandler } from '../utils/errorHandler.js';
+import ora, { Ora } from 'ora';
+import { getWalletAddress } from '../utils/account.js';
+import { errorHandler, AppError, ErrorCategory } from '../utils/errorHandler.js';
+import { formatExpiry } from '../utils/expiry.js';
+import { readRecipientsFile, normalizeRecipients } from '../utils/recipients.js';
+import { isMachineOutput, emitResult, spinnerProgress } from '../utils/output.js';
 import { EXIT_CODES } from '../constants.js';
-import { list as listEncryptedFiles } from '../utils/list.js';
-import { share } from '../utils/keypo.js';
-import { config } from '../config.js';
-import { privateKeyToAccount } from 'viem/accounts';
-import { createWalletClient, http } from 'viem';
-import { baseSepolia } from 'viem/chains';
-import { KernelVersionToAddressesMap, KERNEL_V3_3 } from "@zerodev/sdk/constants";
-
-const program = new Command();
+import { SynapseVault } from '../sdk/index.js';
 
 interface ShareOptions {
+  expires?: string;
+  group?: string;
+  recipients?: string;
+  allFilesMatching?: string;
+  to?: string;
   debug?: boolean;
 }
 
-program
-  .name('share')
-  .description('Share access to an encrypted file by minting NFT to recipient')
-  .argument('<pieceCid>', 'The piece CID of the file to share')
-  .argument('<recipientAddress>', 'The wallet address to share access with')
-  .option('-d, --debug', 'Enable debug output')
-  .action(async (pieceCid: string, recipientAddress: string, options: ShareOptions) => {
-    const spinner = ora();
-    errorHandler.setContext({ spinner, debug: options.debug || process.env.DEBUG === 'true' });
+export function createShareCommand(): Command {
+  return new Command('share')
+    .description('Share access to an encrypted file by minting NFT to recipient')
+    .argument('[pieceCid]', 'The piece CID of the file to share (omit with --all-files-matching)')
+    .argument('[recipientAddress]', 'The wallet address to share access with')
+    .option('--group <id>', 'Give every member of an access group (name or identifier) access instead of one wallet')
+    .option('--recipients <file.csv>', 'Share with every address in a CSV file (an "address" column, or the first column)')
+    .option('--all-files-matching <pattern>', 'Share every private file of yours whose name matches a glob pattern')
+    .option('--to <address>', 'Recipient address (for use with --all-files-matching)')
+    .option('--expires <when>', 'Stop access after a duration (7d, 12h), date (2026-12-31) or block (block:35000000); only with --group')
+    .option('-d, --debug', 'Enable debug output')
+    .action(async (pieceCid: string | undefined, recipientAddress: string | undefined, options: ShareOptions) => {
+      const spinner = ora();
+      errorHandler.setContext({ spinner, debug: options.debug || process.env.DEBUG === 'true' });
     
-    try {
-      // Get wallet address
-      spinner.start('Getting wallet address...');
-      const address = await getWalletAddress();
-      spinner.succeed(`Connected with wallet: ${address}`);
-      
-      console.log(chalk.cyan('\n🤝 Sharing File Access'));
-      console.log(chalk.gray(`Piece CID: ${pieceCid}`));
-      console.log(chalk.gray(`Recipient: ${recipientAddress}`));
-      
-      // Step 1: Find the file by piece CID
-      spinner.start('Looking up file by piece CID...');
-      const files = await listEncryptedFiles(address, false, undefined, {
-        filterBy: {
-          field: 'pieceCid',
-          value: pieceCid,
-          operator: 'equals'
+      try {
+        if (!pieceCid === !options.allFilesMatching) {
+          throw invalidUsage('Give either a piece CID or --all-files-matching <pattern>.', { pieceCid, allFilesMatching: options.allFilesMatching });
+        }
+        const targets = [recipientAddress, options.to, options.recipients, options.group].filter(Boolean);
+        if (targets.length !== 1) {
+          throw invalidUsage('Give exactly one of a recipient address, --to <address>, --recipients <file.csv> or --group <id>.', {
+            recipient: recipientAddress, to: options.to, recipients: options.recipients, group: options.group
+          });
+        }
+        if (options.group && options.allFilesMatching) {
+          throw invalidUsage('--group binds one file at a time; run "share <cid> --group" for each file.', { group: options.group });
+        }
+
+        if (options.recipients || options.allFilesMatching) {
+          await shareBatch(pieceCid, options, recipientAddress ?? options.to, spinner);
+          return;
+        }
+        recipientAddress = recipientAddress ?? options.to;
+
+        // Get wallet address
+        spinner.start('Getting wallet address...');
+        const address = await getWalletAddress();
+        spinner.succeed(`Connected with wallet: ${address}`);
+      
+        console.log(chalk.cyan('\n🤝 Sharing File Access'));
+        console.log(chalk.gray(`Piece CID: ${pieceCid!}`));
+        console.log(chalk.gray(options.group ? `Group: ${options.group}` : `Recipient: ${recipientAddress}`));
+      
+        const vault = new SynapseVault({ debug: options.debug });
+        const shareOptions = { expires: options.expires, onProgress: spinnerProgress(spinner) };
+        const result = options.group
+          ? await vault.shareWithGroup(pieceCid!, options.group, shareOptions)
+          : await vault.share(pieceCid!, recipientAddress!, shareOptions);
+
+        if (isMachineOutput()) {
+          emitResult(result);
+          process.exit(EXIT_CODES.SUCCESS);
         }
-      });
-      
-      const fileEntries = Object.entries(files);
-      
-      // Check if file exists
-      if (fileEntries.length === 0) {
-        spinner.fail('File not found');
-        console.log(chalk.red('\n❌ File not found.'));
-        console.log(chalk.gray(`No encrypted file found with piece CID: ${pieceCid}`));
-        process.exit(EXIT_CODES.ERROR);
-      }
-      
-      if (fileEntries.length > 1) {
-        spinner.warn('Multiple files found');
-        console.log(chalk.yellow('\n⚠️  Multiple files found with the same piece CID. Using the first one.'));
-      }
       
-      const [dataIdentifier, fileData] = fileEntries[0];
-      spinner.succeed('File found');
+        if (result.reason === 'already-bound') {
+          console.log(chalk.yellow('\n⚠️  File is already bound to this group.'));
+          process.exit(EXIT_CODES.SUCCESS);
+        }
+        if (!result.shared) {
+          console.log(chalk.yellow('\n⚠️  File is public - no need to share.'));
+          console.log(chalk.gray('Anyone can already decrypt this file.'));
+          process.exit(EXIT_CODES.SUCCESS);
+        }
       
-      console.log(chalk.green(`\n✅ File Details:`));
-      console.log(chalk.gray(`  Name: ${fileData.dataMetadata?.name || 'Unknown'}`));
-      console.log(chalk.gray(`  Data ID: ${dataIdentifier}`));
-      console.log(chalk.gray(`  Access Type: ${fileData.dataMetadata?.accessType || 'private'}`));
+        console.log(chalk.green(`\n✅ File Access Shared:`));
+        console.log(chalk.gray(`  Transaction Hash: ${result.transactionHash}`));
+        console.log(chalk.gray(result.group ? `  Group: ${result.group}` : `  Recipient: ${result.recipient}`));
+        console.log(chalk.gray(`  File: ${result.name || 'Unknown'}`));
+        console.log(chalk.gray(`  Data ID: ${result.dataIdentifier}`));
+        if (result.expiry) {
+          console.log(chalk.gray(`  Access Expires: ${formatExpiry(result.expiry)}`));
+        }
+        console.log(chalk.blue(result.group
+          ? '\n💡 Every group member, including members added later, can now decrypt this file using the download command.'
+          : '\n💡 The recipient can now decrypt this file using the download command.'));
       
-      // Check if file is public
-      if (fileData.dataMetadata?.accessType === 'public') {
-        console.log(chalk.yellow('\n⚠️  File is public - no need to share.'));
-        console.log(chalk.gray('Anyone can already decrypt this file.'));
+        // Exit successfully
         process.exit(EXIT_CODES.SUCCESS);
+      } catch (error) {
+        errorHandler.handle(error);
       }
-      
-      // Check if user is the owner
-      if (fileData.owner?.toLowerCase() !== address.toLowerCase()) {
-        spinner.fail('Permission denied');
-        console.log(chalk.red('\n❌ You are not the owner of this file.'));
-        console.log(chalk.gray(`File owner: ${fileData.owner}`));
-        console.log(chalk.gray(`Your address: ${address}`));
-        process.exit(EXIT_CODES.ERROR);
-      }
-      
-      // Step 2: Prepare wallet and kernel client
-      spinner.start('Preparing to mint access NFT...');
-      
-      // Validate required configuration
-      if (!config.registryContractAddress) {
-        throw new Error('REGISTRY_CONTRACT_ADDRESS not configured');
-      }
-      if (!config.bundlerRpcUrl) {
-        throw new Error('BUNDLER_RPC_URL not configured');
-      }
-      
-      // Create wallet client
-      const formattedPrivateKey = config.privateKey!.startsWith('0x') ? config.privateKey! : `0x${config.privateKey!}`;
-      const account = privateKeyToAccount(formattedPrivateKey as `0x${string}`);
-      
-      const walletClient = createWalletClient({
-        account: account,
-        chain: baseSepolia,
-        transport: http(),
-      });
-      
-      // Get authorization for kernel account
-      const kernelVersion = KERNEL_V3_3;
-      const kernelAddresses = KernelVersionToAddressesMap[kernelVersion];
-      const accountImplementationAddress = kernelAddresses.accountImplementationAddress;
-      const authorization = await walletClient.signAuthorization({
-        contractAddress: accountImplementationAddress as `0x${string}`,
-        account: account,
-      });
-      
-      spinner.succeed('Ready to mint access NFT');
-      
-      // Step 3: Call the share function
-      spinner.start('Minting access NFT to recipient...');
-      
-      const receipt = await share(
-        dataIdentifier,
-        walletClient as any,
-        [recipientAddress],
-        config.registryContractAddress,
-        config.bundlerRpcUrl,
-        authorization,
-        options.debug
-      );
-      
-      spinner.succeed('Access NFT minted successfully');
-      
-      console.log(chalk.green(`\n✅ File Access Shared:`));
-      console.log(chalk.gray(`  Transaction Hash: ${receipt.transactionHash}`));
-      console.log(chalk.gray(`  Recipient: ${recipientAddress}`));
-      console.log(chalk.gray(`  File: ${fileData.dataMetadata?.name || 'Unknown'}`));
-      console.log(chalk.blue('\n💡 The recipient can now decrypt this file using the download command.'));
-      
-      // Exit successfully
-      process.exit(EXIT_CODES.SUCCESS);
-    } catch (error) {
-      errorHandler.handle(error);
-    }
-  });
+    });
+}
+
+/**
+ * `--recipients` and `--all-files-matching`: mints in batches and prints one row per file
+ * and recipient. Exits with an error code when any mint failed.
+ */
+async function shareBatch(pieceCid: string | undefined, options: ShareOptions, recipient: string | undefined, spinner: Ora): Promise<void> {
+  const entries = options.recipients ? await readRecipientsFile(options.recipients) : [{ address: recipient!, source: '--to' }];
+  const recipients = normalizeRecipients(entries);
+
+  console.log(chalk.cyan('\n🤝 Sharing File Access'));
+  console.log(chalk.gray(pieceCid ? `Piece CID: ${pieceCid}` : `Files matching: ${options.allFilesMatching}`));
+  console.log(chalk.gray(`Recipients: ${recipients.length}`));
+
+  const result = await new SynapseVault({ debug: options.debug }).shareBatch(
+    { pieceCid, match: options.allFilesMatching },
+    recipients,
+    { expires: options.expires, onProgress: spinnerProgress(spinner) }
+  );
+  const exitCode = result.failed > 0 ? EXIT_CODES.ERROR : EXIT_CODES.SUCCESS;
+
+  if (isMachineOutput()) {
+    emitResult(result);
+    process.exit(exitCode);
+  }
+
+  const rows = result.results.map(row => ({
+    file: row.name || row.pieceCid || 'Unknown',
+    recipient: row.recipient,
+    status: row.status,
+    detail: row.transactionHash ?? row.reason ?? '',
+  }));
+  const fileWidth = Math.min(Math.max(4, ...rows.map(row => row.file.length)), 32);
+  const colors = { minted: chalk.green, skipped: chalk.yellow, failed: chalk.red };
 
-program.parse();
\ No newline at end of file
+  console.log(`\n${chalk.white('File'.padEnd(fileWidth))}  ${chalk.white('Recipient'.padEnd(42))}  ${chalk.white('Status '.padEnd(8))}  ${chalk.white('Transaction / Reason')}`);
+  for (const row of rows) {
+    const file = row.file.length > fileWidth ? `${row.file.slice(0, fileWidth - 1)}…` : row.file.padEnd(fileWidth);
+    console.log(`${file}  ${row.recipient}  ${colors[row.status](row.status.padEnd(8))}  ${chalk.gray(row.detail)}`);
+  }
+
+  console.log(chalk.cyan(`\n📊 ${result.minted} minted, ${result.skipped} skipped, ${result.failed} failed across ${result.files} file(s) in ${result.operations} user operation(s)`));
+  if (result.failed > 0) {
+    console.log(chalk.yellow('\n⚠️  Run the same command again to retry: recipients who already have access are skipped.'));
+  }
+  process.exit(exitCode);
+}
+
+function invalidUsage(userMessage: string, details: Record<string, unknown>): AppError {
+  return new AppError('Invalid share arguments', {
+    category: ErrorCategory.VALIDATION,
+    userMessage,
+    exitCode: EXIT_CODES.VALIDATION_ERROR,
+    details
+  });
+}
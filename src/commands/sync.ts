@@ -0,0 +1,52 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { getWalletAddress } from '../utils/account.js';
+import { errorHandler } from '../utils/errorHandler.js';
+import { syncLocalIndex, getLocalIndexPath } from '../utils/localIndex.js';
+import { EXIT_CODES } from '../constants.js';
+
+interface SyncOptions {
+  provider?: string;
+  full?: boolean;
+  debug?: boolean;
+}
+
+export function createSyncCommand(): Command {
+  return new Command('sync')
+    .description('Update the local file index used by list, share, delete and access changes')
+    .option('-p, --provider <name>', 'Index source: keypo, rpc or auto (default: INDEX_PROVIDER or auto)')
+    .option('--full', 'Discard the local index and rebuild it from scratch')
+    .option('-d, --debug', 'Enable debug output')
+    .action(async (options: SyncOptions) => {
+      const spinner = ora();
+      errorHandler.setContext({ spinner, debug: options.debug || process.env.DEBUG === 'true' });
+
+      try {
+        const address = await getWalletAddress();
+
+        spinner.start(options.full ? 'Rebuilding file index...' : 'Syncing file index...');
+        const result = await syncLocalIndex(address, {
+          provider: options.provider,
+          full: options.full,
+          debug: options.debug,
+          onProgress: (message) => { spinner.text = message; },
+        });
+        spinner.succeed(`File index synced from ${result.source === 'rpc' ? 'registry logs' : 'the Keypo API'}`);
+
+        console.log(chalk.cyan('\n📇 Local Index:'));
+        console.log(chalk.gray(`  Path: ${getLocalIndexPath()}`));
+        console.log(chalk.white(`  New Files: ${result.added}`));
+        console.log(chalk.white(`  Total Files: ${result.totalFiles} (${result.deletedFiles} deleted)`));
+        if (result.index.scannedBlock !== undefined) {
+          console.log(chalk.gray(`  Scanned Up To Block: ${result.index.scannedBlock}`));
+        }
+        console.log(chalk.blue('\n💡 Use "list --offline" to list files from this index without network access.'));
+
+        // Exit successfully
+        process.exit(EXIT_CODES.SUCCESS);
+      } catch (error) {
+        errorHandler.handle(error);
+      }
+    });
+}
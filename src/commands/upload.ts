@@ -1,314 +1,121 @@
-#!/usr/bin/env node
 import { Command } from 'commander';
-import fs from 'fs/promises';
-import path from 'path';
 import chalk from 'chalk';
 import ora from 'ora';
-import { getSynapse, getWalletAddress } from '../utils/synapse.js';
-import { config, validateLitConfig } from '../config.js';
-import { TOKENS, TIME_CONSTANTS } from '@filoz/synapse-sdk';
-import { ethers } from 'ethers';
-import { preProcess, encrypt, deployPermissionsAndMintNFT } from '../utils/keypo.js';
-import { errorHandler, createFileError, createPaymentError, createEncryptionError, ErrorCategory } from '../utils/errorHandler.js';
-import { bytesToMB, formatUSDFC, TOKEN_AMOUNTS, BALANCE_THRESHOLDS, EXIT_CODES } from '../constants.js';
-
-const program = new Command();
+import { SynapseVault } from '../sdk/index.js';
+import { isMachineOutput, emitResult, spinnerProgress } from '../utils/output.js';
+import { errorHandler } from '../utils/errorHandler.js';
+import { formatExpiry } from '../utils/expiry.js';
+import { formatPrice } from '../utils/distribution.js';
+import { formatAccessCondition } from '../utils/conditions.js';
+import { bytesToMB, EXIT_CODES, CHUNKED_UPLOAD } from '../constants.js';
 
 interface UploadOptions {
   skipPaymentCheck?: boolean;
   private?: boolean;
   unencrypted?: boolean;
+  chunked?: boolean;
+  chunkSize?: string;
+  exclude: string[];
+  expires?: string;
+  price?: string;
+  token?: string;
+  group?: string;
+  condition?: string;
 }
 
-program
-  .name('upload')
-  .description('Upload a file to Filecoin via Synapse (encrypted by default with public access)')
-  .argument('<file>', 'Path to the file to upload')
-  .option('--skip-payment-check', 'Skip payment validation (use if already funded)')
-  .option('--private', 'Make file private (requires NFT for access)')
-  .option('--unencrypted', 'Upload file without encryption (raw data to Filecoin)')
-  .action(async (filePath: string, options: UploadOptions) => {
-    const spinner = ora();
-    errorHandler.setContext({ spinner, debug: process.env.DEBUG === 'true' });
+export function createUploadCommand(): Command {
+  return new Command('upload')
+    .description('Upload a file, directory or glob pattern to Filecoin via Synapse (encrypted by default with public access)')
+    .argument('<paths...>', 'File, directory or glob pattern(s) to upload; anything but a single file is uploaded as a folder')
+    .option('--skip-payment-check', 'Skip payment validation (use if already funded)')
+    .option('--private', 'Make file private (requires NFT for access)')
+    .option('--unencrypted', 'Upload file without encryption (raw data to Filecoin)')
+    .option('--chunked', `Split the file into pieces and upload an ordered manifest (automatic above ${bytesToMB(CHUNKED_UPLOAD.AUTO_THRESHOLD_BYTES)} MB)`)
+    .option('--chunk-size <mb>', 'Chunk size in MB for chunked uploads', String(CHUNKED_UPLOAD.DEFAULT_CHUNK_SIZE_MB))
+    .option('--exclude <pattern>', 'Skip files and directories matching a glob pattern (repeatable)', collectPatterns, [])
+    .option('--expires <when>', 'Stop the --group\'s access after a duration (7d, 12h), date (2026-12-31) or block (block:35000000)')
+    .option('--price <amount>', 'Sell access NFTs for this amount of --token (makes the file private)')
+    .option('--token <address>', 'ERC-20 token address the price is paid in')
+    .option('--group <id>', 'Let every member of an access group (name or identifier) decrypt the file (makes it private)')
+    .option('--condition <expr|file>', 'Access condition: an expression like "registry and erc20:0xToken:100", JSON, or a JSON or YAML file')
+    .action(async (inputPaths: string[], options: UploadOptions) => {
+      const spinner = ora();
+      errorHandler.setContext({ spinner, debug: process.env.DEBUG === 'true' });
     
-    try {
-      // No validation needed - new options are mutually exclusive
-
-      // Check if file exists
-      spinner.start('Checking file...');
-      let stats;
-      let fileName: string;
-      let fileSize: number;
-      
       try {
-        stats = await fs.stat(filePath);
-        fileName = path.basename(filePath);
-        fileSize = stats.size;
-        spinner.succeed(`File: ${fileName} (${bytesToMB(fileSize)} MB)`);
-      } catch (fileError) {
-        throw createFileError(`Cannot access file: ${filePath}`, {
-          cause: fileError,
-          userMessage: `File not found or cannot be accessed: ${filePath}`,
-          details: { filePath }
+        const result = await new SynapseVault().upload(inputPaths, {
+          private: options.private,
+          unencrypted: options.unencrypted,
+          chunked: options.chunked,
+          chunkSizeMB: Number(options.chunkSize || CHUNKED_UPLOAD.DEFAULT_CHUNK_SIZE_MB),
+          exclude: options.exclude,
+          skipPaymentCheck: options.skipPaymentCheck,
+          expires: options.expires,
+          price: options.price,
+          token: options.token,
+          group: options.group,
+          condition: options.condition,
+          onProgress: spinnerProgress(spinner),
         });
-      }
-
-      // Initialize Synapse first (needed for address)
-      spinner.start('Connecting to Filecoin...');
-      const { synapse, viem } = await getSynapse();
-      const address = await getWalletAddress();
-      spinner.succeed(`Connected with wallet: ${address}`);
+        const { contracts } = result;
 
-      // Read file
-      spinner.start('Reading file...');
-      const fileBuffer = await fs.readFile(filePath);
-      const { dataOut, metadataOut } = await preProcess(fileBuffer, fileName);
-      spinner.succeed('File loaded');
-
-      let uint8ArrayBytes: Uint8Array;
-      let smartContractData: any = null; // Store smart contract data for post-upload operations
-      let dataIdentifier: string | null = null; // Store data identifier for smart contract operations
-      
-      // Default behavior: encrypt with public access
-      // Use --private for private encryption or --unencrypted for no encryption
-      const shouldEncrypt = !options.unencrypted;
-      const isPublic = !options.private && shouldEncrypt;
-      
-      if (shouldEncrypt) {
-        // Validate Lit Protocol configuration
-        validateLitConfig();
-        
-        // Encrypt the data
-        spinner.start('Encrypting file with Lit Protocol...');
-        try {
-          const encryptedPayload = await encrypt(
-            config.privateKey!, 
-            dataOut, 
-            metadataOut,
-            config.registryContractAddress!,
-            config.validationContractAddress!,
-            config.bundlerRpcUrl!
-          );
-          
-          // Store smart contract data and data identifier for later use
-          smartContractData = encryptedPayload.smartContractData;
-          dataIdentifier = encryptedPayload.dataIdentifier;
-          
-          // Create the payload without smart contract data for Filecoin upload
-          const uploadPayload = {
-            ciphertext: encryptedPayload.ciphertext,
-            dataToEncryptHash: encryptedPayload.dataToEncryptHash,
-            accessControlConditions: encryptedPayload.accessControlConditions,
-            metadata: encryptedPayload.metadata,
-            dataIdentifier: encryptedPayload.dataIdentifier,
-          };
-          
-          const encryptedData = JSON.stringify(uploadPayload);
-          uint8ArrayBytes = new TextEncoder().encode(encryptedData);
-          spinner.succeed(`File encrypted (${isPublic ? 'public access' : 'private access'})`);
-        } catch (encryptError) {
-          throw createEncryptionError('Failed to encrypt file', {
-            cause: encryptError,
-            userMessage: 'Failed to encrypt file. Please check your Lit Protocol configuration.',
-            details: { fileName }
-          });
-        }
-      } else {
-        // Create a JSON object with the data and metadata (unencrypted)
-        const data = JSON.stringify({
-          data: Array.from(dataOut),
-          metadata: metadataOut
-        });
-        uint8ArrayBytes = new TextEncoder().encode(data);
-      }
-
-      // Check payment if not skipped
-      if (!options.skipPaymentCheck) {
-        // Check datasets first to determine if we need dataset creation fee
-        spinner.start('Checking datasets...');
-        const datasets = await synapse.storage.findDataSets(address);
-        const hasDataset = datasets.length > 0;
-        spinner.succeed(hasDataset ? 'Dataset found' : 'No dataset found (will create)');
-        spinner.start('Checking USDFC balance...');
-        const balance = await synapse.payments.walletBalance(TOKENS.USDFC);
-        const balanceFormatted = formatUSDFC(balance);
-        
-        // Calculate minimum balance needed including potential dataset creation fee
-        const minimumBalance = hasDataset ? 
-          BALANCE_THRESHOLDS.UPLOAD_MIN_BALANCE : 
-          BALANCE_THRESHOLDS.UPLOAD_MIN_BALANCE + formatUSDFC(TOKEN_AMOUNTS.DATA_SET_CREATION_FEE);
-        
-        if (balanceFormatted < minimumBalance) {
-          const errorMessage = hasDataset ? 
-            `Insufficient USDFC balance: ${balanceFormatted} USDFC` :
-            `Insufficient USDFC balance for new dataset: ${balanceFormatted} USDFC (needs ${minimumBalance} USDFC for dataset creation fee)`;
-          
-          throw createPaymentError(errorMessage, {
-            userMessage: `${errorMessage}\n${chalk.yellow('Please fund your wallet with USDFC:')}\n${chalk.yellow('Faucet: https://forest-explorer.chainsafe.dev/faucet/calibnet_usdfc')}`,
-            details: { balance: balanceFormatted, required: minimumBalance, hasDataset }
-          });
-        }
-        spinner.succeed(`USDFC balance: ${balanceFormatted} USDFC`);
-
-        // Approve and deposit if needed
-        spinner.start('Checking storage allowances...');
-        const paymentsAddress = synapse.getPaymentsAddress();
-        const allowance = await synapse.payments.allowance(paymentsAddress, TOKENS.USDFC);
-        
-        if (allowance < TOKEN_AMOUNTS.MIN_ALLOWANCE) {
-          spinner.text = 'Approving USDFC spending...';
-          const approveTx = await synapse.payments.approve(
-            paymentsAddress,
-            ethers.MaxUint256,
-            TOKENS.USDFC
-          );
-          await approveTx.wait();
-        }
-
-        const synapseBalance = await synapse.payments.balance(TOKENS.USDFC);
-        const minimumSynapseBalance = hasDataset ? 
-          TOKEN_AMOUNTS.MIN_SYNAPSE_BALANCE : 
-          TOKEN_AMOUNTS.MIN_SYNAPSE_BALANCE + TOKEN_AMOUNTS.DATA_SET_CREATION_FEE;
-          
-        if (synapseBalance < minimumSynapseBalance) {
-          spinner.text = 'Depositing USDFC to Synapse...';
-          const depositAmount = hasDataset ? 
-            TOKEN_AMOUNTS.DEFAULT_DEPOSIT : 
-            TOKEN_AMOUNTS.DEFAULT_DEPOSIT + TOKEN_AMOUNTS.DATA_SET_CREATION_FEE;
-          const depositTx = await synapse.payments.deposit(depositAmount, TOKENS.USDFC);
-          await depositTx.wait();
+        if (contracts.status === 'pending') {
+          console.warn(chalk.yellow('\n⚠️  Smart contract deployment failed, but file upload succeeded'));
+          console.warn(chalk.yellow('Error:'), contracts.error);
+          console.warn(chalk.yellow(`Run "synapse-cli resume ${contracts.journalId}" to finish without uploading again.`));
         }
 
-        // If no dataset exists, ensure proper warm storage service approval for dataset creation
-        if (!hasDataset) {
-          spinner.text = 'Setting up storage service for new dataset...';
-          const { WarmStorageService } = await import('@filoz/synapse-sdk/warm-storage');
-          const warmStorageService = await WarmStorageService.create(
-            synapse.getProvider(),
-            synapse.getWarmStorageAddress()
-          );
-          
-          // Calculate required allowances for dataset creation  
-          const storageCapacityBytes = config.storageCapacity * 1024 * 1024 * 1024; // Convert GB to bytes
-          const epochRate = BigInt(storageCapacityBytes) / TOKEN_AMOUNTS.RATE_DIVISOR;
-          const lockupAmount = epochRate * TIME_CONSTANTS.EPOCHS_PER_DAY * BigInt(config.persistencePeriod);
-          const lockupAmountWithFee = lockupAmount + TOKEN_AMOUNTS.DATA_SET_CREATION_FEE;
-          
-          const approveTx = await synapse.payments.approveService(
-            synapse.getWarmStorageAddress(),
-            epochRate,
-            lockupAmountWithFee,
-            TIME_CONSTANTS.EPOCHS_PER_DAY * BigInt(config.persistencePeriod)
-          );
-          await approveTx.wait();
+        if (isMachineOutput()) {
+          emitResult(result);
+          process.exit(EXIT_CODES.SUCCESS);
         }
-        spinner.succeed('Payment validated');
-      } else {
-        // Still need to check datasets for the storage service
-        spinner.start('Checking datasets...');
-        const datasets = await synapse.storage.findDataSets(address);
-        const hasDataset = datasets.length > 0;
-        spinner.succeed(hasDataset ? 'Dataset found' : 'No dataset found (will create)');
-      }
-
-      // Create storage service
-      spinner.start('Initializing storage service...');
-      let datasetCreated = false;
-      const storageService = await synapse.createStorage({
-        callbacks: {
-          onDataSetResolved: () => {
-            spinner.text = 'Dataset resolved';
-          },
-          onDataSetCreationStarted: () => {
-            spinner.text = 'Creating dataset on blockchain...';
-            datasetCreated = true;
-          },
-          onDataSetCreationProgress: (status) => {
-            if (status.transactionSuccess) {
-              spinner.text = 'Dataset transaction confirmed';
-            }
-            if (status.serverConfirmed) {
-              spinner.text = 'Dataset ready';
-            }
-          },
-          onProviderSelected: (provider) => {
-            spinner.text = `Storage provider selected: ${provider.name}`;
-          },
-        },
-      });
-      spinner.succeed('Storage service ready');
-
-      // Upload file
-      spinner.start('Uploading file to storage provider...');
-      let pieceCidResult: string | null = null;
       
-      const { pieceCid } = await storageService.upload(uint8ArrayBytes, {
-        onUploadComplete: (piece) => {
-          pieceCidResult = piece.toV1().toString();
-          spinner.text = 'File uploaded! Adding to dataset...';
-        },
-        onPieceAdded: (transactionResponse) => {
-          if (transactionResponse) {
-            spinner.text = `Confirming transaction: ${transactionResponse.hash}`;
+        const isFolder = result.kind === 'folder';
+        console.log(chalk.green(`\n✅ ${isFolder ? 'Folder' : 'File'} successfully uploaded to Filecoin!`));
+        console.log(chalk.cyan(isFolder ? '📁 Folder Name:' : '📁 File Name:'), result.name);
+        console.log(chalk.cyan(isFolder ? '📊 Total Size:' : '📊 File Size:'), `${bytesToMB(result.size)} MB`);
+        console.log(chalk.cyan('🔗 Piece CID:'), result.pieceCid);
+        if (isFolder) {
+          console.log(chalk.cyan('🗂️  Files:'), `${result.fileCount} in ${result.pieceCount} pieces (Piece CID above addresses the folder manifest)`);
+        } else if (result.kind === 'chunked') {
+          console.log(chalk.cyan('🧩 Pieces:'), `${result.pieceCount} (Piece CID above addresses the manifest)`);
+        }
+        console.log(chalk.cyan('💾 Dataset Created:'), result.datasetCreated ? 'Yes' : 'No (existing used)');
+        console.log(chalk.cyan('🔐 Encrypted:'), result.encrypted ? 'Yes' : 'No');
+        if (result.encrypted) {
+          console.log(chalk.cyan('👥 Access Type:'), result.accessType === 'public' ? 'Public (anyone can decrypt)' : 'Private (NFT required)');
+          console.log(chalk.cyan('📋 Data Identifier:'), result.dataIdentifier || 'N/A');
+          if (result.expiry) {
+            console.log(chalk.cyan('⏳ Access Expires:'), formatExpiry(result.expiry));
           }
-        },
-        onPieceConfirmed: () => {
-          spinner.text = 'File added to dataset';
-        },
-      });
-
-      spinner.succeed('Upload complete!');
-
-      // Deploy smart contracts after successful Filecoin upload (for encrypted files)
-      if (shouldEncrypt && smartContractData && dataIdentifier) {
-        spinner.start('Deploying permission contracts...');
-        try {
-          // Create enhanced metadata that includes the piece CID and access type
-          const metadataWithPieceCid = {
-            ...metadataOut,
-            filecoinStorageInfo: {
-              pieceCid: pieceCid.toV1().toString(),
-              uploadTimestamp: new Date().toISOString(),
-              datasetCreated: datasetCreated
-            },
-            accessType: isPublic ? 'public' : 'private'
-          };
-
-          await deployPermissionsAndMintNFT(
-            dataIdentifier, // Use the correct data identifier from the encrypted payload
-            metadataWithPieceCid, // Pass enhanced metadata with piece CID and access type
-            smartContractData.kernelClient,
-            smartContractData.userAddress,
-            smartContractData.registryContractAddress,
-            smartContractData.validationContractAddress,
-            isPublic // Pass public flag to control NFT minting and token quantity
-          );
-          spinner.succeed('Smart contracts deployed!');
-        } catch (contractError) {
-          // Log error but don't fail the upload since file is already on Filecoin
-          console.warn(chalk.yellow('\n⚠️  Smart contract deployment failed, but file upload succeeded'));
-          console.warn(chalk.yellow('Error:'), contractError instanceof Error ? contractError.message : String(contractError));
+          if (result.group) {
+            console.log(chalk.cyan('👥 Access Group:'), result.group);
+          }
+          if (result.condition) {
+            console.log(chalk.cyan('🔑 Access Condition:'), formatAccessCondition(result.condition));
+          }
+          if (result.price) {
+            console.log(chalk.cyan('💰 Access Price:'), `${formatPrice(result.price)} (paid to ${result.price.feeRecipient})`);
+          }
+          console.log(chalk.cyan('⛓️  Smart Contracts:'), contracts.status === 'deployed'
+            ? 'Deployed with Piece CID metadata'
+            : contracts.status === 'pending' ? `Pending (resume with: synapse-cli resume ${contracts.journalId})` : 'Not deployed');
+        }
+        if (result.price && contracts.status === 'deployed') {
+          console.log(chalk.blue(`\n💡 Anyone can now buy access with: synapse-cli buy ${result.pieceCid}`));
         }
-      }
-
       
-      console.log(chalk.green('\n✅ File successfully uploaded to Filecoin!'));
-      console.log(chalk.cyan('📁 File Name:'), fileName);
-      console.log(chalk.cyan('📊 File Size:'), `${bytesToMB(fileSize)} MB`);
-      console.log(chalk.cyan('🔗 Piece CID:'), pieceCid.toV1().toString());
-      console.log(chalk.cyan('💾 Dataset Created:'), datasetCreated ? 'Yes' : 'No (existing used)');
-      console.log(chalk.cyan('🔐 Encrypted:'), shouldEncrypt ? 'Yes' : 'No');
-      if (shouldEncrypt) {
-        console.log(chalk.cyan('👥 Access Type:'), isPublic ? 'Public (anyone can decrypt)' : 'Private (NFT required)');
-        console.log(chalk.cyan('📋 Data Identifier:'), dataIdentifier || 'N/A');
-        console.log(chalk.cyan('⛓️  Smart Contracts:'), smartContractData ? 'Deployed with Piece CID metadata' : 'Not deployed');
+        // Exit successfully
+        process.exit(EXIT_CODES.SUCCESS);
+      } catch (error) {
+        errorHandler.handle(error);
       }
-      
-      // Exit successfully
-      process.exit(EXIT_CODES.SUCCESS);
-    } catch (error) {
-      errorHandler.handle(error);
-    }
-  });
+    });
+}
 
-program.parse();
\ No newline at end of file
+/**
+ * Commander collector for repeatable options.
+ */
+function collectPatterns(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
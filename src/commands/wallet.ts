@@ -0,0 +1,159 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { ethers } from 'ethers';
+import { errorHandler, createConfigError, AppError, ErrorCategory } from '../utils/errorHandler.js';
+import { saveKeystore, listKeystores, setActiveWallet, assertWalletName, getKeystoreDir, KeystoreSummary } from '../utils/keystore.js';
+import { promptPassphrase } from '../utils/account.js';
+import { isMachineOutput, emitResult, emitList } from '../utils/output.js';
+import { config } from '../config.js';
+import { EXIT_CODES, KEYSTORE } from '../constants.js';
+
+interface CreateOptions {
+  use?: boolean;
+}
+
+interface ImportOptions {
+  fromEnv?: boolean;
+  use?: boolean;
+}
+
+export function createWalletCommand(): Command {
+  return new Command('wallet')
+    .description('Manage encrypted wallet keystores')
+    .addCommand(
+      new Command('create')
+        .description('Generate a new wallet and store it encrypted')
+        .argument('<name>', 'Name for the wallet')
+        .option('--use', 'Make it the active wallet')
+        .action(async (name: string, options: CreateOptions) => {
+          await run(async () => {
+            assertWalletName(name);
+            const password = await newPassphrase(name);
+            const keystore = await saveKeystore(name, ethers.Wallet.createRandom().privateKey, password);
+            await report('created', options.use ? await setActiveWallet(name) : keystore);
+          });
+        })
+    )
+    .addCommand(
+      new Command('import')
+        .description('Store an existing private key encrypted')
+        .argument('<name>', 'Name for the wallet')
+        .option('--from-env', 'Import PRIVATE_KEY from the environment (.env) instead of prompting')
+        .option('--use', 'Make it the active wallet')
+        .action(async (name: string, options: ImportOptions) => {
+          await run(async () => {
+            assertWalletName(name);
+            const privateKey = options.fromEnv ? config.privateKey : await promptPrivateKey();
+            if (!privateKey) {
+              throw createConfigError('PRIVATE_KEY not set', {
+                userMessage: 'PRIVATE_KEY is not set, so there is nothing to import from the environment.',
+                details: { missing: 'PRIVATE_KEY' }
+              });
+            }
+            const password = await newPassphrase(name);
+            const keystore = await saveKeystore(name, privateKey, password);
+            await report('imported', options.use ? await setActiveWallet(name) : keystore);
+
+            if (options.fromEnv && !isMachineOutput()) {
+              console.log(chalk.yellow('\n⚠️  PRIVATE_KEY takes precedence over keystores. Remove it from your .env file to sign with this wallet.'));
+            }
+          });
+        })
+    )
+    .addCommand(
+      new Command('list')
+        .description('List stored wallets')
+        .action(async () => {
+          await run(async () => {
+            const keystores = await listKeystores();
+            if (isMachineOutput()) {
+              emitList(keystores, { total: keystores.length });
+              return;
+            }
+
+            if (keystores.length === 0) {
+              console.log(chalk.yellow('No wallets stored. Create one with "wallet create <name>".'));
+              return;
+            }
+            console.log(chalk.cyan(`\n🔐 Wallets (${getKeystoreDir()}):`));
+            for (const keystore of keystores) {
+              const marker = keystore.active ? chalk.green('*') : ' ';
+              console.log(`${marker} ${chalk.white(keystore.name.padEnd(20))} ${chalk.gray(keystore.address)}`);
+            }
+            if (config.privateKey) {
+              console.log(chalk.yellow('\n⚠️  PRIVATE_KEY is set, so commands sign with it instead of the active wallet.'));
+            } else if (config.wallet) {
+              console.log(chalk.gray(`\nSYNAPSE_WALLET selects "${config.wallet}".`));
+            }
+          });
+        })
+    )
+    .addCommand(
+      new Command('use')
+        .description('Select the wallet commands sign with')
+        .argument('<name>', 'Wallet name')
+        .action(async (name: string) => {
+          await run(async () => {
+            await report('selected', await setActiveWallet(name));
+          });
+        })
+    );
+}
+
+async function run(action: () => Promise<void>): Promise<void> {
+  errorHandler.setContext({ debug: process.env.DEBUG === 'true' });
+  try {
+    await action();
+    process.exit(EXIT_CODES.SUCCESS);
+  } catch (error) {
+    errorHandler.handle(error);
+  }
+}
+
+async function report(action: 'created' | 'imported' | 'selected', keystore: KeystoreSummary): Promise<void> {
+  if (isMachineOutput()) {
+    emitResult({ action, ...keystore });
+    return;
+  }
+
+  console.log(chalk.green(`✅ Wallet "${keystore.name}" ${action}`));
+  console.log(chalk.white(`  Address: ${keystore.address}`));
+  console.log(chalk.gray(`  Keystore: ${keystore.path}`));
+  if (keystore.active) {
+    console.log(chalk.gray('  Commands now sign with this wallet.'));
+  } else {
+    console.log(chalk.blue(`\n💡 Run "wallet use ${keystore.name}" to sign with it.`));
+  }
+  if (action === 'created') {
+    console.log(chalk.yellow('\n⚠️  Back up the keystore file and passphrase. Without both the wallet cannot be recovered.'));
+  }
+}
+
+/**
+ * Passphrase for a new keystore: SYNAPSE_KEYSTORE_PASSWORD, or asked twice on a terminal.
+ */
+async function newPassphrase(name: string): Promise<string> {
+  const password = config.keystorePassword ?? await promptPassphrase(name, true);
+  if (password.length < KEYSTORE.MIN_PASSWORD_LENGTH) {
+    throw new AppError('Passphrase too short', {
+      category: ErrorCategory.VALIDATION,
+      userMessage: `The passphrase must be at least ${KEYSTORE.MIN_PASSWORD_LENGTH} characters.`,
+      exitCode: EXIT_CODES.VALIDATION_ERROR
+    });
+  }
+  return password;
+}
+
+async function promptPrivateKey(): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw createConfigError('Private key required', {
+      userMessage: 'Run "wallet import" in a terminal to type the key, or pass --from-env to import PRIVATE_KEY.'
+    });
+  }
+  const prompt = inquirer.createPromptModule({ output: process.stderr });
+  const { privateKey } = await prompt([
+    { type: 'password', name: 'privateKey', mask: '*', message: 'Private key (hex):' },
+  ]);
+  return privateKey.trim();
+}
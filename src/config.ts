@@ -1,13 +1,19 @@
 import dotenv from 'dotenv';
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { SIZE_CONSTANTS } from '@filoz/synapse-sdk';
 import { createConfigError } from './utils/errorHandler.js';
-import { STORAGE_DEFAULTS, VALIDATION } from './constants.js';
+import { STORAGE_DEFAULTS, VALIDATION, LOCAL_STATE, FILE_INDEX, KEYSTORE, REGISTRY_CHAIN, LIT_PROTOCOL } from './constants.js';
 
 dotenv.config();
 
 export interface Config {
   network: 'mainnet' | 'calibration';
   privateKey?: string;
+  wallet?: string;
+  keystorePassword?: string;
   rpcUrl?: string;
   storageCapacity: number;
   persistencePeriod: number;
@@ -17,12 +23,25 @@ export interface Config {
   registryContractAddress?: string;
   validationContractAddress?: string;
   bundlerRpcUrl?: string;
+  registryChain: string;
+  litNetwork: typeof LIT_PROTOCOL.NETWORKS[number];
+  registryRpcUrl?: string;
+  stateDir: string;
+  indexProvider: typeof FILE_INDEX.PROVIDERS[number];
+  keypoApiUrl: string;
+  indexFromBlock: bigint;
+  indexBlockRange: number;
+  apiToken?: string;
+  s3AccessKeyId?: string;
+  s3SecretAccessKey?: string;
 }
 
-export const config: Config = {
+const baseConfig: Config = {
   // Network configuration
   network: (process.env.NETWORK as 'mainnet' | 'calibration') || 'calibration',
   privateKey: process.env.PRIVATE_KEY,
+  wallet: process.env.SYNAPSE_WALLET,
+  keystorePassword: process.env.SYNAPSE_KEYSTORE_PASSWORD,
   rpcUrl: process.env.RPC_URL,
   
   // Storage configuration
@@ -35,6 +54,25 @@ export const config: Config = {
   registryContractAddress: process.env.REGISTRY_CONTRACT_ADDRESS,
   validationContractAddress: process.env.VALIDATION_CONTRACT_ADDRESS,
   bundlerRpcUrl: process.env.BUNDLER_RPC_URL,
+  registryChain: process.env.REGISTRY_CHAIN || REGISTRY_CHAIN.DEFAULT,
+  litNetwork: (process.env.LIT_NETWORK as Config['litNetwork']) || LIT_PROTOCOL.DEFAULT_NETWORK,
+  registryRpcUrl: process.env.REGISTRY_RPC_URL || process.env.INDEX_RPC_URL,
+  
+  // Local state (operation journal)
+  stateDir: process.env.SYNAPSE_CLI_HOME || path.join(os.homedir(), LOCAL_STATE.DIR_NAME),
+  
+  // File index (list commands)
+  indexProvider: (process.env.INDEX_PROVIDER as Config['indexProvider']) || FILE_INDEX.DEFAULT_PROVIDER,
+  keypoApiUrl: process.env.KEYPO_API_URL || FILE_INDEX.DEFAULT_KEYPO_API_URL,
+  indexFromBlock: BigInt(process.env.INDEX_FROM_BLOCK || '0'),
+  indexBlockRange: parseInt(process.env.INDEX_BLOCK_RANGE || FILE_INDEX.DEFAULT_LOG_BLOCK_RANGE.toString()),
+  
+  // Local API server (serve command)
+  apiToken: process.env.SYNAPSE_API_TOKEN,
+  
+  // S3 gateway (gateway s3 command)
+  s3AccessKeyId: process.env.S3_GATEWAY_ACCESS_KEY_ID,
+  s3SecretAccessKey: process.env.S3_GATEWAY_SECRET_ACCESS_KEY,
   
   // Calculated values
   get storageCapacityBytes(): bigint {
@@ -42,11 +80,32 @@ export const config: Config = {
   }
 };
 
+const scopedOverrides = new AsyncLocalStorage<Partial<Config>>();
+
+/**
+ * Settings in effect: the environment and the applied profile, overlaid with the overrides of
+ * the `withConfig` call the code runs under. Assignments change the process-wide settings.
+ */
+export const config: Config = new Proxy(baseConfig, {
+  get(target, key, receiver) {
+    const overrides = scopedOverrides.getStore();
+    return overrides && key in overrides ? overrides[key as keyof Config] : Reflect.get(target, key, receiver);
+  },
+});
+
+/**
+ * Runs `operation` (and everything it awaits) with `overrides` on top of `config`, so a library
+ * caller's settings do not leak into other callers in the same process.
+ */
+export function withConfig<T>(overrides: Partial<Config>, operation: () => T): T {
+  return scopedOverrides.run({ ...scopedOverrides.getStore(), ...overrides }, operation);
+}
+
 // Validate required configuration
 export function validateConfig(): void {
-  if (!config.privateKey) {
-    throw createConfigError('PRIVATE_KEY environment variable is required', {
-      userMessage: 'Private key not configured. Please set PRIVATE_KEY in your .env file.',
+  if (!config.privateKey && !config.wallet && !hasKeystores()) {
+    throw createConfigError('No wallet configured', {
+      userMessage: 'No wallet configured. Run "wallet create" or "wallet import", or set PRIVATE_KEY in your .env file.',
       details: { missing: 'PRIVATE_KEY' }
     });
   }
@@ -59,6 +118,14 @@ export function validateConfig(): void {
   }
 }
 
+function hasKeystores(): boolean {
+  try {
+    return fs.readdirSync(path.join(config.stateDir, KEYSTORE.DIR_NAME)).some((fileName) => fileName.endsWith('.json'));
+  } catch {
+    return false;
+  }
+}
+
 // Validate Lit Protocol configuration for encryption
 export function validateLitConfig(): void {
   validateConfig(); // Basic validation first
@@ -160,8 +160,10 @@ export const EXIT_CODES = {
 export const LIT_PROTOCOL = {
   /** Auth manager app name */
   APP_NAME: 'synapse-cli',
-  /** Network name for Lit Protocol */
-  NETWORK_NAME: 'naga-local',
+  /** Lit networks LIT_NETWORK can select (dev, test and production are Naga networks) */
+  NETWORKS: ['dev', 'test', 'production', 'local'] as const,
+  /** Default Lit network, also assumed for files that do not record one */
+  DEFAULT_NETWORK: 'dev',
   /** Storage path for auth context */
   STORAGE_PATH: './lit-auth-local',
   /** Auth domain */
@@ -170,6 +172,214 @@ export const LIT_PROTOCOL = {
   AUTH_STATEMENT: 'Decrypt test data',
 } as const;
 
+// ============================================================================
+// PAYLOAD ENVELOPE CONSTANTS
+// ============================================================================
+
+export const PAYLOAD_ENVELOPE = {
+  /** Magic bytes at the start of every binary payload ("SYNP") */
+  MAGIC: [0x53, 0x59, 0x4e, 0x50] as readonly number[],
+  /** Envelope version for unencrypted payloads (header holds the metadata JSON) */
+  VERSION: 1,
+  /** Envelope version for locally encrypted payloads (header holds metadata and the wrapped data key) */
+  ENCRYPTED_VERSION: 2,
+  /** Newest envelope version this build can read */
+  LATEST_VERSION: 2,
+  /** Header size: magic (4) + version (1) + metadata length (4) */
+  HEADER_BYTES: 9,
+} as const;
+
+// ============================================================================
+// CHUNKED UPLOAD CONSTANTS
+// ============================================================================
+
+export const CHUNKED_UPLOAD = {
+  /** Default chunk size in MB */
+  DEFAULT_CHUNK_SIZE_MB: 64,
+  /** Smallest chunk size in MB */
+  MIN_CHUNK_SIZE_MB: 1,
+  /** Largest chunk size in MB (Synapse accepts pieces up to 200 MiB, minus payload overhead) */
+  MAX_CHUNK_SIZE_MB: 128,
+  /** Files larger than this are always uploaded in chunks (in bytes) */
+  AUTO_THRESHOLD_BYTES: 128 * FILE_SIZE.BYTES_PER_MB,
+  /** Discriminator stored in every chunked manifest */
+  MANIFEST_KIND: 'synapse-chunked-manifest',
+  /** Current manifest format version (2: chunks encrypted locally with a wrapped data key) */
+  MANIFEST_VERSION: 2,
+} as const;
+
+// ============================================================================
+// FOLDER UPLOAD CONSTANTS
+// ============================================================================
+
+export const FOLDER_UPLOAD = {
+  /** Discriminator stored in every folder manifest */
+  MANIFEST_KIND: 'synapse-folder-manifest',
+  /** Current folder manifest format version */
+  MANIFEST_VERSION: 1,
+} as const;
+
+// ============================================================================
+// LOCAL ENCRYPTION CONSTANTS
+// ============================================================================
+
+export const LOCAL_ENCRYPTION = {
+  /** Cipher used for file contents; Lit only ever sees the data key */
+  ALGORITHM: 'AES-256-GCM',
+  /** Data key length in bytes */
+  KEY_BYTES: 32,
+  /** Plaintext bytes per authenticated segment */
+  SEGMENT_SIZE: 64 * FILE_SIZE.BYTES_PER_KB,
+  /** Random nonce prefix length; the remaining 5 nonce bytes are the segment counter and final flag */
+  NONCE_PREFIX_BYTES: 7,
+  /** GCM authentication tag length appended to every segment */
+  TAG_BYTES: 16,
+} as const;
+
+// ============================================================================
+// LOCAL STATE CONSTANTS
+// ============================================================================
+
+export const LOCAL_STATE = {
+  /** State directory created in the user's home (override with SYNAPSE_CLI_HOME) */
+  DIR_NAME: '.synapse-cli',
+  /** Journal of multi-step operations, used by `resume` */
+  JOURNAL_FILE: 'journal.json',
+  /** Current journal file format version */
+  JOURNAL_VERSION: 1,
+  /** Local copy of the file index, updated by `sync` */
+  INDEX_FILE: 'index.json',
+  /** Current local index format version */
+  INDEX_VERSION: 1,
+  /** Marks the local index out of date after this machine changed the registry */
+  INDEX_STALE_FILE: 'index.stale',
+  /** Name of the wallet selected with `wallet use` */
+  ACTIVE_WALLET_FILE: 'active-wallet',
+  /** Named configuration profiles, managed with `config` */
+  CONFIG_FILE: 'config.json',
+  /** Current config file format version */
+  CONFIG_VERSION: 1,
+  /** Access groups created with `group create` */
+  GROUPS_FILE: 'groups.json',
+  /** Current groups file format version */
+  GROUPS_VERSION: 1,
+} as const;
+
+// ============================================================================
+// KEYSTORE CONSTANTS
+// ============================================================================
+
+export const KEYSTORE = {
+  /** Directory of encrypted wallet files inside the state directory */
+  DIR_NAME: 'keystores',
+  /** Allowed wallet names (also the keystore file names) */
+  NAME_PATTERN: /^[A-Za-z0-9_-]{1,64}$/,
+  /** Shortest passphrase accepted for new keystores */
+  MIN_PASSWORD_LENGTH: 8,
+} as const;
+
+// ============================================================================
+// REGISTRY CHAIN CONSTANTS
+// ============================================================================
+
+export const REGISTRY_CHAIN = {
+  /** Lit chain name of the default permissions registry chain (Base Sepolia) */
+  DEFAULT: 'baseSepolia',
+} as const;
+
+// ============================================================================
+// ACCESS ROTATION CONSTANTS
+// ============================================================================
+
+export const ROTATION = {
+  /** Directory in the local state directory that holds a decrypted file until `revoke --rotate` has uploaded its new copy */
+  DIR_NAME: 'rotations',
+} as const;
+
+// ============================================================================
+// ACCESS GROUP CONSTANTS
+// ============================================================================
+
+export const ACCESS_GROUP = {
+  /** Registry metadata `type` of a group registration (it has no Filecoin piece, so it never shows up in `list`) */
+  METADATA_TYPE: 'access-group',
+  /** Data identifiers are hex SHA-256 hashes; group references in this form are looked up on-chain */
+  IDENTIFIER_PATTERN: /^[0-9a-f]{64}$/i,
+} as const;
+
+// ============================================================================
+// BATCH SHARE CONSTANTS
+// ============================================================================
+
+export const BATCH_SHARE = {
+  /** Access NFTs minted per user operation; larger batches are split so each stays under the bundler's gas limit */
+  MAX_MINTS_PER_OPERATION: 50,
+} as const;
+
+// ============================================================================
+// ACCESS EXPIRY CONSTANTS
+// ============================================================================
+
+export const EXPIRY = {
+  /** Blocks the average block time of the registry chain is measured over */
+  BLOCK_TIME_SAMPLE: 1000,
+  /** Block time assumed when it cannot be measured (Base produces a block every 2 seconds) */
+  FALLBACK_BLOCK_TIME_SECONDS: 2,
+  /** Seconds per unit of an --expires duration */
+  UNIT_SECONDS: { s: 1, m: 60, h: 60 * 60, d: 24 * 60 * 60, w: 7 * 24 * 60 * 60 },
+} as const;
+
+// ============================================================================
+// FILE INDEX CONSTANTS
+// ============================================================================
+
+export const FILE_INDEX = {
+  /** Index backends: Keypo REST API, registry log scan over JSON-RPC, or Keypo with RPC fallback */
+  PROVIDERS: ['keypo', 'rpc', 'auto'] as const,
+  /** Default index backend */
+  DEFAULT_PROVIDER: 'auto',
+  /** Default Keypo API base URL */
+  DEFAULT_KEYPO_API_URL: 'https://api.keypo.io',
+  /** Blocks requested per eth_getLogs call; public endpoints reject wide ranges */
+  DEFAULT_LOG_BLOCK_RANGE: 10000,
+  /** Records requested per Keypo API page */
+  KEYPO_PAGE_SIZE: 100,
+  /** Age after which commands sync the local index before using it */
+  MAX_AGE_MS: 10 * 60 * 1000,
+} as const;
+
+// ============================================================================
+// API SERVER CONSTANTS
+// ============================================================================
+
+export const API_SERVER = {
+  /** Interface `serve` listens on by default; only this machine can connect */
+  DEFAULT_HOST: '127.0.0.1',
+  /** Port `serve` listens on by default */
+  DEFAULT_PORT: 8787,
+  /** Largest JSON request body accepted (uploads are streamed and not limited) */
+  MAX_JSON_BODY_BYTES: 64 * 1024,
+  /** Prefix of the temporary directories request bodies and downloads are staged in */
+  TEMP_DIR_PREFIX: 'synapse-serve-',
+} as const;
+
+// ============================================================================
+// S3 GATEWAY CONSTANTS
+// ============================================================================
+
+export const S3_GATEWAY = {
+  /** Port `gateway s3` listens on by default */
+  DEFAULT_PORT: 8788,
+  /** Region reported to clients and expected in request signatures */
+  DEFAULT_REGION: 'us-east-1',
+  /** Most keys returned by one ListObjectsV2 page */
+  MAX_KEYS: 1000,
+  /** Registry metadata field holding an object's bucket, key and headers */
+  METADATA_FIELD: 's3',
+  /** Prefix of the temporary directories object bodies are staged in */
+  TEMP_DIR_PREFIX: 'synapse-s3-',
+} as const;
+
 // ============================================================================
 // FORMATTING CONSTANTS
 // ============================================================================
@@ -1,65 +1,90 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
-import chalk from 'chalk';
+import { createUploadCommand } from './commands/upload.js';
+import { createListCommand } from './commands/list.js';
+import { createListEncryptedCommand } from './commands/list-encrypted.js';
+import { createListPublicCommand } from './commands/list-public.js';
+import { createDownloadCommand } from './commands/download.js';
+import { createBalanceCommand } from './commands/balance.js';
+import { createDepositCommand } from './commands/deposit.js';
+import { createShareCommand } from './commands/share.js';
+import { createRevokeCommand } from './commands/revoke.js';
+import { createBuyCommand } from './commands/buy.js';
+import { createGroupCommand } from './commands/group.js';
+import { createDeleteCommand } from './commands/delete.js';
+import { createMakePublicCommand } from './commands/make-public.js';
+import { createMakePrivateCommand } from './commands/make-private.js';
+import { createResumeCommand } from './commands/resume.js';
+import { createRepairCommand } from './commands/repair.js';
+import { createSyncCommand } from './commands/sync.js';
+import { createServeCommand } from './commands/serve.js';
+import { createGatewayCommand } from './commands/gateway.js';
+import { createWalletCommand } from './commands/wallet.js';
+import { createConfigCommand } from './commands/config.js';
+import { setOutputMode } from './utils/output.js';
+import { applyProfile } from './utils/profiles.js';
+import { errorHandler } from './utils/errorHandler.js';
 
 const program = new Command();
 
 program
   .name('synapse-cli')
   .description('CLI tool for uploading, viewing, and downloading files from Filecoin using Synapse SDK')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--json', 'Print one machine-readable JSON result object instead of text')
+  .option('--ndjson', 'Like --json, but print list results as one JSON object per line')
+  .option('--profile <name>', 'Configuration profile to use (default: SYNAPSE_PROFILE or the one chosen with "config use")');
 
-program
-  .command('upload <file>')
-  .description('Upload a file to Filecoin')
-  .option('--skip-payment-check', 'Skip payment validation')
-  .action(async () => {
-    await import('./commands/upload.js');
-  });
-
-program
-  .command('list')
-  .description('List all uploaded files')
-  .option('--detailed', 'Show detailed information')
-  .action(async () => {
-    await import('./commands/list.js');
-  });
-
-program
-  .command('download <pieceCid>')
-  .description('Download a file by Piece CID')
-  .option('-o, --output <path>', 'Output file path')
-  .action(async () => {
-    await import('./commands/download.js');
-  });
+/**
+ * Name of a command below the program, with its parents (such as "group create").
+ */
+function commandPath(command: Command): string {
+  const names: string[] = [];
+  for (let current: Command | null = command; current?.parent; current = current.parent) {
+    names.unshift(current.name());
+  }
+  return names.join(' ');
+}
 
-program
-  .command('balance')
-  .description('Check wallet and Synapse balances')
-  .action(async () => {
-    await import('./commands/balance.js');
-  });
+// Output mode and profile apply to whichever command runs
+program.hook('preAction', (rootCommand, actionCommand) => {
+  const { json, ndjson, profile } = rootCommand.opts();
+  if (json || ndjson) {
+    setOutputMode(ndjson ? 'ndjson' : 'json', commandPath(actionCommand));
+  }
 
-program
-  .command('deposit')
-  .description('Deposit USDFC and approve storage service')
-  .option('-a, --amount <amount>', 'Amount to deposit', '1')
-  .option('--approve-only', 'Only approve spending')
-  .action(async () => {
-    await import('./commands/deposit.js');
-  });
+  // The config commands manage profiles themselves, including ones that do not exist yet
+  if (actionCommand.parent?.name() !== 'config') {
+    try {
+      applyProfile(profile);
+    } catch (error) {
+      errorHandler.handle(error);
+    }
+  }
+});
 
-program
-  .command('list-encrypted')
-  .description('List encrypted files with Filecoin storage from Keypo.io')
-  .option('-d, --debug', 'Enable debug output')
-  .option('--api-url <url>', 'Custom API URL')
-  .option('--filter-field <field>', 'Field to filter by')
-  .option('--filter-value <value>', 'Value to filter for')
-  .option('--sort-field <field>', 'Field to sort by')
-  .action(async () => {
-    await import('./commands/list-encrypted.js');
-  });
+// Each command module owns its arguments and options; the root program only mounts them
+program.addCommand(createUploadCommand());
+program.addCommand(createListCommand());
+program.addCommand(createListEncryptedCommand());
+program.addCommand(createListPublicCommand());
+program.addCommand(createDownloadCommand());
+program.addCommand(createBalanceCommand());
+program.addCommand(createDepositCommand());
+program.addCommand(createShareCommand());
+program.addCommand(createRevokeCommand());
+program.addCommand(createBuyCommand());
+program.addCommand(createGroupCommand());
+program.addCommand(createDeleteCommand());
+program.addCommand(createMakePublicCommand());
+program.addCommand(createMakePrivateCommand());
+program.addCommand(createResumeCommand());
+program.addCommand(createRepairCommand());
+program.addCommand(createSyncCommand());
+program.addCommand(createServeCommand());
+program.addCommand(createGatewayCommand());
+program.addCommand(createWalletCommand());
+program.addCommand(createConfigCommand());
 
 // Add help text
 program.addHelpText('after', `
@@ -67,11 +92,34 @@ Examples:
   $ synapse-cli balance                    Check your balances
   $ synapse-cli deposit --amount 5         Deposit 5 USDFC
   $ synapse-cli upload ./myfile.pdf        Upload a file
+  $ synapse-cli upload ./project           Upload a folder
   $ synapse-cli list --detailed            List files with details
   $ synapse-cli list-encrypted             List encrypted files with pieceCid
+  $ synapse-cli list-public                List public files from all users
   $ synapse-cli download baga6ea4seaq...   Download by CID
+  $ synapse-cli share <cid> <address>      Share access with a wallet
+  $ synapse-cli share <cid> --recipients team.csv  Share with every address in a CSV file
+  $ synapse-cli revoke <cid> <address>     Revoke a wallet's access
+  $ synapse-cli upload ./data.csv --price 5 --token <erc20>  Sell access to a file
+  $ synapse-cli buy <cid>                  Buy access and download
+  $ synapse-cli group create team          Create an access group
+  $ synapse-cli share <cid> --group team   Give a group access to a file
+  $ synapse-cli upload f.pdf --condition "erc721:0xNft"   Require an NFT as well
+  $ synapse-cli delete <cid>               Delete a file from the registry
+  $ synapse-cli make-public <cid>          Make a private file public
+  $ synapse-cli make-private <cid>         Make a public file private
+  $ synapse-cli resume --list              Show interrupted operations
+  $ synapse-cli repair <cid>               Register an orphaned encrypted file
+  $ synapse-cli sync                       Update the local file index
+  $ synapse-cli list --offline             List files without network access
+  $ synapse-cli --json balance             Print balances as JSON
+  $ synapse-cli serve --port 8787          Serve the local REST API
+  $ synapse-cli gateway s3                 Serve an S3-compatible API
+  $ synapse-cli wallet create main         Create an encrypted wallet
+  $ synapse-cli config show                Show the effective configuration
+  $ synapse-cli --profile mainnet-prod list  Use a named configuration profile
 
 For more information, see the README.md file.
 `);
 
-program.parse();
\ No newline at end of file
+program.parse();
@@ -0,0 +1,41 @@
+import { TOKENS } from '@filoz/synapse-sdk';
+import { ethers } from 'ethers';
+import { getSynapse } from '../utils/synapse.js';
+import { getWalletAddress } from '../utils/account.js';
+import { formatUSDFC } from '../constants.js';
+import { createProgress } from './progress.js';
+import type { OperationOptions, BalanceResult } from './types.js';
+
+/**
+ * Reads the wallet's FIL and USDFC balances and its USDFC deposited with Synapse.
+ */
+export async function getBalance(options: OperationOptions = {}): Promise<BalanceResult> {
+  const progress = createProgress(options.onProgress);
+
+  // Initialize Synapse
+  progress.start('Connecting to Filecoin...');
+  const { synapse } = await getSynapse();
+  const address = await getWalletAddress();
+  progress.succeed(`Connected with wallet: ${address}`);
+
+  progress.start('Fetching balances...');
+  const filBalance = await synapse.payments.walletBalance();
+  const usdfcWalletBalance = await synapse.payments.walletBalance(TOKENS.USDFC);
+  const usdfcSynapseBalance = await synapse.payments.balance(TOKENS.USDFC);
+  progress.succeed('Balances fetched');
+
+  return {
+    address,
+    chainId: synapse.getChainId(),
+    wallet: {
+      fil: ethers.formatEther(filBalance),
+      filWei: filBalance.toString(),
+      usdfc: formatUSDFC(usdfcWalletBalance),
+      usdfcRaw: usdfcWalletBalance.toString(),
+    },
+    deposits: {
+      usdfc: formatUSDFC(usdfcSynapseBalance),
+      usdfcRaw: usdfcSynapseBalance.toString(),
+    },
+  };
+}
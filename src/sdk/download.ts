@@ -0,0 +1,387 @@
+import fs from 'fs/promises';
+import path from 'path';
+import chalk from 'chalk';
+import type { Synapse } from '@filoz/synapse-sdk';
+import type { Account } from 'viem';
+import { getSynapse } from '../utils/synapse.js';
+import { postProcess, createDecryptionSession } from '../utils/keypo.js';
+import { isEnvelope, decodeEnvelope, EnvelopeEncryption } from '../utils/envelope.js';
+import { decryptWithDataKey } from '../utils/localEncryption.js';
+import { isChunkedManifest, downloadChunkedFile, ChunkedManifest } from '../utils/chunkedFile.js';
+import { isFolderManifest, resolveEntryPath, FolderManifest } from '../utils/folder.js';
+import { hashData } from '../utils/hashData.js';
+import { explainAccessConditions } from '../utils/conditions.js';
+import { validateLitConfig } from '../config.js';
+import { createFileError, createEncryptionError, AppError } from '../utils/errorHandler.js';
+import { TIME, bytesToMB, FOLDER_UPLOAD, LIT_PROTOCOL } from '../constants.js';
+import { createProgress, Progress } from './progress.js';
+import type { DownloadOptions, DownloadResult } from './types.js';
+
+/**
+ * State shared by every piece restored in one download: a Lit session is only
+ * created when an encrypted piece is found (one per Lit network the pieces were
+ * encrypted on), and unwrapped data keys are cached so a folder encrypted under one
+ * key needs a single Lit request.
+ */
+interface RestoreContext {
+  synapse: Synapse;
+  progress: Progress;
+  address: string;          // Wallet the access control conditions are checked for
+  outputDir: string;        // Where pieces without an explicit output path are saved under their own name
+  getDecryptionSession: (litNetwork?: string) => Promise<Awaited<ReturnType<typeof createDecryptionSession>>>;
+  getDataKey: (encryption: EnvelopeEncryption) => Promise<Uint8Array>;
+}
+
+interface RestoredPiece {
+  absolutePath: string;
+  isEncrypted: boolean;
+  sha256?: string;          // Hash of the restored file, when it was held in memory or verified while streaming
+  folder?: FolderManifest;  // Set when the piece was a folder manifest and the tree was recreated
+}
+
+/**
+ * Downloads a piece, decrypts it if needed and writes the file, or the whole tree of a
+ * folder manifest, to disk. `beforeRestore` sees the downloaded payload before anything is
+ * decrypted (`buy` pays for access there).
+ */
+export async function downloadPiece(
+  pieceCid: string,
+  options: DownloadOptions = {},
+  beforeRestore?: (payload: Uint8Array) => Promise<void>,
+  debug?: boolean
+): Promise<DownloadResult> {
+  const progress = createProgress(options.onProgress);
+
+  // Initialize Synapse
+  progress.start('Connecting to Filecoin...');
+  const { synapse, viem } = await getSynapse();
+  progress.succeed('Connected to Filecoin');
+
+  const context = createRestoreContext(synapse, viem.viemAccount, progress, options.outputDir ?? '.', debug);
+
+  // Start download
+  progress.start(`Downloading file with CID: ${pieceCid}...`);
+  const startTime = Date.now();
+
+  let uint8ArrayBytes: Uint8Array;
+  try {
+    uint8ArrayBytes = await synapse.storage.download(pieceCid);
+  } catch (downloadError) {
+    if (downloadError instanceof Error && downloadError.message.includes('not found')) {
+      throw createFileError('File not found', {
+        cause: downloadError,
+        userMessage: `File with Piece CID not found: ${pieceCid}\n${chalk.yellow('Make sure the CID is correct and the file exists in your datasets.')}\n${chalk.yellow('Use the "list" command to see available files.')}`,
+        details: { pieceCid }
+      });
+    }
+    throw downloadError;
+  }
+  progress.succeed(`File downloaded in ${((Date.now() - startTime) / TIME.SECOND_MS).toFixed(2)}s`);
+
+  await beforeRestore?.(uint8ArrayBytes);
+
+  const { absolutePath, isEncrypted, sha256, folder } = await restorePiece(uint8ArrayBytes, pieceCid, options.output, context);
+
+  return {
+    pieceCid,
+    kind: folder ? 'folder' : 'file',
+    path: absolutePath,
+    size: folder ? folder.totalSize : (await fs.stat(absolutePath)).size,
+    fileCount: folder ? folder.entries.length : null,
+    decrypted: isEncrypted,
+    sha256: sha256 ?? null,
+    durationSeconds: Number(((Date.now() - startTime) / TIME.SECOND_MS).toFixed(2)),
+  };
+}
+
+function createRestoreContext(synapse: Synapse, account: Account, progress: Progress, outputDir: string, debug?: boolean): RestoreContext {
+  const sessions = new Map<string, ReturnType<typeof createDecryptionSession>>();
+  const dataKeys = new Map<string, Promise<Uint8Array>>();
+
+  // Files that do not record a Lit network were encrypted on the default one
+  const getDecryptionSession = (litNetwork: string = LIT_PROTOCOL.DEFAULT_NETWORK) => {
+    if (!sessions.has(litNetwork)) {
+      // Validate Lit Protocol configuration
+      validateLitConfig();
+      sessions.set(litNetwork, createDecryptionSession(account, litNetwork, debug));
+    }
+    return sessions.get(litNetwork)!;
+  };
+
+  const getDataKey = (encryption: EnvelopeEncryption) => {
+    const cacheKey = encryption.wrappedKey.dataToEncryptHash;
+    if (!dataKeys.has(cacheKey)) {
+      dataKeys.set(cacheKey, getDecryptionSession(encryption.litNetwork).then(({ unwrapDataKey }) => unwrapDataKey(encryption)));
+    }
+    return dataKeys.get(cacheKey)!;
+  };
+
+  return { synapse, progress, address: account.address, outputDir, getDecryptionSession, getDataKey };
+}
+
+/**
+ * Detects the payload format of downloaded bytes, decrypts them if needed and writes
+ * the result to disk. Folder manifests recreate their whole tree under the output path.
+ */
+async function restorePiece(
+  uint8ArrayBytes: Uint8Array,
+  pieceCid: string,
+  outputPath: string | undefined,
+  context: RestoreContext
+): Promise<RestoredPiece> {
+  const { progress } = context;
+  let finalData: Uint8Array | null = null; // Stays null when the file was streamed to disk
+  let isEncrypted = false;
+  let sha256: string | undefined;
+  let absolutePath: string;
+
+  // Binary envelope: version 1 is unencrypted, version 2 is encrypted locally with a Lit-wrapped key
+  if (isEnvelope(uint8ArrayBytes)) {
+    const envelope = decodeEnvelope(uint8ArrayBytes);
+    let data = envelope.data;
+
+    if (envelope.encryption) {
+      isEncrypted = true;
+      progress.info(`  Encrypted envelope v${envelope.version} (${envelope.encryption.algorithm}), data identifier: ${envelope.encryption.dataIdentifier}`);
+
+      progress.start('Unwrapping data key with Lit Protocol...');
+      try {
+        const dataKey = await context.getDataKey(envelope.encryption);
+        data = decryptWithDataKey(dataKey, envelope.data, envelope.encryption.segmentSize);
+        progress.succeed('File decrypted successfully');
+      } catch (decryptError) {
+        if (decryptError instanceof AppError) {
+          throw decryptError;
+        }
+        throw await decryptionFailed(decryptError, pieceCid, envelope.encryption.accessControlConditions, context);
+      }
+    }
+
+    const processedData = postProcess(data, envelope.metadata);
+    if (isFolderManifest(processedData)) {
+      absolutePath = path.resolve(outputPath || path.join(context.outputDir, path.basename(processedData.name)));
+      await restoreFolder(processedData, absolutePath, context);
+      return { absolutePath, isEncrypted, folder: processedData };
+    }
+    if (isChunkedManifest(processedData)) {
+      // Encrypted chunked upload: the manifest itself is stored in the encrypted envelope
+      return restoreChunkedFile(processedData, pieceCid, outputPath, context);
+    }
+    absolutePath = path.resolve(outputPath || path.join(context.outputDir, path.basename(envelope.metadata.name)));
+    finalData = toWritableBytes(processedData);
+  } else {
+    // Legacy and encrypted payloads are JSON documents
+    let jsonData: any = null;
+    try {
+      jsonData = JSON.parse(new TextDecoder().decode(uint8ArrayBytes));
+    } catch {
+      // Not JSON, treat as regular file below
+    }
+
+    if (isChunkedManifest(jsonData)) {
+      // Unencrypted chunked upload (older encrypted uploads also stored their manifest as JSON)
+      return restoreChunkedFile(jsonData, pieceCid, outputPath, context);
+    } else if (jsonData?.ciphertext && jsonData.dataToEncryptHash && jsonData.accessControlConditions) {
+      // Legacy encrypted payload: the whole file was encrypted by Lit
+      isEncrypted = true;
+
+      progress.info(`  Legacy Lit payload, data identifier: ${jsonData.dataIdentifier}`);
+
+      progress.start('Decrypting file with Lit Protocol...');
+
+      try {
+        const { decryptBytes } = await context.getDecryptionSession();
+        const decryptedData = await decryptBytes({
+          ciphertext: jsonData.ciphertext,
+          dataToEncryptHash: jsonData.dataToEncryptHash,
+        }, jsonData.accessControlConditions);
+        const processedData = postProcess(decryptedData, jsonData.metadata);
+        absolutePath = path.resolve(outputPath || path.join(context.outputDir, path.basename(jsonData.metadata.name)));
+        finalData = toWritableBytes(processedData);
+
+        progress.succeed('File decrypted successfully');
+      } catch (decryptError) {
+        throw await decryptionFailed(decryptError, pieceCid, jsonData.accessControlConditions, context);
+      }
+    } else if (jsonData?.metadata && 'data' in jsonData) {
+      // Legacy unencrypted payload: { data: number[], metadata }
+      const reconstructedBytes = legacyDataToBytes(jsonData.data, pieceCid);
+      const processedData = postProcess(reconstructedBytes, jsonData.metadata);
+      absolutePath = path.resolve(outputPath || path.join(context.outputDir, path.basename(jsonData.metadata.name)));
+      finalData = toWritableBytes(processedData);
+    } else {
+      // Not a synapse-cli payload, save the raw bytes
+      absolutePath = path.resolve(outputPath || path.join(context.outputDir, pieceCid));
+      finalData = uint8ArrayBytes;
+    }
+  }
+
+  // Save the file
+  if (finalData) {
+    progress.start('Saving file...');
+    await fs.writeFile(absolutePath, finalData);
+    sha256 = hashData(finalData);
+    progress.succeed('File saved successfully!');
+  }
+
+  return { absolutePath, isEncrypted, sha256 };
+}
+
+/**
+ * Streams every piece of a chunked manifest to disk in order, decrypting them when the
+ * file was encrypted.
+ */
+async function restoreChunkedFile(
+  manifest: ChunkedManifest,
+  pieceCid: string,
+  outputPath: string | undefined,
+  context: RestoreContext
+): Promise<RestoredPiece> {
+  const { progress } = context;
+  const absolutePath = path.resolve(outputPath || path.join(context.outputDir, path.basename(manifest.metadata.name)));
+  progress.info(`  Chunked file: ${manifest.pieces.length} piece(s), ${bytesToMB(manifest.totalSize)} MB`);
+
+  let decryptChunk: ((pieceBytes: Uint8Array) => Promise<Uint8Array>) | undefined;
+  const accessControlConditions = manifest.encryption?.accessControlConditions ?? manifest.accessControlConditions;
+  if (manifest.encrypted) {
+    progress.start('Creating Lit Protocol decryption session...');
+    const session = await context.getDecryptionSession(manifest.encryption?.litNetwork);
+    if (manifest.encryption) {
+      // Version 2: unwrap the data key once, then decrypt every chunk locally
+      progress.update('Unwrapping data key with Lit Protocol...');
+      const encryption = manifest.encryption;
+      let dataKey: Uint8Array;
+      try {
+        dataKey = await context.getDataKey(encryption);
+      } catch (unwrapError) {
+        if (unwrapError instanceof AppError) {
+          throw unwrapError;
+        }
+        throw await decryptionFailed(unwrapError, pieceCid, accessControlConditions, context);
+      }
+      decryptChunk = async (pieceBytes) => decryptWithDataKey(dataKey, pieceBytes, encryption.segmentSize);
+    } else {
+      // Version 1: every chunk is a Lit ciphertext
+      decryptChunk = (pieceBytes) => session.decryptBytes(
+        JSON.parse(new TextDecoder().decode(pieceBytes)),
+        manifest.accessControlConditions
+      );
+    }
+    progress.succeed('Decryption session ready');
+  }
+
+  progress.start('Downloading pieces...');
+  try {
+    await downloadChunkedFile(context.synapse, manifest, absolutePath, {
+      decryptChunk,
+      onChunkDownloaded: (piece, writtenBytes) => {
+        progress.update(`Saved piece ${piece.index + 1}/${manifest.pieces.length} (${bytesToMB(writtenBytes)}/${bytesToMB(manifest.totalSize)} MB)`);
+      },
+    });
+  } catch (chunkError) {
+    if (manifest.encrypted && !(chunkError instanceof AppError)) {
+      throw await decryptionFailed(chunkError, pieceCid, accessControlConditions, context);
+    }
+    throw chunkError;
+  }
+  progress.succeed('All pieces downloaded and verified');
+
+  // The file hash was verified by downloadChunkedFile
+  return { absolutePath, isEncrypted: manifest.encrypted, sha256: manifest.sha256 };
+}
+
+/**
+ * Recreates a folder tree: downloads every entry of the manifest into its relative
+ * path under the output directory and checks it against the recorded hash.
+ */
+async function restoreFolder(manifest: FolderManifest, outputDir: string, context: RestoreContext): Promise<void> {
+  if (manifest.version > FOLDER_UPLOAD.MANIFEST_VERSION) {
+    throw createFileError(`Unsupported folder manifest version: ${manifest.version}`, {
+      userMessage: 'This folder was written by a newer version of synapse-cli. Please upgrade to download it.',
+      details: { version: manifest.version, supported: FOLDER_UPLOAD.MANIFEST_VERSION }
+    });
+  }
+
+  context.progress.info(`  Folder ${manifest.name}: ${manifest.entries.length} file(s), ${bytesToMB(manifest.totalSize)} MB`);
+  await fs.mkdir(outputDir, { recursive: true });
+
+  for (const [index, entry] of manifest.entries.entries()) {
+    const targetPath = resolveEntryPath(outputDir, entry.path);
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+
+    context.progress.start(`Downloading ${index + 1}/${manifest.entries.length}: ${entry.path}`);
+    const entryBytes = await context.synapse.storage.download(entry.pieceCid);
+    const restored = await restorePiece(entryBytes, entry.pieceCid, targetPath, context);
+
+    if (restored.sha256 && restored.sha256 !== entry.sha256) {
+      throw createFileError(`Folder entry failed integrity check: ${entry.path}`, {
+        userMessage: `Downloaded file ${entry.path} does not match the uploaded file.`,
+        details: { pieceCid: entry.pieceCid, path: entry.path }
+      });
+    }
+    context.progress.succeed(`Restored ${entry.path}`);
+  }
+}
+
+/**
+ * Error for a failed decryption. The file's access control conditions are checked for the
+ * wallet so the message can say which of them it does not meet.
+ */
+async function decryptionFailed(cause: unknown, pieceCid: string, accessControlConditions: any, context: RestoreContext): Promise<AppError> {
+  let explanation: Awaited<ReturnType<typeof explainAccessConditions>> | null = null;
+  if (Array.isArray(accessControlConditions)) {
+    explanation = await explainAccessConditions(accessControlConditions, context.address).catch(() => null);
+  }
+
+  const hint = explanation?.passed === false
+    ? `Wallet ${context.address} does not meet the file's access conditions:\n${explanation.lines.join('\n')}`
+    : 'Make sure you have the correct wallet to decrypt this file.';
+  return createEncryptionError('Failed to decrypt file', {
+    cause,
+    userMessage: `Failed to decrypt file\n${chalk.yellow(hint)}`,
+    details: { pieceCid, address: context.address, conditions: explanation?.lines ?? null }
+  });
+}
+
+/**
+ * Reconstructs bytes from the JSON-serialized forms written by older uploads
+ * (number array, Node Buffer JSON, or an index-keyed object).
+ */
+function legacyDataToBytes(dataField: any, pieceCid: string): Uint8Array {
+  if (Array.isArray(dataField)) {
+    return new Uint8Array(dataField);
+  }
+  if (dataField && typeof dataField === 'object') {
+    if (dataField.type === 'Buffer' && Array.isArray(dataField.data)) {
+      return new Uint8Array(dataField.data);
+    }
+    const keys = Object.keys(dataField).map(Number).sort((a, b) => a - b);
+    const arr = new Uint8Array(keys.length);
+    for (const k of keys) arr[k] = Number(dataField[k]);
+    return arr;
+  }
+  throw createFileError('Unsupported data format in JSON payload', {
+    userMessage: 'The downloaded file has an unsupported format.',
+    details: { pieceCid }
+  });
+}
+
+/**
+ * Coerces the output of postProcess into bytes that can be written to disk.
+ */
+function toWritableBytes(processedData: unknown): Uint8Array {
+  if (processedData instanceof Uint8Array) {
+    // Also covers Node Buffers
+    return processedData;
+  }
+  if (processedData && ArrayBuffer.isView(processedData)) {
+    return new Uint8Array(processedData.buffer, processedData.byteOffset, processedData.byteLength);
+  }
+  if (processedData instanceof ArrayBuffer) {
+    return new Uint8Array(processedData);
+  }
+  // Fallback: encode string or stringify object
+  return typeof processedData === 'string'
+    ? new TextEncoder().encode(processedData)
+    : new TextEncoder().encode(JSON.stringify(processedData));
+}
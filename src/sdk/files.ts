@@ -0,0 +1,822 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createWalletClient, http, WalletClient, Transport, Chain, Account } from 'viem';
+import { KernelVersionToAddressesMap, KERNEL_V3_3 } from "@zerodev/sdk/constants";
+import { getAccount, getWalletAddress } from '../utils/account.js';
+import { list as listEncryptedFiles, toFileSummary, getRegistryMetadata } from '../utils/list.js';
+import {
+  share,
+  shareBatch,
+  ShareGrant,
+  deleteData,
+  getAccessHolders,
+  getAccessExpiry,
+  revokeAccess,
+  setPublicDistribution,
+  getFileContract,
+  checkAccess,
+  buyAccess,
+  getPermissionParameters,
+  groupPermission,
+  isGroupPermission,
+  followGroupBindings,
+  replacePermissions,
+} from '../utils/keypo.js';
+import { resolveGroup } from '../utils/groups.js';
+import { startJournalEntry, updateJournalEntry, JournalEntry } from '../utils/journal.js';
+import { PermissionParameters } from '../utils/deployPermissionedData.js';
+import { normalizeRecipients } from '../utils/recipients.js';
+import { getKernelClient } from '../utils/getKernelClient.js';
+import { isEnvelope, decodeEnvelope } from '../utils/envelope.js';
+import { getAccessPrice, getPaymentBalance, formatPrice } from '../utils/distribution.js';
+import { createConfigError, createFileError, createPaymentError, AppError, ErrorCategory } from '../utils/errorHandler.js';
+import { config, validateLitConfig } from '../config.js';
+import { getRegistryChain } from '../utils/registryChain.js';
+import { EXIT_CODES, ROTATION, BATCH_SHARE } from '../constants.js';
+import { createProgress, Progress } from './progress.js';
+import { uploadFiles } from './upload.js';
+import { downloadPiece } from './download.js';
+import { resolveExpiry, describeExpiry } from '../utils/expiry.js';
+import { parseUnits, formatUnits } from 'viem';
+import { minimatch } from 'minimatch';
+import type {
+  AccessCondition,
+  AccessExpiry,
+  AccessPrice,
+  OperationOptions,
+  ListOptions,
+  VaultFile,
+  ShareOptions,
+  ShareResult,
+  BatchShareTarget,
+  BatchShareResult,
+  RecipientShare,
+  RevokeOptions,
+  RevokeResult,
+  RotatedFile,
+  DeleteResult,
+  BuyOptions,
+  BuyResult,
+} from './types.js';
+
+/**
+ * Lists the encrypted files the wallet owns or holds an access NFT for.
+ */
+export async function listFiles(options: ListOptions = {}, debug?: boolean): Promise<VaultFile[]> {
+  const progress = createProgress(options.onProgress);
+  const address = await getWalletAddress();
+
+  progress.start(options.offline ? 'Reading local file index...' : 'Fetching encrypted files...');
+  const files = await listEncryptedFiles(address, debug, undefined, undefined, { offline: options.offline, onWarning: progress.warn });
+  const items = Object.entries(files).map(([dataIdentifier, file]) => toVaultFile(dataIdentifier, file));
+  progress.succeed(`Found ${items.length} encrypted file(s)`);
+
+  // Time limits live on the file contracts, so reading them costs RPC calls per file
+  if (options.expiry && !options.offline) {
+    const withContract = items.filter(item => item.contractAddress);
+    if (withContract.length > 0) {
+      progress.start('Reading access expiry...');
+      for (const item of withContract) {
+        const blockNumber = await getAccessExpiry(item.contractAddress!);
+        item.expiry = blockNumber === null ? null : await describeExpiry(blockNumber);
+      }
+      progress.succeed('Access expiry read');
+    }
+  }
+  return items;
+}
+
+/**
+ * Mints an access NFT for one of the wallet's private files to `recipient`.
+ * Public files need no NFT, so nothing is minted for them. Wallet access cannot expire,
+ * so `expires` is rejected; share with a group for time-limited access.
+ */
+export async function shareFile(pieceCid: string, recipientAddress: string, options: ShareOptions = {}, debug?: boolean): Promise<ShareResult> {
+  assertNoWalletExpiry(options);
+  const progress = createProgress(options.onProgress);
+  const [recipient] = normalizeRecipients([{ address: recipientAddress, source: 'argument' }]);
+  const { address, file } = await findFile(pieceCid, progress, debug);
+
+  if (file.accessType === 'public') {
+    return { shared: false, reason: 'public', pieceCid, dataIdentifier: file.dataIdentifier, name: file.name, recipient, group: null, transactionHash: null, expiry: null };
+  }
+  assertOwner(file, address, pieceCid);
+
+  progress.start('Preparing to mint access NFT...');
+  const { walletClient, authorization } = await prepareWallet();
+  progress.succeed('Ready to mint access NFT');
+
+  progress.start('Minting access NFT to recipient...');
+  const receipt = await share(
+    file.dataIdentifier,
+    walletClient,
+    [recipient],
+    config.registryContractAddress!,
+    config.bundlerRpcUrl!,
+    authorization,
+    debug
+  );
+  progress.succeed('Access NFT minted successfully');
+
+  return {
+    shared: true,
+    reason: null,
+    pieceCid,
+    dataIdentifier: file.dataIdentifier,
+    name: file.name,
+    recipient,
+    group: null,
+    transactionHash: receipt.transactionHash,
+    expiry: null,
+  };
+}
+
+/**
+ * Binds one of the wallet's private files to an access group, so every current and future
+ * member can decrypt it. `expires` limits the group's access only.
+ */
+export async function shareFileWithGroup(pieceCid: string, groupRef: string, options: ShareOptions = {}, debug?: boolean): Promise<ShareResult> {
+  const progress = createProgress(options.onProgress);
+  const { address, file } = await findFile(pieceCid, progress, debug);
+  const unchanged = { pieceCid, dataIdentifier: file.dataIdentifier, name: file.name, recipient: null, transactionHash: null, expiry: null };
+
+  if (file.accessType === 'public') {
+    return { ...unchanged, shared: false, reason: 'public', group: null };
+  }
+  assertOwner(file, address, pieceCid);
+
+  progress.start('Resolving access group...');
+  const group = await resolveGroup(groupRef);
+  const stored = await getPermissionParameters(file.contractAddress!);
+  // Bindings to the group's earlier contracts still let removed members in, so they are moved over
+  const current = await followGroupBindings(stored, config.registryContractAddress!);
+  const stale = current.length !== stored.length || current.some((permission, index) => !sameAddress(permission.permissionAddress, stored[index].permissionAddress));
+  const binding = current.find(permission => isGroupPermission(permission) && sameAddress(permission.permissionAddress, group.contractAddress));
+  progress.succeed(`Group: ${group.name ?? group.id}`);
+  if (binding && !stale && !options.expires) {
+    return { ...unchanged, shared: false, reason: 'already-bound', group: group.id };
+  }
+
+  let expiry: AccessExpiry | null = null;
+  if (options.expires) {
+    progress.start('Resolving access expiry...');
+    expiry = await resolveExpiry(options.expires);
+    progress.succeed(`Access expires at block ${expiry.blockNumber} (~${new Date(expiry.expiresAt).toLocaleString()})`);
+  }
+
+  progress.start('Preparing to bind the group...');
+  const { walletClient, authorization } = await prepareWallet();
+  const kernelClient = await getKernelClient(walletClient, getRegistryChain().chain, config.bundlerRpcUrl!, authorization, debug);
+  progress.succeed('Ready to bind the group');
+
+  // The limit only applies to the group's own permission; binding again with `expires` replaces it
+  const permissions = [
+    ...current.filter(permission => permission !== binding),
+    groupPermission(group.contractAddress, expiry?.blockNumber ?? binding?.timeLimitBlockNumber),
+  ];
+
+  progress.start('Binding the file to the group...');
+  const transactionHash = await replacePermissions(kernelClient, [{ fileContractAddress: file.contractAddress!, permissions }], debug);
+  progress.succeed('File bound to the group');
+
+  return { ...unchanged, shared: true, reason: null, group: group.id, transactionHash, expiry };
+}
+
+/**
+ * Mints access NFTs of one of the wallet's private files, or of every private file whose name
+ * matches `target.match`, to many recipients. The mints are packed into as few user operations
+ * as possible, recipients who already have access are skipped, and a failed user operation
+ * only fails its own rows. Like `shareFile`, it rejects `expires`.
+ */
+export async function shareFilesBatch(target: BatchShareTarget, recipients: string[], options: ShareOptions = {}, debug?: boolean): Promise<BatchShareResult> {
+  assertNoWalletExpiry(options);
+  const progress = createProgress(options.onProgress);
+  const addresses = normalizeRecipients(recipients.map(address => ({ address, source: address })));
+  const files = await selectFiles(target, options, progress, debug);
+
+  progress.start('Reading current access holders...');
+  const results: RecipientShare[] = [];
+  const pending: { file: VaultFile; rows: RecipientShare[] }[] = [];
+  for (const file of files) {
+    const holders = file.accessType === 'public' ? [] : await getAccessHolders(file.contractAddress!);
+    const rows = addresses.map((recipient): RecipientShare => {
+      const reason = file.accessType === 'public' ? 'public file'
+        : holders.some(holder => sameAddress(holder, recipient)) ? 'already has access' : null;
+      // Rows without a reason get their final status once their user operation is sent
+      return { pieceCid: file.pieceCid, name: file.name, recipient, status: reason ? 'skipped' : 'failed', reason, transactionHash: null };
+    });
+    results.push(...rows);
+    const toMint = rows.filter(row => !row.reason);
+    if (toMint.length > 0) {
+      pending.push({ file, rows: toMint });
+    }
+  }
+  progress.succeed(`${pending.reduce((total, entry) => total + entry.rows.length, 0)} access NFT(s) to mint for ${pending.length} file(s)`);
+
+  // Fill each user operation up to the limit, splitting a file's recipients across operations when needed
+  const operations: { grants: ShareGrant[]; rows: RecipientShare[] }[] = [];
+  for (const { file, rows } of pending) {
+    for (let offset = 0; offset < rows.length;) {
+      let operation = operations[operations.length - 1];
+      if (!operation || operation.rows.length >= BATCH_SHARE.MAX_MINTS_PER_OPERATION) {
+        operation = { grants: [], rows: [] };
+        operations.push(operation);
+      }
+      const slice = rows.slice(offset, offset + BATCH_SHARE.MAX_MINTS_PER_OPERATION - operation.rows.length);
+      operation.grants.push({
+        dataIdentifier: file.dataIdentifier,
+        recipientAddresses: slice.map(row => row.recipient),
+      });
+      operation.rows.push(...slice);
+      offset += slice.length;
+    }
+  }
+
+  if (operations.length > 0) {
+    progress.start('Preparing to mint access NFTs...');
+    const { walletClient, authorization } = await prepareWallet();
+    const kernelClient = await getKernelClient(walletClient, getRegistryChain().chain, config.bundlerRpcUrl!, authorization, debug);
+    progress.succeed('Ready to mint access NFTs');
+
+    for (const [index, operation] of operations.entries()) {
+      progress.start(`Minting ${operation.rows.length} access NFT(s) (user operation ${index + 1}/${operations.length})...`);
+      try {
+        const receipt = await shareBatch(kernelClient, operation.grants, config.registryContractAddress!, debug);
+        operation.rows.forEach(row => Object.assign(row, { status: 'minted', transactionHash: receipt.transactionHash }));
+        progress.succeed(`Minted ${operation.rows.length} access NFT(s) (user operation ${index + 1}/${operations.length})`);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+        operation.rows.forEach(row => Object.assign(row, { status: 'failed', reason }));
+        progress.fail(`User operation ${index + 1}/${operations.length} failed: ${reason}`);
+      }
+    }
+  }
+
+  const count = (status: RecipientShare['status']) => results.filter(row => row.status === status).length;
+  return {
+    files: files.length,
+    recipients: addresses.length,
+    minted: count('minted'),
+    skipped: count('skipped'),
+    failed: count('failed'),
+    operations: operations.length,
+    results,
+  };
+}
+
+/**
+ * A wallet's access NFT passes the file's owner permission, which never expires, so a time
+ * limit on a wallet share would not be enforced. Only group bindings can carry one.
+ */
+function assertNoWalletExpiry(options: ShareOptions): void {
+  if (options.expires) {
+    throw new AppError('Access expiry requires a group share', {
+      category: ErrorCategory.VALIDATION,
+      userMessage: 'Wallet access cannot expire. Share with a group (--group) to set an expiry.',
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { expires: options.expires }
+    });
+  }
+}
+
+/**
+ * Files a batch share covers: the file with `pieceCid`, or the wallet's private files whose
+ * name matches the `match` glob.
+ */
+async function selectFiles(target: BatchShareTarget, options: OperationOptions, progress: Progress, debug?: boolean): Promise<VaultFile[]> {
+  if (!target.pieceCid === !target.match) {
+    throw new AppError('Missing share target', {
+      category: ErrorCategory.VALIDATION,
+      userMessage: 'Give either a piece CID or a file name pattern to share.',
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { ...target }
+    });
+  }
+  if (target.pieceCid) {
+    const { address, file } = await findFile(target.pieceCid, progress, debug);
+    if (file.accessType !== 'public') {
+      assertOwner(file, address, target.pieceCid);
+    }
+    return [file];
+  }
+
+  const address = await getWalletAddress();
+  const files = (await listFiles({ onProgress: options.onProgress }, debug)).filter(file =>
+    file.accessType === 'private' && file.contractAddress && file.owner && sameAddress(file.owner, address)
+    && minimatch(file.name ?? '', target.match!, { nocase: true }));
+  if (files.length === 0) {
+    throw createFileError('No matching files', {
+      userMessage: `None of your private files has a name matching "${target.match}". Use "list" to see your files.`,
+      details: { match: target.match }
+    });
+  }
+  progress.info(`  ${files.length} private file(s) match "${target.match}"`);
+  return files;
+}
+
+/**
+ * Takes access to a private file away from `holder`. NFTs cannot be burned, so the file is
+ * registered again under the same identifier and every other holder receives a new NFT.
+ * With `rotate` the file is instead re-encrypted under a new identifier (see rotateFile).
+ */
+export async function revokeFileAccess(pieceCid: string, holder: string, options: RevokeOptions = {}, debug?: boolean): Promise<RevokeResult> {
+  const progress = createProgress(options.onProgress);
+  const { address, file } = await findFile(pieceCid, progress, debug);
+  assertOwner(file, address, pieceCid);
+
+  if (file.accessType === 'public') {
+    throw new AppError('Cannot revoke access to a public file', {
+      category: ErrorCategory.VALIDATION,
+      userMessage: 'This file is public, so anyone can decrypt it. Make it private first.',
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { pieceCid }
+    });
+  }
+  if (holder.toLowerCase() === address.toLowerCase()) {
+    throw new AppError('Cannot revoke the owner\'s access', {
+      category: ErrorCategory.VALIDATION,
+      userMessage: 'You cannot revoke your own access to a file you own.',
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { pieceCid, holder }
+    });
+  }
+
+  progress.start('Reading access NFT holders...');
+  const holders = await getAccessHolders(file.contractAddress!);
+  const remainingHolders = holders.filter(existing => existing.toLowerCase() !== holder.toLowerCase());
+  if (remainingHolders.length === holders.length) {
+    throw new AppError('Address holds no access NFT', {
+      category: ErrorCategory.VALIDATION,
+      userMessage: `${holder} does not hold an access NFT for this file.`,
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { pieceCid, holder, holders }
+    });
+  }
+  progress.succeed(`${holders.length} access NFT holder(s) found`);
+
+  progress.start('Preparing to revoke access...');
+  validateLitConfig();
+  const { walletClient, authorization } = await prepareWallet();
+  progress.succeed('Ready to revoke access');
+
+  if (options.rotate) {
+    const { rotated, transactionHash } = await rotateFile(file, remainingHolders, walletClient, authorization, options, progress, debug);
+    return {
+      pieceCid,
+      dataIdentifier: file.dataIdentifier,
+      name: file.name,
+      revoked: holder,
+      remainingHolders,
+      transactionHash,
+      rotated,
+    };
+  }
+
+  // Re-registering deploys a fresh file contract, so a price has to be set on it again
+  const price = await getAccessPrice(file.contractAddress!);
+  const carriedPermissions = (await followGroupBindings(await getPermissionParameters(file.contractAddress!), config.registryContractAddress!))
+    .filter(isGroupPermission);
+
+  progress.start(`Re-registering file and minting ${remainingHolders.length} access NFT(s)...`);
+  const receipt = await revokeAccess(
+    file.dataIdentifier,
+    file.metadata,
+    remainingHolders,
+    walletClient,
+    authorization,
+    config.registryContractAddress!,
+    config.validationContractAddress!,
+    config.bundlerRpcUrl!,
+    debug,
+    carriedPermissions
+  );
+  progress.succeed('Access revoked');
+
+  if (price) {
+    progress.start(`Selling access again for ${formatPrice(price)}...`);
+    const kernelClient = await getKernelClient(walletClient, getRegistryChain().chain, config.bundlerRpcUrl!, authorization, debug);
+    await setPublicDistribution(
+      kernelClient,
+      file.dataIdentifier,
+      config.registryContractAddress!,
+      { fee: BigInt(price.amountRaw), tokenAddress: price.token, feeRecipient: price.feeRecipient },
+      debug
+    );
+    progress.succeed('Paid access enabled');
+  }
+
+  return {
+    pieceCid,
+    dataIdentifier: file.dataIdentifier,
+    name: file.name,
+    revoked: holder,
+    remainingHolders,
+    transactionHash: receipt.transactionHash,
+    rotated: null,
+  };
+}
+
+/**
+ * Re-encrypts a file under a new data identifier and data key: the file is downloaded,
+ * uploaded again as a private file, shared with `remainingHolders`, and only then is the old
+ * identifier removed from the registry. Until that last step the old file stays intact, so
+ * a failure part way leaves every holder with access. Each step is journaled, so `resume`
+ * finishes a rotation that stopped part way (see continueRotation).
+ */
+async function rotateFile(
+  file: VaultFile,
+  remainingHolders: string[],
+  walletClient: Awaited<ReturnType<typeof prepareWallet>>['walletClient'],
+  authorization: Awaited<ReturnType<typeof prepareWallet>>['authorization'],
+  options: OperationOptions,
+  progress: Progress,
+  debug?: boolean
+): Promise<{ rotated: RotatedFile; transactionHash: string }> {
+  // Group bindings (with their time limits) and the price carry over
+  const price = await getAccessPrice(file.contractAddress!);
+  const carriedPermissions = (await followGroupBindings(await getPermissionParameters(file.contractAddress!), config.registryContractAddress!))
+    .filter(isGroupPermission);
+
+  const entry = await startJournalEntry('rotate', {
+    stage: 'started',
+    ownerAddress: walletClient.account.address,
+    fileName: file.name ?? undefined,
+    pieceCid: file.pieceCid ?? undefined,
+    dataIdentifier: file.dataIdentifier,
+    accessType: 'private',
+    fileContractAddress: file.contractAddress!,
+    metadata: file.metadata,
+    rotation: {
+      recipients: remainingHolders.filter(holder => !sameAddress(holder, walletClient.account.address)),
+      permissions: carriedPermissions,
+      ...(price && { price: { amount: price.amount, token: price.token } }),
+    },
+  });
+  try {
+    return await continueRotation(entry, walletClient, authorization, options, progress, debug);
+  } catch (error) {
+    await updateJournalEntry(entry.id, { lastError: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+}
+
+/**
+ * Runs the remaining steps of a `revoke --rotate` journal entry, from wherever it stopped:
+ * download (into the state directory, so a resumed rotation can upload the same bytes),
+ * re-upload, re-share, group rebinding, and removal of the old identifier.
+ */
+export async function continueRotation(
+  entry: JournalEntry,
+  walletClient: Awaited<ReturnType<typeof prepareWallet>>['walletClient'],
+  authorization: Awaited<ReturnType<typeof prepareWallet>>['authorization'],
+  options: OperationOptions,
+  progress: Progress = createProgress(options.onProgress),
+  debug?: boolean
+): Promise<{ rotated: RotatedFile; transactionHash: string }> {
+  const rotation = entry.rotation!;
+  const dir = path.join(config.stateDir, ROTATION.DIR_NAME, entry.id);
+  const localPath = path.join(dir, path.basename(entry.fileName || entry.dataIdentifier!));
+
+  if (entry.stage === 'started') {
+    await fs.mkdir(dir, { recursive: true, mode: 0o700 });
+    let condition = null as AccessCondition | null; // Read from the payload before it is decrypted
+    await downloadPiece(entry.pieceCid!, { output: localPath, onProgress: options.onProgress }, async (payload) => {
+      condition = readAccessCondition(payload);
+    }, debug);
+    entry = await updateJournalEntry(entry.id, { stage: 'downloaded', rotation: { ...rotation, ...(condition && { condition }) } });
+  }
+
+  if (entry.stage === 'downloaded') {
+    // Fields other tools record (such as S3 object keys) and the access condition carry over
+    const { name, type, mimeType, subtype, arrayType, filecoinStorageInfo, accessType, ...extra } = entry.metadata ?? {};
+    const upload = entry.rotation!.pieceCid ? null : await uploadFiles([localPath], {
+      private: true,
+      metadata: { ...extra, rotatedFrom: entry.dataIdentifier },
+      ...(rotation.price && { price: rotation.price.amount, token: rotation.price.token }),
+      ...(entry.rotation!.condition && { condition: JSON.stringify(entry.rotation!.condition) }),
+      onProgress: options.onProgress,
+    }, debug);
+    if (upload) {
+      entry = await updateJournalEntry(entry.id, {
+        rotation: { ...entry.rotation!, pieceCid: upload.pieceCid, dataIdentifier: upload.dataIdentifier!, uploadJournalId: upload.contracts.journalId ?? undefined },
+      });
+    }
+    // A copy stored but not registered is finished by its own upload journal entry first
+    const { pieceCid, dataIdentifier, uploadJournalId } = entry.rotation!;
+    if (!await getFileContract(dataIdentifier!, config.registryContractAddress!)) {
+      throw new AppError('Rotated copy stored but not registered', {
+        category: ErrorCategory.CONTRACT,
+        userMessage: `The re-encrypted copy was stored (piece ${pieceCid}) but is not registered yet${upload?.contracts.error ? `: ${upload.contracts.error}` : ''}. ` +
+          `The original file is unchanged. Run "resume" to register the copy and finish the rotation.`,
+        exitCode: EXIT_CODES.CONTRACT_ERROR,
+        details: { pieceCid: entry.pieceCid, rotatedPieceCid: pieceCid, journalId: entry.id, uploadJournalId }
+      });
+    }
+    await fs.rm(dir, { recursive: true, force: true });
+    entry = await updateJournalEntry(entry.id, { stage: 'uploaded' });
+  }
+
+  const rotatedDataIdentifier = entry.rotation!.dataIdentifier!;
+  if (entry.stage === 'uploaded') {
+    if (rotation.recipients.length > 0) {
+      progress.start(`Minting ${rotation.recipients.length} access NFT(s) for the re-encrypted copy...`);
+      const receipt = await share(
+        rotatedDataIdentifier,
+        walletClient,
+        rotation.recipients,
+        config.registryContractAddress!,
+        config.bundlerRpcUrl!,
+        authorization,
+        debug
+      );
+      entry = await updateJournalEntry(entry.id, { txHashes: { share: receipt.transactionHash } });
+      progress.succeed('Access NFTs minted');
+    }
+    entry = await updateJournalEntry(entry.id, { stage: 'shared' });
+  }
+
+  if (entry.stage === 'shared') {
+    const rotatedContract = rotation.permissions.length > 0 ? await getFileContract(rotatedDataIdentifier, config.registryContractAddress!) : null;
+    if (rotatedContract) {
+      progress.start(`Carrying ${rotation.permissions.length} group binding(s) over to the re-encrypted copy...`);
+      const kernelClient = await getKernelClient(walletClient, getRegistryChain().chain, config.bundlerRpcUrl!, authorization, debug);
+      // Keep the copy's own permissions; anything carried over before an interruption is replaced, not doubled
+      const permissions = [
+        ...(await getPermissionParameters(rotatedContract)).filter(permission => !rotation.permissions.some(carried => samePermission(carried, permission))),
+        ...rotation.permissions,
+      ];
+      const transactionHash = await replacePermissions(kernelClient, [{ fileContractAddress: rotatedContract, permissions }], debug);
+      entry = await updateJournalEntry(entry.id, { txHashes: { bind: transactionHash } });
+      progress.succeed('Group bindings carried over');
+    }
+    entry = await updateJournalEntry(entry.id, { stage: 'bound' });
+  }
+
+  progress.start('Removing the old data identifier from the registry...');
+  const receipt = await deleteData(
+    entry.dataIdentifier!,
+    walletClient,
+    authorization,
+    config.registryContractAddress!,
+    config.bundlerRpcUrl!,
+    debug
+  );
+  entry = await updateJournalEntry(entry.id, { stage: 'completed', txHashes: { delete: receipt.transactionHash } });
+  progress.succeed('Old data identifier removed');
+
+  return {
+    rotated: { pieceCid: entry.rotation!.pieceCid!, dataIdentifier: rotatedDataIdentifier, shareTransactionHash: entry.txHashes.share ?? null },
+    transactionHash: receipt.transactionHash,
+  };
+}
+
+/**
+ * Buys an access NFT of a file someone else sells, then downloads and decrypts it. The payload
+ * is downloaded once: the data identifier is read from it before decryption.
+ */
+export async function buyFile(pieceCid: string, options: BuyOptions = {}, debug?: boolean): Promise<BuyResult> {
+  const progress = createProgress(options.onProgress);
+  let purchase = null as Omit<BuyResult, 'download'> | null;
+  const download = await downloadPiece(pieceCid, options, async (payload) => {
+    purchase = await purchaseAccess(pieceCid, payload, options, progress, debug);
+  }, debug);
+  return { ...purchase!, download };
+}
+
+async function purchaseAccess(
+  pieceCid: string,
+  payload: Uint8Array,
+  options: BuyOptions,
+  progress: Progress,
+  debug?: boolean
+): Promise<Omit<BuyResult, 'download'>> {
+  const dataIdentifier = readDataIdentifier(payload);
+  if (!dataIdentifier) {
+    throw new AppError('Piece is not encrypted', {
+      category: ErrorCategory.VALIDATION,
+      userMessage: 'This piece is not encrypted, so there is no access to buy. Use "download" instead.',
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { pieceCid }
+    });
+  }
+
+  const { walletClient, authorization } = await prepareWallet();
+  progress.start('Reading the price...');
+  const fileContractAddress = await getFileContract(dataIdentifier, config.registryContractAddress!);
+  if (!fileContractAddress) {
+    throw createFileError('File not registered', {
+      userMessage: `No permission contract is registered for ${pieceCid}, so its access cannot be bought.`,
+      details: { pieceCid, dataIdentifier }
+    });
+  }
+  const price = await getAccessPrice(fileContractAddress);
+  if (!price) {
+    throw new AppError('File is not for sale', {
+      category: ErrorCategory.VALIDATION,
+      userMessage: 'The owner of this file does not sell access to it. Ask them to share it with your wallet.',
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { pieceCid, dataIdentifier }
+    });
+  }
+  progress.succeed(`Access costs ${formatPrice(price)}`);
+  assertWithinMaxPrice(price, options.maxPrice);
+
+  const address = walletClient.account.address;
+  if (await checkAccess(dataIdentifier, address, config.registryContractAddress!)) {
+    progress.info('  This wallet already has access; nothing was bought');
+    return { pieceCid, dataIdentifier, price, purchased: false, transactionHash: null };
+  }
+
+  const balance = await getPaymentBalance(price, address);
+  if (balance < BigInt(price.amountRaw)) {
+    throw createPaymentError('Insufficient balance to buy access', {
+      userMessage: `Buying access costs ${formatPrice(price)}, but ${address} only holds ${formatPrice({ ...price, amount: formatUnits(balance, price.decimals) })}.`,
+      details: { pieceCid, price: price.amountRaw, balance: balance.toString(), token: price.token }
+    });
+  }
+
+  progress.start(`Paying ${formatPrice(price)} and minting access NFT...`);
+  const receipt = await buyAccess(
+    dataIdentifier,
+    fileContractAddress,
+    { fee: BigInt(price.amountRaw), tokenAddress: price.token, feeRecipient: price.feeRecipient },
+    walletClient,
+    authorization,
+    config.registryContractAddress!,
+    config.bundlerRpcUrl!,
+    debug
+  );
+  progress.succeed('Access NFT minted');
+
+  return { pieceCid, dataIdentifier, price, purchased: true, transactionHash: receipt.transactionHash };
+}
+
+function assertWithinMaxPrice(price: AccessPrice, maxPrice: string | undefined): void {
+  if (maxPrice === undefined) {
+    return;
+  }
+  let limit: bigint;
+  try {
+    limit = parseUnits(maxPrice.trim(), price.decimals);
+  } catch (error) {
+    throw new AppError(`Invalid max price: ${maxPrice}`, {
+      category: ErrorCategory.VALIDATION,
+      userMessage: `Invalid --max-price ${maxPrice}. Give an amount of ${price.symbol}, like 5 or 2.5.`,
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      cause: error,
+      details: { maxPrice }
+    });
+  }
+  if (BigInt(price.amountRaw) > limit) {
+    throw new AppError('Price above the limit', {
+      category: ErrorCategory.VALIDATION,
+      userMessage: `Access costs ${formatPrice(price)}, more than --max-price ${maxPrice}. Nothing was bought.`,
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { price: price.amountRaw, maxPrice }
+    });
+  }
+}
+
+/**
+ * Data identifier an encrypted payload was registered under: envelopes record it in their
+ * encryption header, chunked manifests and legacy JSON payloads at the top level.
+ */
+function readDataIdentifier(payload: Uint8Array): string | null {
+  if (isEnvelope(payload)) {
+    return decodeEnvelope(payload).encryption?.dataIdentifier ?? null;
+  }
+  try {
+    const json = JSON.parse(new TextDecoder().decode(payload));
+    return json?.encrypted !== false && typeof json?.dataIdentifier === 'string' ? json.dataIdentifier : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Declarative access condition an encrypted payload was encrypted under, if it had one.
+ */
+function readAccessCondition(payload: Uint8Array): AccessCondition | null {
+  if (isEnvelope(payload)) {
+    return decodeEnvelope(payload).encryption?.condition ?? null;
+  }
+  try {
+    return JSON.parse(new TextDecoder().decode(payload))?.encryption?.condition ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Removes one of the wallet's files from the permissions registry. The data stays on Filecoin.
+ */
+export async function deleteFile(pieceCid: string, options: OperationOptions = {}, debug?: boolean): Promise<DeleteResult> {
+  const progress = createProgress(options.onProgress);
+  const { address, file } = await findFile(pieceCid, progress, debug);
+  assertOwner(file, address, pieceCid);
+
+  progress.start('Preparing to delete file...');
+  const { walletClient, authorization } = await prepareWallet();
+  progress.succeed('Ready to delete file');
+
+  progress.start('Deleting file from registry...');
+  const receipt = await deleteData(
+    file.dataIdentifier,
+    walletClient,
+    authorization,
+    config.registryContractAddress!,
+    config.bundlerRpcUrl!,
+    debug
+  );
+  progress.succeed('File deleted successfully');
+
+  return {
+    deleted: true,
+    pieceCid,
+    dataIdentifier: file.dataIdentifier,
+    name: file.name,
+    transactionHash: receipt.transactionHash,
+  };
+}
+
+function toVaultFile(dataIdentifier: string, file: any): VaultFile {
+  return { ...toFileSummary(dataIdentifier, file), expiry: null, metadata: getRegistryMetadata(file) };
+}
+
+async function findFile(pieceCid: string, progress: Progress, debug?: boolean): Promise<{ address: string; file: VaultFile }> {
+  const address = await getWalletAddress();
+
+  progress.start('Looking up file by piece CID...');
+  const files = await listEncryptedFiles(address, debug, undefined, {
+    filterBy: {
+      field: 'pieceCid',
+      value: pieceCid,
+      operator: 'equals'
+    }
+  }, { onWarning: progress.warn });
+  const fileEntries = Object.entries(files);
+
+  if (fileEntries.length === 0) {
+    throw createFileError('File not found', {
+      userMessage: `No encrypted file found with piece CID: ${pieceCid}`,
+      details: { pieceCid }
+    });
+  }
+  if (fileEntries.length > 1) {
+    progress.warn('Multiple files found with the same piece CID. Using the first one.');
+  }
+
+  const [dataIdentifier, file] = fileEntries[0];
+  progress.succeed('File found');
+  return { address, file: toVaultFile(dataIdentifier, file) };
+}
+
+function assertOwner(file: VaultFile, address: string, pieceCid: string): void {
+  if (file.owner?.toLowerCase() !== address.toLowerCase()) {
+    throw new AppError('Not the file owner', {
+      category: ErrorCategory.PERMISSION,
+      userMessage: `You are not the owner of this file (owner: ${file.owner}, your address: ${address}).`,
+      details: { pieceCid, owner: file.owner, address },
+      exitCode: EXIT_CODES.PERMISSION_ERROR,
+    });
+  }
+}
+
+/**
+ * Builds the wallet client and EIP-7702 authorization the kernel client sends user operations with.
+ */
+export async function prepareWallet() {
+  for (const [key, name] of [['registryContractAddress', 'REGISTRY_CONTRACT_ADDRESS'], ['bundlerRpcUrl', 'BUNDLER_RPC_URL']] as const) {
+    if (!config[key]) {
+      throw createConfigError(`${name} not configured`, {
+        userMessage: `${name} is required for registry operations. Please set it in your .env file.`,
+        details: { missing: name }
+      });
+    }
+  }
+
+  const account = await getAccount();
+
+  const walletClient: WalletClient<Transport, Chain, Account> = createWalletClient({
+    account: account,
+    chain: getRegistryChain().chain,
+    transport: http(),
+  });
+
+  // Get authorization for kernel account
+  const kernelAddresses = KernelVersionToAddressesMap[KERNEL_V3_3];
+  const authorization = await walletClient.signAuthorization({
+    contractAddress: kernelAddresses.accountImplementationAddress as `0x${string}`,
+    account: account,
+  });
+
+  return { walletClient, authorization };
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function samePermission(a: PermissionParameters, b: PermissionParameters): boolean {
+  return a.permissionType === b.permissionType && a.operator === b.operator && sameAddress(a.permissionAddress, b.permissionAddress);
+}
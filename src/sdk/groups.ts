@@ -0,0 +1,267 @@
+import { createPublicClient, http } from 'viem';
+import {
+  deployPermissionsAndMintNFT,
+  share,
+  revokeAccess,
+  getAccessHolders,
+  getFileContract,
+  getPermissionParameters,
+  isGroupPermission,
+  replacePermissions,
+} from '../utils/keypo.js';
+import { getKernelClient } from '../utils/getKernelClient.js';
+import { generateRandomDataIdentifier } from '../utils/generateRandomIdentifier.js';
+import { findGroupRecord, listGroupRecords, resolveGroup, saveGroupRecord } from '../utils/groups.js';
+import { PermissionedFileAbi } from '../utils/contracts.js';
+import { getRegistryChain } from '../utils/registryChain.js';
+import { AppError, ErrorCategory } from '../utils/errorHandler.js';
+import { DataMetadata } from '../utils/types.js';
+import { config, validateLitConfig } from '../config.js';
+import { ACCESS_GROUP, EXIT_CODES } from '../constants.js';
+import { createProgress } from './progress.js';
+import { listFiles, prepareWallet } from './files.js';
+import type { OperationOptions, AccessGroup, GroupResult } from './types.js';
+
+/**
+ * Registers a new access group and mints the owner's membership. The group is a registry
+ * entry without a Filecoin piece, so it never shows up in `list`.
+ */
+export async function createGroup(name: string, options: OperationOptions = {}, debug?: boolean): Promise<GroupResult> {
+  const progress = createProgress(options.onProgress);
+  if (await findGroupRecord(name)) {
+    throw new AppError(`Group already exists: ${name}`, {
+      category: ErrorCategory.VALIDATION,
+      userMessage: `An access group named "${name}" already exists. Pick another name.`,
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { name }
+    });
+  }
+
+  progress.start('Preparing to create the group...');
+  validateLitConfig();
+  const { walletClient, authorization } = await prepareWallet();
+  const kernelClient = await getKernelClient(walletClient, getRegistryChain().chain, config.bundlerRpcUrl!, authorization, debug);
+  const owner = walletClient.account.address;
+  progress.succeed('Ready to create the group');
+
+  const id = generateRandomDataIdentifier(new TextEncoder().encode(name));
+  progress.start('Registering the group and minting your membership...');
+  const { mintTransactionHash } = await deployPermissionsAndMintNFT(
+    id,
+    groupMetadata(name),
+    kernelClient,
+    owner,
+    config.registryContractAddress!,
+    config.validationContractAddress!,
+    false,
+    {},
+    undefined,
+    [],
+    debug
+  );
+  const contractAddress = await getFileContract(id, config.registryContractAddress!);
+  if (!contractAddress) {
+    throw new AppError('Group registration not found', {
+      category: ErrorCategory.CONTRACT,
+      userMessage: `The group was registered but its contract could not be read back. Try "group list" in a moment.`,
+      exitCode: EXIT_CODES.CONTRACT_ERROR,
+      details: { id, name }
+    });
+  }
+  await saveGroupRecord({ id, name, ownerAddress: owner, contractAddress });
+  progress.succeed(`Group "${name}" created`);
+
+  return {
+    group: { id, name, contractAddress, owner, members: [owner] },
+    added: [owner],
+    removed: [],
+    reboundFiles: [],
+    transactionHash: mintTransactionHash ?? null,
+  };
+}
+
+/**
+ * Mints group memberships to `members`, which gives them access to every file bound to the group.
+ */
+export async function addGroupMembers(groupRef: string, members: string[], options: OperationOptions = {}, debug?: boolean): Promise<GroupResult> {
+  const progress = createProgress(options.onProgress);
+  progress.start('Reading the group...');
+  const group = await readGroup(groupRef);
+  const { walletClient, authorization } = await prepareWallet();
+  assertGroupOwner(group, walletClient.account.address);
+
+  const added = unique(members).filter(member => !group.members.some(existing => sameAddress(existing, member)));
+  progress.succeed(`${group.members.length} member(s) in ${describe(group)}`);
+  if (added.length === 0) {
+    return { group, added: [], removed: [], reboundFiles: [], transactionHash: null };
+  }
+
+  progress.start(`Minting ${added.length} membership(s)...`);
+  const receipt = await share(
+    group.id,
+    walletClient,
+    added,
+    config.registryContractAddress!,
+    config.bundlerRpcUrl!,
+    authorization,
+    debug
+  );
+  progress.succeed('Members added');
+
+  return {
+    group: { ...group, members: [...group.members, ...added] },
+    added,
+    removed: [],
+    reboundFiles: [],
+    transactionHash: receipt.transactionHash,
+  };
+}
+
+/**
+ * Takes a membership away. Memberships cannot be burned, so the group is registered again
+ * with the remaining members (a new group contract) and the wallet's files bound to the old
+ * contract are moved to the new one. Only a file's owner can change its permissions, so files
+ * other wallets bound keep letting the member in until their owners bind them again.
+ */
+export async function removeGroupMember(groupRef: string, member: string, options: OperationOptions = {}, debug?: boolean): Promise<GroupResult> {
+  const progress = createProgress(options.onProgress);
+  progress.start('Reading the group...');
+  validateLitConfig();
+  const group = await readGroup(groupRef);
+  const { walletClient, authorization } = await prepareWallet();
+  const owner = walletClient.account.address;
+  assertGroupOwner(group, owner);
+
+  if (sameAddress(member, owner)) {
+    throw new AppError('Cannot remove the group owner', {
+      category: ErrorCategory.VALIDATION,
+      userMessage: 'You own this group, so your membership cannot be removed.',
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { group: group.id, member }
+    });
+  }
+  const remaining = group.members.filter(existing => !sameAddress(existing, member));
+  if (remaining.length === group.members.length) {
+    throw new AppError('Address is not a group member', {
+      category: ErrorCategory.VALIDATION,
+      userMessage: `${member} is not a member of ${describe(group)}.`,
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { group: group.id, member, members: group.members }
+    });
+  }
+  progress.succeed(`${group.members.length} member(s) in ${describe(group)}`);
+
+  progress.start(`Re-registering the group with ${remaining.length} member(s)...`);
+  const receipt = await revokeAccess(
+    group.id,
+    groupMetadata(group.name ?? group.id),
+    remaining,
+    walletClient,
+    authorization,
+    config.registryContractAddress!,
+    config.validationContractAddress!,
+    config.bundlerRpcUrl!,
+    debug
+  );
+  const contractAddress = await getFileContract(group.id, config.registryContractAddress!);
+  if (!contractAddress) {
+    throw new AppError('Group registration not found', {
+      category: ErrorCategory.CONTRACT,
+      userMessage: 'The group was re-registered but its new contract could not be read back. Run the command again in a moment.',
+      exitCode: EXIT_CODES.CONTRACT_ERROR,
+      details: { group: group.id }
+    });
+  }
+  progress.succeed('Member removed');
+
+  // Files only name the group by contract address, so the wallet's bound files follow it
+  const files = (await listFiles({ onProgress: options.onProgress }, debug))
+    .filter(file => file.contractAddress && file.owner && sameAddress(file.owner, owner));
+  progress.start(`Checking ${files.length} file(s) for the group...`);
+  const updates: { fileContractAddress: string; permissions: Awaited<ReturnType<typeof getPermissionParameters>> }[] = [];
+  const reboundFiles: string[] = [];
+  for (const file of files) {
+    const permissions = await getPermissionParameters(file.contractAddress!);
+    if (!permissions.some(permission => isGroupPermission(permission) && sameAddress(permission.permissionAddress, group.contractAddress))) {
+      continue;
+    }
+    updates.push({
+      fileContractAddress: file.contractAddress!,
+      permissions: permissions.map(permission => isGroupPermission(permission) && sameAddress(permission.permissionAddress, group.contractAddress)
+        ? { ...permission, permissionAddress: contractAddress }
+        : permission),
+    });
+    reboundFiles.push(file.pieceCid ?? file.dataIdentifier);
+  }
+  progress.succeed(`${updates.length} file(s) bound to the group`);
+
+  if (updates.length > 0) {
+    progress.start(`Moving ${updates.length} file(s) to the new group contract...`);
+    const kernelClient = await getKernelClient(walletClient, getRegistryChain().chain, config.bundlerRpcUrl!, authorization, debug);
+    await replacePermissions(kernelClient, updates, debug);
+    progress.succeed('Files moved');
+  }
+  progress.warn(`Files other wallets bound to ${describe(group)} still let ${member} in until their owners run "share <cid> --group" again`);
+
+  const record = await findGroupRecord(group.id);
+  if (record) {
+    await saveGroupRecord({ ...record, contractAddress });
+  }
+
+  return {
+    group: { ...group, contractAddress, members: remaining },
+    added: [],
+    removed: [member],
+    reboundFiles,
+    transactionHash: receipt.transactionHash,
+  };
+}
+
+/**
+ * Groups created on this machine for the configured registry, with their current members.
+ */
+export async function listGroups(options: OperationOptions = {}): Promise<AccessGroup[]> {
+  const progress = createProgress(options.onProgress);
+  const records = await listGroupRecords();
+  progress.start('Reading group members...');
+  const groups: AccessGroup[] = [];
+  for (const record of records) {
+    groups.push(await readGroup(record.id));
+  }
+  progress.succeed(`Found ${groups.length} group(s)`);
+  return groups;
+}
+
+async function readGroup(groupRef: string): Promise<AccessGroup> {
+  const { id, name, contractAddress } = await resolveGroup(groupRef);
+  const publicClient = createPublicClient({ chain: getRegistryChain().chain, transport: http() });
+  const owner = await publicClient.readContract({ address: contractAddress as `0x${string}`, abi: PermissionedFileAbi, functionName: 'owner' }) as string;
+  return { id, name, contractAddress, owner, members: await getAccessHolders(contractAddress) };
+}
+
+function assertGroupOwner(group: AccessGroup, address: string): void {
+  if (!sameAddress(group.owner, address)) {
+    throw new AppError('Not the group owner', {
+      category: ErrorCategory.VALIDATION,
+      userMessage: `Only the owner of ${describe(group)} (${group.owner}) can change its members.`,
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { group: group.id, owner: group.owner, address }
+    });
+  }
+}
+
+function groupMetadata(name: string): DataMetadata {
+  return { name, type: ACCESS_GROUP.METADATA_TYPE, accessType: 'private' } as DataMetadata;
+}
+
+function describe(group: AccessGroup): string {
+  return group.name ? `group "${group.name}"` : `group ${group.id}`;
+}
+
+function unique(addresses: string[]): string[] {
+  return addresses.filter((address, index) => addresses.findIndex(other => sameAddress(other, address)) === index);
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
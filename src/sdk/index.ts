@@ -0,0 +1,36 @@
+/**
+ * Library entry point (`import { SynapseVault } from 'synapse-cli'`).
+ */
+export { SynapseVault } from './vault.js';
+export { AppError, ErrorCategory, ErrorSeverity } from '../utils/errorHandler.js';
+export type {
+  VaultOptions,
+  OperationOptions,
+  ProgressEvent,
+  ProgressListener,
+  ProgressStage,
+  AccessType,
+  AccessExpiry,
+  AccessPrice,
+  AccessCondition,
+  UploadOptions,
+  UploadResult,
+  DownloadOptions,
+  DownloadResult,
+  BuyOptions,
+  BuyResult,
+  ListOptions,
+  VaultFile,
+  ShareOptions,
+  ShareResult,
+  BatchShareTarget,
+  BatchShareResult,
+  RecipientShare,
+  RevokeOptions,
+  RevokeResult,
+  RotatedFile,
+  AccessGroup,
+  GroupResult,
+  DeleteResult,
+  BalanceResult,
+} from './types.js';
@@ -0,0 +1,18 @@
+import type { ProgressListener, ProgressStage } from './types.js';
+
+export type Progress = Record<ProgressStage, (message: string) => void>;
+
+/**
+ * Wraps an optional listener so operations can report steps unconditionally.
+ */
+export function createProgress(listener?: ProgressListener): Progress {
+  const emit = (stage: ProgressStage) => (message: string) => listener?.({ stage, message });
+  return {
+    start: emit('start'),
+    update: emit('update'),
+    succeed: emit('succeed'),
+    fail: emit('fail'),
+    warn: emit('warn'),
+    info: emit('info'),
+  };
+}
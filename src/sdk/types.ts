@@ -0,0 +1,276 @@
+import type { Config } from '../config.js';
+
+export type ProgressStage = 'start' | 'update' | 'succeed' | 'fail' | 'warn' | 'info';
+
+/**
+ * A step of a long-running operation. The CLI renders these with a spinner.
+ */
+export interface ProgressEvent {
+  stage: ProgressStage;
+  message: string;
+}
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+/**
+ * Settings that override the environment (.env) and profile configuration. They apply to the whole process.
+ */
+export type VaultOptions = Partial<Pick<Config,
+  | 'network'
+  | 'privateKey'
+  | 'wallet'
+  | 'keystorePassword'
+  | 'rpcUrl'
+  | 'withCDN'
+  | 'registryContractAddress'
+  | 'validationContractAddress'
+  | 'bundlerRpcUrl'
+  | 'stateDir'
+  | 'indexProvider'
+  | 'keypoApiUrl'
+  | 'registryChain'
+  | 'litNetwork'
+  | 'registryRpcUrl'
+>> & {
+  profile?: string;             // Named profile from the config file (default: SYNAPSE_PROFILE or the active one)
+  debug?: boolean;
+};
+
+export interface OperationOptions {
+  onProgress?: ProgressListener;
+}
+
+export type AccessType = 'public' | 'private';
+
+/**
+ * Block of the registry chain after which checkPermission fails for a file.
+ */
+export interface AccessExpiry {
+  blockNumber: number;
+  expiresAt: string;            // ISO time estimated from the chain's recent block time
+  expired: boolean;
+}
+
+/**
+ * Price anyone pays to mint an access NFT of a private file (its public distribution).
+ */
+export interface AccessPrice {
+  amount: string;               // In whole tokens, e.g. "2.5"
+  amountRaw: string;            // In the token's smallest unit
+  token: string;                // ERC-20 address; the zero address is the registry chain's native currency
+  symbol: string;
+  decimals: number;
+  feeRecipient: string;
+}
+
+/**
+ * Declarative access condition compiled into the Lit access control conditions of an
+ * encrypted upload. `registry` is the permissions registry's checkPermission; `chain` is a
+ * Lit chain name and defaults to the registry chain.
+ */
+export type AccessCondition =
+  | { type: 'registry' }
+  | { type: 'erc20'; token: string; minBalance: string; decimals?: number; chain?: string }   // minBalance in whole tokens
+  | { type: 'erc721'; contract: string; tokenId?: string; chain?: string }                    // Any token unless tokenId is set
+  | { type: 'erc1155'; contract: string; tokenId: string; minBalance?: string; chain?: string }
+  | { type: 'wallets'; addresses: string[] }
+  | { and: AccessCondition[] }
+  | { or: AccessCondition[] };
+
+export interface UploadOptions extends OperationOptions {
+  private?: boolean;            // Require an access NFT to decrypt
+  unencrypted?: boolean;        // Store the raw bytes
+  chunked?: boolean;            // Force a chunked upload (automatic for large files)
+  chunkSizeMB?: number;
+  exclude?: string[];           // Glob patterns skipped in directory and glob uploads
+  skipPaymentCheck?: boolean;
+  metadata?: Record<string, any>; // Extra fields recorded in the registry metadata of encrypted uploads
+  expires?: string;             // Access expiry: a duration (7d), date (2026-12-31) or block (block:35000000)
+  price?: string;               // Sell access NFTs for this amount of `token` (implies private)
+  token?: string;               // ERC-20 address the price is paid in
+  group?: string;               // Also let every member of this access group (name or identifier) decrypt (implies private)
+  condition?: string;           // Access condition: an expression, JSON, or the path of a JSON or YAML file (see AccessCondition)
+}
+
+export interface UploadResult {
+  name: string;
+  kind: 'file' | 'chunked' | 'folder';
+  size: number;
+  pieceCid: string;
+  pieceCount: number;
+  fileCount: number | null;
+  datasetCreated: boolean;
+  encrypted: boolean;
+  accessType: AccessType | null;
+  dataIdentifier: string | null;
+  expiry: AccessExpiry | null;
+  price: AccessPrice | null;
+  group: string | null;         // Identifier of the access group the file is bound to
+  condition: AccessCondition | null;
+  contracts: {
+    status: 'deployed' | 'pending' | 'none';
+    deployTransactionHash: string | null;
+    mintTransactionHash: string | null;
+    distributionTransactionHash: string | null;
+    journalId: string | null;     // Set while pending; finish with `resume`
+    error: string | null;
+  };
+}
+
+export interface DownloadOptions extends OperationOptions {
+  output?: string;              // File path, or directory for folders (default: ./<name>)
+  outputDir?: string;           // Directory to save under the stored name when `output` is not set (default: cwd)
+}
+
+export interface DownloadResult {
+  pieceCid: string;
+  kind: 'file' | 'folder';
+  path: string;
+  size: number;
+  fileCount: number | null;
+  decrypted: boolean;
+  sha256: string | null;
+  durationSeconds: number;
+}
+
+export interface BuyOptions extends DownloadOptions {
+  maxPrice?: string;            // Refuse to pay more than this amount of the file's token
+}
+
+export interface BuyResult {
+  pieceCid: string;
+  dataIdentifier: string;
+  price: AccessPrice;
+  purchased: boolean;           // False when the wallet already had access
+  transactionHash: string | null;
+  download: DownloadResult;
+}
+
+export interface ListOptions extends OperationOptions {
+  offline?: boolean;            // Read the local index without syncing it
+  expiry?: boolean;             // Read each file's access expiry from its contract (RPC calls per file; ignored offline)
+}
+
+export interface VaultFile {
+  dataIdentifier: string;
+  name: string | null;
+  pieceCid: string | null;
+  accessType: AccessType;
+  type: string | null;
+  owner: string | null;
+  contractAddress: string | null;
+  accessMinted: boolean;
+  uploadedAt: string | null;
+  expiry: AccessExpiry | null;    // Set by list with `expiry`; null when access never expires
+  metadata: Record<string, any>;  // Full registry metadata
+}
+
+export interface ShareOptions extends OperationOptions {
+  expires?: string;             // Group shares only: access expiry, in the same forms as UploadOptions.expires
+}
+
+export interface ShareResult {
+  shared: boolean;
+  reason: 'public' | 'already-bound' | null;  // Why nothing was minted or bound
+  pieceCid: string;
+  dataIdentifier: string;
+  name: string | null;
+  recipient: string | null;     // Null when shared with a group
+  group: string | null;         // Identifier of the access group the file was bound to
+  transactionHash: string | null;
+  expiry: AccessExpiry | null;
+}
+
+/**
+ * Which files a batch share covers: one piece CID, or every private file of the wallet whose
+ * name matches a glob pattern.
+ */
+export interface BatchShareTarget {
+  pieceCid?: string;
+  match?: string;
+}
+
+export interface RecipientShare {
+  pieceCid: string | null;
+  name: string | null;
+  recipient: string;
+  status: 'minted' | 'skipped' | 'failed';
+  reason: string | null;        // Why the recipient was skipped or the mint failed
+  transactionHash: string | null;
+}
+
+export interface BatchShareResult {
+  files: number;
+  recipients: number;
+  minted: number;
+  skipped: number;
+  failed: number;
+  operations: number;           // User operations sent (each mints up to BATCH_SHARE.MAX_MINTS_PER_OPERATION NFTs)
+  results: RecipientShare[];    // One row per file and recipient
+}
+
+export interface RevokeOptions extends OperationOptions {
+  rotate?: boolean;             // Re-encrypt under a new data identifier and retire the old one
+}
+
+export interface RevokeResult {
+  pieceCid: string;
+  dataIdentifier: string;
+  name: string | null;
+  revoked: string;
+  remainingHolders: string[];
+  transactionHash: string;      // Re-registration, or with `rotate` the removal of the old identifier
+  rotated: RotatedFile | null;
+}
+
+/**
+ * Re-encrypted copy that replaces a file after `revoke --rotate`.
+ */
+export interface RotatedFile {
+  pieceCid: string;
+  dataIdentifier: string;
+  shareTransactionHash: string | null;  // Access NFTs for the remaining holders (null when there are none)
+}
+
+/**
+ * Wallets holding the access NFTs of a group registration. Every member can decrypt the
+ * files bound to the group.
+ */
+export interface AccessGroup {
+  id: string;                   // Data identifier the group is registered under
+  name: string | null;          // Null for groups created on another machine
+  contractAddress: string;
+  owner: string;
+  members: string[];
+}
+
+export interface GroupResult {
+  group: AccessGroup;
+  added: string[];
+  removed: string[];
+  reboundFiles: string[];       // Piece CIDs of files moved to the group's new contract after a removal
+  transactionHash: string | null;
+}
+
+export interface DeleteResult {
+  deleted: boolean;
+  pieceCid: string;
+  dataIdentifier: string;
+  name: string | null;
+  transactionHash: string;
+}
+
+export interface BalanceResult {
+  address: string;
+  chainId: number;
+  wallet: {
+    fil: string;
+    filWei: string;
+    usdfc: number;
+    usdfcRaw: string;
+  };
+  deposits: {
+    usdfc: number;
+    usdfcRaw: string;
+  };
+}
@@ -0,0 +1,535 @@
+import fs from 'fs/promises';
+import path from 'path';
+import chalk from 'chalk';
+import { TOKENS, TIME_CONSTANTS } from '@filoz/synapse-sdk';
+import type { Synapse } from '@filoz/synapse-sdk';
+import { ethers } from 'ethers';
+import { getSynapse } from '../utils/synapse.js';
+import { getAccount, getWalletAddress } from '../utils/account.js';
+import { config, validateLitConfig } from '../config.js';
+import { preProcess, encrypt, createEncryptionSession, deployPermissionsAndMintNFT, groupPermission } from '../utils/keypo.js';
+import { resolveGroup } from '../utils/groups.js';
+import { encodeEnvelope } from '../utils/envelope.js';
+import { uploadChunkedFile, ChunkedUploadOptions } from '../utils/chunkedFile.js';
+import { collectFolderFiles, isGlobPattern, uploadFolder, FolderFile, FolderUploadOptions } from '../utils/folder.js';
+import { startJournalEntry, updateJournalEntry, JournalEntry } from '../utils/journal.js';
+import { DataMetadata } from '../utils/types.js';
+import { createFileError, createPaymentError, createEncryptionError, ErrorCategory, AppError } from '../utils/errorHandler.js';
+import { bytesToMB, formatUSDFC, TOKEN_AMOUNTS, BALANCE_THRESHOLDS, EXIT_CODES, CHUNKED_UPLOAD, FILE_SIZE } from '../constants.js';
+import { createProgress, Progress } from './progress.js';
+import { resolveExpiry } from '../utils/expiry.js';
+import { resolvePrice, formatPrice } from '../utils/distribution.js';
+import { resolveAccessCondition, formatAccessCondition } from '../utils/conditions.js';
+import type { AccessCondition, AccessExpiry, AccessPrice, UploadOptions, UploadResult } from './types.js';
+
+/**
+ * Uploads a file, or a folder built from directories and glob patterns, and registers its
+ * permissions on-chain when encrypted. A failed registration does not fail the upload: the
+ * result reports it as pending with the journal entry `resume` finishes.
+ */
+export async function uploadFiles(inputPaths: string[], options: UploadOptions = {}, debug?: boolean): Promise<UploadResult> {
+  const progress = createProgress(options.onProgress);
+  const exclude = options.exclude ?? [];
+
+  const chunkSizeMB = options.chunkSizeMB ?? CHUNKED_UPLOAD.DEFAULT_CHUNK_SIZE_MB;
+  if (!Number.isFinite(chunkSizeMB) || chunkSizeMB < CHUNKED_UPLOAD.MIN_CHUNK_SIZE_MB || chunkSizeMB > CHUNKED_UPLOAD.MAX_CHUNK_SIZE_MB) {
+    throw new AppError(`Invalid chunk size: ${chunkSizeMB}`, {
+      category: ErrorCategory.VALIDATION,
+      userMessage: `Chunk size must be between ${CHUNKED_UPLOAD.MIN_CHUNK_SIZE_MB} and ${CHUNKED_UPLOAD.MAX_CHUNK_SIZE_MB} MB`,
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { chunkSize: chunkSizeMB }
+    });
+  }
+  const chunkSize = Math.floor(chunkSizeMB * FILE_SIZE.BYTES_PER_MB);
+
+  // Check if file exists
+  progress.start('Checking file...');
+  const filePath = inputPaths[0];
+  let stats;
+  let fileName: string;
+  let fileSize: number;
+  let folder: { name: string; files: FolderFile[] } | null = null; // Set for directory and glob uploads
+
+  if (inputPaths.length === 1 && !isGlobPattern(filePath)) {
+    try {
+      stats = await fs.stat(filePath);
+    } catch (fileError) {
+      throw createFileError(`Cannot access file: ${filePath}`, {
+        cause: fileError,
+        userMessage: `File not found or cannot be accessed: ${filePath}`,
+        details: { filePath }
+      });
+    }
+  }
+
+  if (stats?.isFile()) {
+    fileName = path.basename(filePath);
+    fileSize = stats.size;
+    progress.succeed(`File: ${fileName} (${bytesToMB(fileSize)} MB)`);
+  } else {
+    progress.update('Collecting files...');
+    folder = await collectFolderFiles(inputPaths, exclude);
+    if (folder.files.length === 0) {
+      throw createFileError('No files to upload', {
+        userMessage: `No files matched ${inputPaths.join(' ')}${exclude.length ? ` (excluding ${exclude.join(', ')})` : ''}`,
+        details: { inputPaths, exclude }
+      });
+    }
+    fileName = folder.name;
+    fileSize = folder.files.reduce((total, file) => total + file.size, 0);
+    progress.succeed(`Folder: ${fileName} (${folder.files.length} files, ${bytesToMB(fileSize)} MB)`);
+  }
+
+  // Initialize Synapse first (needed for address)
+  progress.start('Connecting to Filecoin...');
+  const { synapse } = await getSynapse();
+  const account = await getAccount();
+  const address = await getWalletAddress();
+  progress.succeed(`Connected with wallet: ${address}`);
+
+  let uint8ArrayBytes: Uint8Array | null = null;
+  let metadataOut: DataMetadata;
+  let smartContractData: any = null; // Store smart contract data for post-upload operations
+  let dataIdentifier: string | null = null; // Store data identifier for smart contract operations
+  let chunkedUpload: ChunkedUploadOptions | null = null; // Set when the file is streamed in pieces
+  let folderUpload: FolderUploadOptions | null = null; // Set when uploading a directory tree
+
+  // Default behavior: encrypt with public access
+  const shouldEncrypt = !options.unencrypted;
+  // Access that is sold or limited to a group must be private; public files are free to decrypt
+  const isPublic = !options.private && !options.price && !options.group && shouldEncrypt;
+
+  for (const [flag, value] of [['--expires', options.expires], ['--price', options.price], ['--group', options.group], ['--condition', options.condition]] as const) {
+    if (value && !shouldEncrypt) {
+      throw new AppError(`${flag} needs an encrypted upload`, {
+        category: ErrorCategory.VALIDATION,
+        userMessage: `Unencrypted files have no access control, so ${flag} does not apply. Remove it or encrypt the file.`,
+        exitCode: EXIT_CODES.VALIDATION_ERROR,
+        details: { [flag.slice(2)]: value }
+      });
+    }
+  }
+
+  let price: AccessPrice | null = null;
+  if (options.price) {
+    progress.start('Resolving access price...');
+    price = await resolvePrice(options.price, options.token, address);
+    progress.succeed(`Access will be sold for ${formatPrice(price)}`);
+  }
+
+  let group: Awaited<ReturnType<typeof resolveGroup>> | null = null;
+  if (options.group) {
+    progress.start('Resolving access group...');
+    group = await resolveGroup(options.group);
+    progress.succeed(`Members of ${group.name ?? group.id} will have access`);
+  }
+
+  let condition: AccessCondition | null = null;
+  if (options.condition) {
+    progress.start('Resolving access condition...');
+    condition = await resolveAccessCondition(options.condition);
+    progress.succeed(`Access condition: ${formatAccessCondition(condition)}`);
+  }
+
+  if (options.expires && !group) {
+    // Only the owner holds access right after an upload, and the owner permission is never limited
+    throw new AppError('--expires needs --group at upload', {
+      category: ErrorCategory.VALIDATION,
+      userMessage: 'At upload, --expires limits the access of the --group it is given with. To limit a wallet\'s access, use "share <cid> <address> --expires".',
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { expires: options.expires }
+    });
+  }
+
+  let expiry: AccessExpiry | null = null;
+  if (options.expires) {
+    progress.start('Resolving access expiry...');
+    expiry = await resolveExpiry(options.expires);
+    progress.succeed(`Access expires at block ${expiry.blockNumber} (~${new Date(expiry.expiresAt).toLocaleString()})`);
+  }
+
+  // Large files are never read into memory; they are streamed in chunks after storage is ready
+  const isChunked = options.chunked || fileSize > CHUNKED_UPLOAD.AUTO_THRESHOLD_BYTES;
+
+  if (folder) {
+    // Every file in the tree shares one data identifier and data key, so access is granted per folder
+    metadataOut = { name: folder.name, type: 'folder' };
+    folderUpload = { chunkSize, forceChunked: options.chunked };
+
+    if (shouldEncrypt) {
+      // Validate Lit Protocol configuration
+      validateLitConfig();
+
+      progress.start('Preparing folder encryption (data key wrapped by Lit Protocol)...');
+      try {
+        const session = await createEncryptionSession(
+          account,
+          new TextEncoder().encode(JSON.stringify({
+            ...metadataOut,
+            files: folder.files.map(file => [file.relativePath, file.size]),
+          })),
+          config.registryContractAddress!,
+          config.validationContractAddress!,
+          config.bundlerRpcUrl!,
+          condition ?? undefined,
+          debug
+        );
+        smartContractData = session.smartContractData;
+        dataIdentifier = session.dataIdentifier;
+        folderUpload.encryptBytes = session.encryptBytes;
+        folderUpload.encryption = session.encryption;
+        progress.succeed(`Folder encryption ready (${isPublic ? 'public access' : 'private access'})`);
+      } catch (encryptError) {
+        throw createEncryptionError('Failed to prepare encryption', {
+          cause: encryptError,
+          userMessage: 'Failed to prepare encryption. Please check your Lit Protocol configuration.',
+          details: { folder: folder.name }
+        });
+      }
+    }
+  } else if (isChunked) {
+    metadataOut = { name: fileName, type: 'buffer' };
+    chunkedUpload = {
+      chunkSize,
+      metadata: metadataOut,
+    };
+
+    if (shouldEncrypt) {
+      // Validate Lit Protocol configuration
+      validateLitConfig();
+
+      progress.start('Preparing chunk encryption (data key wrapped by Lit Protocol)...');
+      try {
+        const session = await createEncryptionSession(
+          account,
+          new TextEncoder().encode(JSON.stringify({ ...metadataOut, size: fileSize })),
+          config.registryContractAddress!,
+          config.validationContractAddress!,
+          config.bundlerRpcUrl!,
+          condition ?? undefined,
+          debug
+        );
+        smartContractData = session.smartContractData;
+        dataIdentifier = session.dataIdentifier;
+        chunkedUpload.encryptChunk = session.encryptBytes;
+        chunkedUpload.encryption = session.encryption;
+        progress.succeed(`Chunk encryption ready (${isPublic ? 'public access' : 'private access'})`);
+      } catch (encryptError) {
+        throw createEncryptionError('Failed to prepare encryption', {
+          cause: encryptError,
+          userMessage: 'Failed to prepare encryption. Please check your Lit Protocol configuration.',
+          details: { fileName }
+        });
+      }
+    }
+    progress.info(`  Chunked upload: ${Math.ceil(fileSize / chunkedUpload.chunkSize)} piece(s) of up to ${chunkSizeMB} MB`);
+  } else {
+    // Read file
+    progress.start('Reading file...');
+    const fileBuffer = await fs.readFile(filePath);
+    const preProcessed = await preProcess(fileBuffer, fileName);
+    const dataOut = preProcessed.dataOut;
+    metadataOut = preProcessed.metadataOut;
+    progress.succeed('File loaded');
+
+    if (shouldEncrypt) {
+      // Validate Lit Protocol configuration
+      validateLitConfig();
+
+      // Encrypt the data
+      progress.start('Encrypting file (data key wrapped by Lit Protocol)...');
+      try {
+        const encryptedPayload = await encrypt(
+          account,
+          dataOut,
+          metadataOut,
+          config.registryContractAddress!,
+          config.validationContractAddress!,
+          config.bundlerRpcUrl!,
+          condition ?? undefined,
+          debug
+        );
+
+        // Store smart contract data and data identifier for later use
+        smartContractData = encryptedPayload.smartContractData;
+        dataIdentifier = encryptedPayload.dataIdentifier;
+
+        // Encrypted body and wrapped key go into a version 2 envelope (no smart contract data)
+        uint8ArrayBytes = encodeEnvelope(
+          encryptedPayload.encryptedData,
+          encryptedPayload.metadata,
+          encryptedPayload.encryption
+        );
+        progress.succeed(`File encrypted (${isPublic ? 'public access' : 'private access'})`);
+      } catch (encryptError) {
+        throw createEncryptionError('Failed to encrypt file', {
+          cause: encryptError,
+          userMessage: 'Failed to encrypt file. Please check your Lit Protocol configuration.',
+          details: { fileName }
+        });
+      }
+    } else {
+      // Wrap the raw bytes and metadata in a binary envelope (unencrypted)
+      uint8ArrayBytes = encodeEnvelope(dataOut, metadataOut);
+    }
+  }
+
+  if (!options.skipPaymentCheck) {
+    await ensureUploadFunding(synapse, address, progress);
+  } else {
+    // Still need to check datasets for the storage service
+    progress.start('Checking datasets...');
+    const datasets = await synapse.storage.findDataSets(address);
+    const hasDataset = datasets.length > 0;
+    progress.succeed(hasDataset ? 'Dataset found' : 'No dataset found (will create)');
+  }
+
+  // Create storage service
+  progress.start('Initializing storage service...');
+  let datasetCreated = false;
+  const storageService = await synapse.createStorage({
+    callbacks: {
+      onDataSetResolved: () => {
+        progress.update('Dataset resolved');
+      },
+      onDataSetCreationStarted: () => {
+        progress.update('Creating dataset on blockchain...');
+        datasetCreated = true;
+      },
+      onDataSetCreationProgress: (status) => {
+        if (status.transactionSuccess) {
+          progress.update('Dataset transaction confirmed');
+        }
+        if (status.serverConfirmed) {
+          progress.update('Dataset ready');
+        }
+      },
+      onProviderSelected: (provider) => {
+        progress.update(`Storage provider selected: ${provider.name}`);
+      },
+    },
+  });
+  progress.succeed('Storage service ready');
+
+  // Upload file
+  progress.start('Uploading file to storage provider...');
+  let pieceCid: string;
+  let pieceCount = 1;
+
+  if (folder && folderUpload) {
+    const fileCount = folder.files.length;
+    const { manifest, manifestPieceCid } = await uploadFolder(storageService, folder, {
+      ...folderUpload,
+      onFileUploaded: (entry, uploadedFiles) => {
+        progress.update(`Uploaded ${uploadedFiles}/${fileCount}: ${entry.path}`);
+      },
+    });
+    pieceCid = manifestPieceCid;
+    pieceCount = manifest.entries.reduce((total, entry) => total + entry.pieceCount, 1);
+  } else if (chunkedUpload) {
+    const { manifest, manifestPieceCid } = await uploadChunkedFile(storageService, filePath, {
+      ...chunkedUpload,
+      onChunkUploaded: (piece, uploadedBytes) => {
+        progress.update(`Uploaded piece ${piece.index + 1} (${bytesToMB(uploadedBytes)}/${bytesToMB(fileSize)} MB)`);
+      },
+    });
+    pieceCid = manifestPieceCid;
+    pieceCount = manifest.pieces.length;
+  } else {
+    const result = await storageService.upload(uint8ArrayBytes!, {
+      onUploadComplete: () => {
+        progress.update('File uploaded! Adding to dataset...');
+      },
+      onPieceAdded: (transactionResponse) => {
+        if (transactionResponse) {
+          progress.update(`Confirming transaction: ${transactionResponse.hash}`);
+        }
+      },
+      onPieceConfirmed: () => {
+        progress.update('File added to dataset');
+      },
+    });
+    pieceCid = result.pieceCid.toV1().toString();
+  }
+
+  progress.succeed('Upload complete!');
+
+  // Deploy smart contracts after successful Filecoin upload (for encrypted files)
+  let contractsDeployed = false;
+  let contractError: string | null = null;
+  let journalEntry: JournalEntry | null = null;
+  let contractTransactions: { deployTransactionHash?: string; mintTransactionHash?: string; distributionTransactionHash?: string } = {};
+  if (shouldEncrypt && smartContractData && dataIdentifier) {
+    // Create enhanced metadata that includes the piece CID and access type
+    const metadataWithPieceCid = {
+      ...metadataOut,
+      ...options.metadata,
+      filecoinStorageInfo: {
+        pieceCid: pieceCid,
+        uploadTimestamp: new Date().toISOString(),
+        datasetCreated: datasetCreated,
+        ...(chunkedUpload && { chunked: true, pieceCount }),
+        ...(folder && { folder: true, fileCount: folder.files.length, pieceCount })
+      },
+      accessType: isPublic ? 'public' : 'private'
+    };
+
+    // Journal the upload first so `resume` can finish the on-chain steps if they fail
+    journalEntry = await startJournalEntry('upload', {
+      stage: 'uploaded',
+      ownerAddress: smartContractData.userAddress,
+      fileName,
+      pieceCid,
+      dataIdentifier,
+      accessType: isPublic ? 'public' : 'private',
+      metadata: metadataWithPieceCid,
+      ...(expiry && { timeLimitBlockNumber: expiry.blockNumber }),
+      ...(price && { distribution: { fee: price.amountRaw, tokenAddress: price.token, feeRecipient: price.feeRecipient } }),
+      ...(group && { groupContractAddress: group.contractAddress }),
+    });
+
+    progress.start('Deploying permission contracts...');
+    try {
+      const entryId = journalEntry.id;
+      contractTransactions = await deployPermissionsAndMintNFT(
+        dataIdentifier, // Use the correct data identifier from the encrypted payload
+        metadataWithPieceCid, // Pass enhanced metadata with piece CID and access type
+        smartContractData.kernelClient,
+        smartContractData.userAddress,
+        smartContractData.registryContractAddress,
+        smartContractData.validationContractAddress,
+        isPublic, // Pass public flag to control NFT minting and token quantity
+        {
+          onDeployed: async (transactionHash) => {
+            await updateJournalEntry(entryId, { stage: 'deployed', txHashes: { deploy: transactionHash } });
+          },
+          onMinted: async (transactionHash) => {
+            await updateJournalEntry(entryId, { stage: 'minted', txHashes: { mint: transactionHash } });
+          },
+        },
+        price ? { fee: BigInt(price.amountRaw), tokenAddress: price.token, feeRecipient: price.feeRecipient } : undefined,
+        group ? [groupPermission(group.contractAddress, expiry?.blockNumber)] : [],
+        debug
+      );
+      await updateJournalEntry(entryId, { stage: 'completed' });
+      contractsDeployed = true;
+      progress.succeed('Smart contracts deployed!');
+    } catch (deployError) {
+      // Don't fail the upload since the file is already on Filecoin
+      contractError = deployError instanceof Error ? deployError.message : String(deployError);
+      await updateJournalEntry(journalEntry.id, { lastError: contractError });
+      progress.fail('Smart contract deployment failed');
+    }
+  }
+
+  return {
+    name: fileName,
+    kind: folder ? 'folder' : chunkedUpload ? 'chunked' : 'file',
+    size: fileSize,
+    pieceCid,
+    pieceCount,
+    fileCount: folder ? folder.files.length : null,
+    datasetCreated,
+    encrypted: shouldEncrypt,
+    accessType: shouldEncrypt ? (isPublic ? 'public' : 'private') : null,
+    dataIdentifier,
+    expiry,
+    price,
+    group: group?.id ?? null,
+    condition,
+    contracts: {
+      status: contractsDeployed ? 'deployed' : journalEntry ? 'pending' : 'none',
+      deployTransactionHash: contractTransactions.deployTransactionHash ?? null,
+      mintTransactionHash: contractTransactions.mintTransactionHash ?? null,
+      distributionTransactionHash: contractTransactions.distributionTransactionHash ?? null,
+      journalId: journalEntry && !contractsDeployed ? journalEntry.id : null,
+      error: contractError,
+    },
+  };
+}
+
+/**
+ * Checks the USDFC balance and tops up the allowance, deposit and (for a first dataset)
+ * the storage service approval an upload needs.
+ */
+async function ensureUploadFunding(synapse: Synapse, address: string, progress: Progress): Promise<void> {
+  // Check datasets first to determine if we need dataset creation fee
+  progress.start('Checking datasets...');
+  const datasets = await synapse.storage.findDataSets(address);
+  const hasDataset = datasets.length > 0;
+  progress.succeed(hasDataset ? 'Dataset found' : 'No dataset found (will create)');
+  progress.start('Checking USDFC balance...');
+  const balance = await synapse.payments.walletBalance(TOKENS.USDFC);
+  const balanceFormatted = formatUSDFC(balance);
+
+  // Calculate minimum balance needed including potential dataset creation fee
+  const minimumBalance = hasDataset ?
+    BALANCE_THRESHOLDS.UPLOAD_MIN_BALANCE :
+    BALANCE_THRESHOLDS.UPLOAD_MIN_BALANCE + formatUSDFC(TOKEN_AMOUNTS.DATA_SET_CREATION_FEE);
+
+  if (balanceFormatted < minimumBalance) {
+    const errorMessage = hasDataset ?
+      `Insufficient USDFC balance: ${balanceFormatted} USDFC` :
+      `Insufficient USDFC balance for new dataset: ${balanceFormatted} USDFC (needs ${minimumBalance} USDFC for dataset creation fee)`;
+
+    throw createPaymentError(errorMessage, {
+      userMessage: `${errorMessage}\n${chalk.yellow('Please fund your wallet with USDFC:')}\n${chalk.yellow('Faucet: https://forest-explorer.chainsafe.dev/faucet/calibnet_usdfc')}`,
+      details: { balance: balanceFormatted, required: minimumBalance, hasDataset }
+    });
+  }
+  progress.succeed(`USDFC balance: ${balanceFormatted} USDFC`);
+
+  // Approve and deposit if needed
+  progress.start('Checking storage allowances...');
+  const paymentsAddress = synapse.getPaymentsAddress();
+  const allowance = await synapse.payments.allowance(paymentsAddress, TOKENS.USDFC);
+
+  if (allowance < TOKEN_AMOUNTS.MIN_ALLOWANCE) {
+    progress.update('Approving USDFC spending...');
+    const approveTx = await synapse.payments.approve(
+      paymentsAddress,
+      ethers.MaxUint256,
+      TOKENS.USDFC
+    );
+    await approveTx.wait();
+  }
+
+  const synapseBalance = await synapse.payments.balance(TOKENS.USDFC);
+  const minimumSynapseBalance = hasDataset ?
+    TOKEN_AMOUNTS.MIN_SYNAPSE_BALANCE :
+    TOKEN_AMOUNTS.MIN_SYNAPSE_BALANCE + TOKEN_AMOUNTS.DATA_SET_CREATION_FEE;
+
+  if (synapseBalance < minimumSynapseBalance) {
+    progress.update('Depositing USDFC to Synapse...');
+    const depositAmount = hasDataset ?
+      TOKEN_AMOUNTS.DEFAULT_DEPOSIT :
+      TOKEN_AMOUNTS.DEFAULT_DEPOSIT + TOKEN_AMOUNTS.DATA_SET_CREATION_FEE;
+    const depositTx = await synapse.payments.deposit(depositAmount, TOKENS.USDFC);
+    await depositTx.wait();
+  }
+
+  // If no dataset exists, ensure proper warm storage service approval for dataset creation
+  if (!hasDataset) {
+    progress.update('Setting up storage service for new dataset...');
+    const { WarmStorageService } = await import('@filoz/synapse-sdk/warm-storage');
+    const warmStorageService = await WarmStorageService.create(
+      synapse.getProvider(),
+      synapse.getWarmStorageAddress()
+    );
+
+    // Calculate required allowances for dataset creation
+    const storageCapacityBytes = config.storageCapacity * 1024 * 1024 * 1024; // Convert GB to bytes
+    const epochRate = BigInt(storageCapacityBytes) / TOKEN_AMOUNTS.RATE_DIVISOR;
+    const lockupAmount = epochRate * TIME_CONSTANTS.EPOCHS_PER_DAY * BigInt(config.persistencePeriod);
+    const lockupAmountWithFee = lockupAmount + TOKEN_AMOUNTS.DATA_SET_CREATION_FEE;
+
+    const approveTx = await synapse.payments.approveService(
+      synapse.getWarmStorageAddress(),
+      epochRate,
+      lockupAmountWithFee,
+      TIME_CONSTANTS.EPOCHS_PER_DAY * BigInt(config.persistencePeriod)
+    );
+    await approveTx.wait();
+  }
+  progress.succeed('Payment validated');
+}
@@ -0,0 +1,149 @@
+import { Config, withConfig } from '../config.js';
+import { errorHandler } from '../utils/errorHandler.js';
+import { applyProfile, getAppliedProfile, readProfile } from '../utils/profiles.js';
+import { uploadFiles } from './upload.js';
+import { downloadPiece } from './download.js';
+import { listFiles, shareFile, shareFileWithGroup, shareFilesBatch, revokeFileAccess, buyFile, deleteFile } from './files.js';
+import { createGroup, addGroupMembers, removeGroupMember, listGroups } from './groups.js';
+import { getBalance } from './balance.js';
+import type {
+  VaultOptions,
+  OperationOptions,
+  UploadOptions,
+  UploadResult,
+  DownloadOptions,
+  DownloadResult,
+  BuyOptions,
+  BuyResult,
+  ListOptions,
+  VaultFile,
+  ShareOptions,
+  ShareResult,
+  BatchShareTarget,
+  BatchShareResult,
+  RevokeOptions,
+  RevokeResult,
+  DeleteResult,
+  AccessGroup,
+  GroupResult,
+  BalanceResult,
+} from './types.js';
+
+/**
+ * Programmatic access to the vault: encrypted storage on Filecoin with access managed by the
+ * permissions registry. Every method resolves to a plain result object and rejects with an
+ * `AppError`; nothing is printed unless `debug` is set, and the process is never exited.
+ * Warnings go to `onProgress` with the `warn` stage.
+ *
+ * Settings default to the environment (.env) and the active configuration profile, like the
+ * CLI; `options` override both for this vault's calls only. The wallet and Synapse connection
+ * are shared by the whole process, so use one wallet per process.
+ */
+export class SynapseVault {
+  private readonly debug: boolean;
+  private readonly settings: Partial<Config>;
+
+  constructor(options: VaultOptions = {}) {
+    const { debug, profile, ...overrides } = options;
+    // The CLI applies --profile before constructing a vault; keep that selection
+    if (!profile && !getAppliedProfile()) {
+      applyProfile();
+    }
+    this.settings = {
+      ...(profile && readProfile(profile)),
+      ...Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined)),
+    };
+    this.debug = debug ?? process.env.DEBUG === 'true';
+  }
+
+  /**
+   * Uploads a file, or a folder when given a directory, glob pattern or several paths.
+   * Encrypted with public access unless `private` or `unencrypted` is set.
+   */
+  upload(paths: string | string[], options: UploadOptions = {}): Promise<UploadResult> {
+    return this.run(() => uploadFiles(Array.isArray(paths) ? paths : [paths], options, this.debug));
+  }
+
+  download(pieceCid: string, options: DownloadOptions = {}): Promise<DownloadResult> {
+    return this.run(() => downloadPiece(pieceCid, options, undefined, this.debug));
+  }
+
+  /**
+   * Pays the price of a file someone else sells to mint an access NFT, then downloads it like
+   * `download`. Nothing is paid when the wallet already has access.
+   */
+  buy(pieceCid: string, options: BuyOptions = {}): Promise<BuyResult> {
+    return this.run(() => buyFile(pieceCid, options, this.debug));
+  }
+
+  list(options: ListOptions = {}): Promise<VaultFile[]> {
+    return this.run(() => listFiles(options, this.debug));
+  }
+
+  share(pieceCid: string, recipient: string, options: ShareOptions = {}): Promise<ShareResult> {
+    return this.run(() => shareFile(pieceCid, recipient, options, this.debug));
+  }
+
+  /**
+   * Shares one file (`{ pieceCid }`) or every private file whose name matches a glob
+   * (`{ match }`) with many recipients, in as few user operations as possible.
+   */
+  shareBatch(target: BatchShareTarget, recipients: string[], options: ShareOptions = {}): Promise<BatchShareResult> {
+    return this.run(() => shareFilesBatch(target, recipients, options, this.debug));
+  }
+
+  /**
+   * Binds a private file to an access group (name or identifier), so every member can decrypt it.
+   */
+  shareWithGroup(pieceCid: string, group: string, options: ShareOptions = {}): Promise<ShareResult> {
+    return this.run(() => shareFileWithGroup(pieceCid, group, options, this.debug));
+  }
+
+  /**
+   * Takes access away from `holder`. With `rotate` the file is also re-encrypted under a new
+   * data identifier, so old copies of the ciphertext no longer decrypt for anyone.
+   */
+  revoke(pieceCid: string, holder: string, options: RevokeOptions = {}): Promise<RevokeResult> {
+    return this.run(() => revokeFileAccess(pieceCid, holder, options, this.debug));
+  }
+
+  delete(pieceCid: string, options: OperationOptions = {}): Promise<DeleteResult> {
+    return this.run(() => deleteFile(pieceCid, options, this.debug));
+  }
+
+  createGroup(name: string, options: OperationOptions = {}): Promise<GroupResult> {
+    return this.run(() => createGroup(name, options, this.debug));
+  }
+
+  addGroupMembers(group: string, members: string[], options: OperationOptions = {}): Promise<GroupResult> {
+    return this.run(() => addGroupMembers(group, members, options, this.debug));
+  }
+
+  /**
+   * Removes a member. The group gets a new contract, and the wallet's files bound to the
+   * group are moved to it.
+   */
+  removeGroupMember(group: string, member: string, options: OperationOptions = {}): Promise<GroupResult> {
+    return this.run(() => removeGroupMember(group, member, options, this.debug));
+  }
+
+  listGroups(options: OperationOptions = {}): Promise<AccessGroup[]> {
+    return this.run(() => listGroups(options));
+  }
+
+  balance(options: OperationOptions = {}): Promise<BalanceResult> {
+    return this.run(() => getBalance(options));
+  }
+
+  /**
+   * Runs an operation with this vault's settings and rejects with an `AppError` whatever the
+   * underlying libraries threw.
+   */
+  private async run<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await withConfig(this.settings, operation);
+    } catch (error) {
+      throw errorHandler.normalizeError(error);
+    }
+  }
+}
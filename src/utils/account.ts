@@ -0,0 +1,91 @@
+import inquirer from 'inquirer';
+import { privateKeyToAccount, PrivateKeyAccount } from 'viem/accounts';
+import { config, validateConfig } from '../config.js';
+import { createConfigError } from './errorHandler.js';
+import { getActiveWalletName, getKeystoreAddress, unlockKeystore, toWallet } from './keystore.js';
+
+let unlocked: { privateKey: `0x${string}`; account: PrivateKeyAccount } | null = null;
+
+/**
+ * The signing account every command uses. PRIVATE_KEY (or a `privateKey` library override)
+ * wins; otherwise the active keystore is unlocked with SYNAPSE_KEYSTORE_PASSWORD or, on a
+ * terminal, a passphrase prompt. The key is unlocked once per process.
+ */
+export async function getAccount(): Promise<PrivateKeyAccount> {
+  return (await unlock()).account;
+}
+
+/**
+ * The signer's 0x-prefixed private key, for libraries that take a raw key (ethers).
+ */
+export async function getPrivateKey(): Promise<`0x${string}`> {
+  return (await unlock()).privateKey;
+}
+
+/**
+ * Address of the signing account. Keystore addresses are read without unlocking them.
+ */
+export async function getWalletAddress(): Promise<string> {
+  validateConfig();
+  if (unlocked) {
+    return unlocked.account.address;
+  }
+  if (config.privateKey) {
+    return toWallet(config.privateKey).address;
+  }
+  return getKeystoreAddress(await requireWalletName());
+}
+
+async function unlock(): Promise<{ privateKey: `0x${string}`; account: PrivateKeyAccount }> {
+  if (unlocked) {
+    return unlocked;
+  }
+  validateConfig();
+
+  let privateKey: `0x${string}`;
+  if (config.privateKey) {
+    privateKey = toWallet(config.privateKey).privateKey as `0x${string}`;
+  } else {
+    const name = await requireWalletName();
+    privateKey = await unlockKeystore(name, config.keystorePassword ?? await promptPassphrase(name));
+  }
+
+  unlocked = { privateKey, account: privateKeyToAccount(privateKey) };
+  return unlocked;
+}
+
+async function requireWalletName(): Promise<string> {
+  const name = await getActiveWalletName();
+  if (!name) {
+    throw createConfigError('No active wallet', {
+      userMessage: 'Several wallets are stored. Choose one with "wallet use <name>" or set SYNAPSE_WALLET.'
+    });
+  }
+  return name;
+}
+
+/**
+ * Asks for the passphrase on stderr, so stdout stays clean for --json output.
+ */
+export async function promptPassphrase(name: string, confirm = false): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw createConfigError('Keystore passphrase required', {
+      userMessage: `Wallet "${name}" is encrypted. Set SYNAPSE_KEYSTORE_PASSWORD to unlock it without a terminal.`,
+      details: { wallet: name }
+    });
+  }
+
+  const prompt = inquirer.createPromptModule({ output: process.stderr });
+  const { passphrase } = await prompt([
+    { type: 'password', name: 'passphrase', mask: '*', message: `Passphrase for wallet "${name}":` },
+  ]);
+  if (confirm) {
+    const { repeated } = await prompt([
+      { type: 'password', name: 'repeated', mask: '*', message: 'Repeat the passphrase:' },
+    ]);
+    if (repeated !== passphrase) {
+      throw createConfigError('Passphrases do not match', { userMessage: 'The passphrases do not match.' });
+    }
+  }
+  return passphrase;
+}
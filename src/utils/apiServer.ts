@@ -0,0 +1,302 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { createHash, timingSafeEqual } from 'crypto';
+import { isAddress } from 'viem';
+import { SynapseVault } from '../sdk/index.js';
+import type { ProgressListener } from '../sdk/index.js';
+import { AppError, ErrorCategory, errorHandler } from './errorHandler.js';
+import { toErrorObject } from './output.js';
+import { createSerialQueue } from './serialQueue.js';
+import { resolveAccessCondition } from './conditions.js';
+import { API_SERVER, EXIT_CODES } from '../constants.js';
+
+export interface ApiServerOptions {
+  token?: string;                 // Bearer token every request must carry; no token disables auth
+  debug?: boolean;
+  onProgress?: ProgressListener;
+  onRequest?: (method: string, url: string, status: number, durationMs: number) => void;
+}
+
+interface RequestContext {
+  request: IncomingMessage;
+  response: ServerResponse;
+  url: URL;
+  params: Record<string, string>;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: (context: RequestContext) => Promise<void>;
+}
+
+const STATUS_BY_CATEGORY: Record<ErrorCategory, number> = {
+  [ErrorCategory.VALIDATION]: 400,
+  [ErrorCategory.PAYMENT]: 402,
+  [ErrorCategory.PERMISSION]: 403,
+  [ErrorCategory.FILE]: 404,
+  [ErrorCategory.NETWORK]: 502,
+  [ErrorCategory.CONTRACT]: 502,
+  [ErrorCategory.CONFIG]: 500,
+  [ErrorCategory.ENCRYPTION]: 500,
+  [ErrorCategory.UNKNOWN]: 500,
+};
+
+/**
+ * Builds the HTTP server behind `serve`. Every route runs the same `SynapseVault` operation as
+ * the matching CLI command and answers with the `--json` result object. Upload bodies and
+ * downloaded files are streamed through a temporary directory instead of being buffered.
+ */
+export function createApiServer(options: ApiServerOptions = {}): http.Server {
+  const vault = new SynapseVault({ debug: options.debug });
+  const onProgress = options.onProgress;
+
+  // Operations share one wallet, so they run one at a time to keep transaction nonces in order
+  const exclusive = createSerialQueue();
+
+  const routes: Route[] = [
+    {
+      method: 'POST',
+      pattern: /^\/files$/,
+      handler: async ({ request, response, url }) => {
+        const name = path.basename(url.searchParams.get('name') || headerValue(request, 'x-file-name') || '');
+        if (!name || name === '.' || name === '..') {
+          throw validationError('Missing file name', 'Pass the file name as ?name=<name> or an X-File-Name header.');
+        }
+        const chunkSize = url.searchParams.get('chunkSize');
+        // A condition sent over HTTP is inline JSON or an expression, never a path on this machine
+        const conditionValue = url.searchParams.get('condition');
+        const condition = conditionValue ? JSON.stringify(await resolveAccessCondition(conditionValue, { allowFile: false })) : undefined;
+
+        await withTempDir(async (dir) => {
+          const filePath = path.join(dir, name);
+          await pipeline(request, fs.createWriteStream(filePath));
+
+          const result = await exclusive(() => vault.upload(filePath, {
+            private: flag(url, 'private'),
+            unencrypted: flag(url, 'unencrypted'),
+            chunked: flag(url, 'chunked'),
+            chunkSizeMB: chunkSize ? Number(chunkSize) : undefined,
+            skipPaymentCheck: flag(url, 'skipPaymentCheck'),
+            expires: url.searchParams.get('expires') || undefined,
+            price: url.searchParams.get('price') || undefined,
+            token: url.searchParams.get('token') || undefined,
+            group: url.searchParams.get('group') || undefined,
+            condition,
+            onProgress,
+          }));
+          sendJson(response, 201, { ok: true, command: 'upload', data: result });
+        });
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/files$/,
+      handler: async ({ response, url }) => {
+        const files = await exclusive(() => vault.list({ offline: flag(url, 'offline'), expiry: flag(url, 'expiry'), onProgress }));
+        const items = files.map(({ metadata, ...summary }) => summary);
+        sendJson(response, 200, { ok: true, command: 'list', data: { total: items.length, items } });
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/files\/(?<pieceCid>[^/]+)$/,
+      handler: async ({ response, params }) => {
+        await withTempDir(async (dir) => {
+          const result = await exclusive(() => vault.download(params.pieceCid, { outputDir: dir, onProgress }));
+          if (result.kind === 'folder') {
+            throw validationError('Folder downloads are not supported', 'This piece is a folder manifest. Download folders with the CLI "download" command.');
+          }
+
+          response.writeHead(200, {
+            'Content-Type': 'application/octet-stream',
+            'Content-Length': result.size,
+            'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(path.basename(result.path))}`,
+            'X-Piece-Cid': result.pieceCid,
+            'X-Decrypted': String(result.decrypted),
+            ...(result.sha256 && { 'X-Sha256': result.sha256 }),
+          });
+          await pipeline(fs.createReadStream(result.path), response);
+        });
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/files\/(?<pieceCid>[^/]+)\/share$/,
+      handler: async ({ request, response, params }) => {
+        const body = await readJsonBody(request);
+        const expires = typeof body.expires === 'string' ? body.expires : undefined;
+        if (typeof body.group === 'string' && body.group) {
+          const result = await exclusive(() => vault.shareWithGroup(params.pieceCid, body.group, { expires, onProgress }));
+          sendJson(response, 200, { ok: true, command: 'share', data: result });
+          return;
+        }
+        if (Array.isArray(body.recipients)) {
+          const result = await exclusive(() => vault.shareBatch({ pieceCid: params.pieceCid }, body.recipients.map(String), { expires, onProgress }));
+          sendJson(response, 200, { ok: true, command: 'share', data: result });
+          return;
+        }
+        if (typeof body.recipient !== 'string' || !isAddress(body.recipient)) {
+          throw validationError('Invalid recipient', 'The request body must be JSON with a "recipient" wallet address, a "recipients" list or a "group".');
+        }
+        const result = await exclusive(() => vault.share(params.pieceCid, body.recipient, { expires, onProgress }));
+        sendJson(response, 200, { ok: true, command: 'share', data: result });
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/files\/(?<pieceCid>[^/]+)\/revoke$/,
+      handler: async ({ request, response, params }) => {
+        const body = await readJsonBody(request);
+        if (typeof body.holder !== 'string' || !isAddress(body.holder)) {
+          throw validationError('Invalid holder', 'The request body must be JSON with a "holder" wallet address.');
+        }
+        const result = await exclusive(() => vault.revoke(params.pieceCid, body.holder, { rotate: body.rotate === true, onProgress }));
+        sendJson(response, 200, { ok: true, command: 'revoke', data: result });
+      },
+    },
+    {
+      method: 'DELETE',
+      pattern: /^\/files\/(?<pieceCid>[^/]+)$/,
+      handler: async ({ response, params }) => {
+        const result = await exclusive(() => vault.delete(params.pieceCid, { onProgress }));
+        sendJson(response, 200, { ok: true, command: 'delete', data: result });
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/balance$/,
+      handler: async ({ response }) => {
+        const result = await exclusive(() => vault.balance({ onProgress }));
+        sendJson(response, 200, { ok: true, command: 'balance', data: result });
+      },
+    },
+  ];
+
+  return http.createServer(async (request, response) => {
+    const startedAt = Date.now();
+    response.on('finish', () => options.onRequest?.(request.method || '', request.url || '', response.statusCode, Date.now() - startedAt));
+
+    if (options.token && !isAuthorized(request, options.token)) {
+      response.setHeader('WWW-Authenticate', 'Bearer');
+      sendError(response, new AppError('Unauthorized', {
+        category: ErrorCategory.PERMISSION,
+        userMessage: 'Missing or invalid bearer token.',
+        exitCode: EXIT_CODES.PERMISSION_ERROR,
+      }), 401);
+      return;
+    }
+
+    try {
+      const url = new URL(request.url || '/', 'http://localhost');
+      for (const route of routes) {
+        const match = route.method === request.method ? route.pattern.exec(url.pathname) : null;
+        if (match) {
+          const params = Object.fromEntries(Object.entries(match.groups ?? {}).map(([key, value]) => [key, decodeParam(value)]));
+          await route.handler({ request, response, url, params });
+          return;
+        }
+      }
+
+      sendError(response, new AppError(`No route for ${request.method} ${url.pathname}`, {
+        category: ErrorCategory.VALIDATION,
+        userMessage: `Unknown endpoint: ${request.method} ${url.pathname}`,
+        exitCode: EXIT_CODES.VALIDATION_ERROR,
+      }), 404);
+    } catch (error) {
+      const appError = errorHandler.normalizeError(error);
+      if (options.debug) {
+        console.error('[DEBUG] Request failed:', error);
+      }
+      sendError(response, appError, STATUS_BY_CATEGORY[appError.category]);
+    }
+  });
+}
+
+/**
+ * Compares digests so the check takes the same time however much of the token matches.
+ */
+function isAuthorized(request: IncomingMessage, token: string): boolean {
+  const [scheme, presented] = (request.headers.authorization || '').split(' ');
+  if (scheme !== 'Bearer' || !presented) {
+    return false;
+  }
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(presented), digest(token));
+}
+
+async function withTempDir(task: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await fsp.mkdtemp(path.join(os.tmpdir(), API_SERVER.TEMP_DIR_PREFIX));
+  try {
+    await task(dir);
+  } finally {
+    await fsp.rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<Record<string, any>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > API_SERVER.MAX_JSON_BODY_BYTES) {
+      throw validationError('Request body too large', `JSON bodies are limited to ${API_SERVER.MAX_JSON_BODY_BYTES} bytes.`);
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+    return body && typeof body === 'object' ? body : {};
+  } catch {
+    throw validationError('Invalid JSON body', 'The request body is not valid JSON.');
+  }
+}
+
+function sendJson(response: ServerResponse, status: number, body: Record<string, any>): void {
+  const json = JSON.stringify(body, (_key, item) => (typeof item === 'bigint' ? item.toString() : item));
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(json);
+}
+
+function sendError(response: ServerResponse, error: AppError, status: number): void {
+  if (response.headersSent) {
+    // A download failed mid-stream; the client sees a truncated body
+    response.destroy(error);
+    return;
+  }
+  sendJson(response, status, { ok: false, error: toErrorObject(error) });
+}
+
+function flag(url: URL, name: string): boolean {
+  const value = url.searchParams.get(name);
+  return value !== null && value !== 'false' && value !== '0';
+}
+
+function headerValue(request: IncomingMessage, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Decodes a path segment; a malformed escape such as `%E0` is the client's error, not a 500.
+ */
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw validationError(`Malformed path segment: ${value}`, `"${value}" is not a valid URL-encoded path segment.`);
+  }
+}
+
+function validationError(message: string, userMessage: string): AppError {
+  return new AppError(message, {
+    category: ErrorCategory.VALIDATION,
+    userMessage,
+    exitCode: EXIT_CODES.VALIDATION_ERROR,
+  });
+}
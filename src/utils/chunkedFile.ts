@@ -0,0 +1,209 @@
+import fs from 'fs/promises';
+import { createHash } from 'crypto';
+import { SIZE_CONSTANTS } from '@filoz/synapse-sdk';
+import type { Synapse, StorageService } from '@filoz/synapse-sdk';
+import { DataMetadata } from './types.js';
+import { EnvelopeEncryption, encodeEnvelope } from './envelope.js';
+import { preProcess } from './keypo.js';
+import { createFileError } from './errorHandler.js';
+import { hashData } from './hashData.js';
+import { CHUNKED_UPLOAD } from '../constants.js';
+
+export interface ManifestPiece {
+  index: number;
+  pieceCid: string;
+  size: number;           // Bytes stored on Filecoin for this piece
+  plaintextSize: number;  // Bytes of the original file covered by this piece
+  sha256: string;         // Hash of the plaintext chunk
+  paddingSize?: number;   // Zero bytes appended so the piece meets Synapse's minimum upload size
+}
+
+export interface ChunkedManifest {
+  kind: typeof CHUNKED_UPLOAD.MANIFEST_KIND;
+  version: number;
+  metadata: DataMetadata;
+  totalSize: number;
+  chunkSize: number;
+  sha256: string;         // Hash of the whole original file
+  encrypted: boolean;
+  dataIdentifier?: string;
+  accessControlConditions?: any;
+  encryption?: EnvelopeEncryption; // Version 2: chunks are local AES-GCM bodies under this wrapped key
+  pieces: ManifestPiece[];
+}
+
+/**
+ * Per-chunk Lit ciphertext written by version 1 manifests.
+ */
+export interface EncryptedChunk {
+  ciphertext: string;
+  dataToEncryptHash: string;
+}
+
+export interface ChunkedUploadOptions {
+  chunkSize: number;
+  metadata: DataMetadata;
+  encryptChunk?: (data: Uint8Array) => Promise<Uint8Array>;
+  encryption?: EnvelopeEncryption;
+  onChunkUploaded?: (piece: ManifestPiece, uploadedBytes: number) => void;
+}
+
+export interface ChunkedDownloadOptions {
+  decryptChunk?: (pieceBytes: Uint8Array) => Promise<Uint8Array>;
+  onChunkDownloaded?: (piece: ManifestPiece, writtenBytes: number) => void;
+}
+
+/**
+ * Reads a file sequentially in fixed-size chunks without loading it into memory.
+ */
+export async function* readFileChunks(filePath: string, chunkSize: number): AsyncGenerator<Uint8Array> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    while (true) {
+      const buffer = Buffer.alloc(chunkSize);
+      const { bytesRead } = await handle.read(buffer, 0, chunkSize, null);
+      if (bytesRead === 0) {
+        break;
+      }
+      yield buffer.subarray(0, bytesRead);
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Uploads a file piece by piece to a single storage context, then uploads the ordered
+ * manifest describing those pieces. The manifest's piece CID addresses the whole file.
+ * Encrypted files get their manifest stored in an encrypted envelope under the same key.
+ */
+export async function uploadChunkedFile(
+  storageService: StorageService,
+  filePath: string,
+  options: ChunkedUploadOptions
+): Promise<{ manifest: ChunkedManifest; manifestPieceCid: string }> {
+  const pieces: ManifestPiece[] = [];
+  const fileHash = createHash('sha256');
+  let uploadedBytes = 0;
+
+  for await (const chunk of readFileChunks(filePath, options.chunkSize)) {
+    fileHash.update(chunk);
+
+    const pieceBytes = options.encryptChunk ? await options.encryptChunk(chunk) : chunk;
+    // A short last chunk (or a small file uploaded with --chunked) would be rejected by Synapse
+    const paddingSize = Math.max(0, SIZE_CONSTANTS.MIN_UPLOAD_SIZE - pieceBytes.length);
+
+    const { pieceCid, size } = await storageService.upload(paddingSize > 0 ? padBytes(pieceBytes, paddingSize) : pieceBytes);
+    uploadedBytes += chunk.length;
+
+    const piece: ManifestPiece = {
+      index: pieces.length,
+      pieceCid: pieceCid.toV1().toString(),
+      size,
+      plaintextSize: chunk.length,
+      sha256: hashData(chunk),
+      ...(paddingSize > 0 && { paddingSize }),
+    };
+    pieces.push(piece);
+    options.onChunkUploaded?.(piece, uploadedBytes);
+  }
+
+  const manifest: ChunkedManifest = {
+    kind: CHUNKED_UPLOAD.MANIFEST_KIND,
+    version: CHUNKED_UPLOAD.MANIFEST_VERSION,
+    metadata: options.metadata,
+    totalSize: uploadedBytes,
+    chunkSize: options.chunkSize,
+    sha256: fileHash.digest('hex'),
+    encrypted: !!options.encryptChunk,
+    dataIdentifier: options.encryption?.dataIdentifier,
+    accessControlConditions: options.encryption?.accessControlConditions,
+    encryption: options.encryption,
+    pieces,
+  };
+
+  // The manifest holds plaintext hashes and metadata, so an encrypted file's manifest is encrypted too
+  let manifestBytes: Uint8Array;
+  if (options.encryptChunk) {
+    const { dataOut, metadataOut } = await preProcess(manifest, options.metadata.name);
+    manifestBytes = encodeEnvelope(await options.encryptChunk(dataOut), metadataOut, options.encryption);
+  } else {
+    manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+  }
+  const { pieceCid } = await storageService.upload(manifestBytes);
+
+  return { manifest, manifestPieceCid: pieceCid.toV1().toString() };
+}
+
+/**
+ * Checks whether a parsed JSON payload is a chunked manifest.
+ */
+export function isChunkedManifest(json: any): json is ChunkedManifest {
+  return !!json && json.kind === CHUNKED_UPLOAD.MANIFEST_KIND && Array.isArray(json.pieces);
+}
+
+/**
+ * Downloads every piece of a manifest in order and streams it to the output file,
+ * verifying each chunk and the reassembled file against the recorded hashes.
+ */
+export async function downloadChunkedFile(
+  synapse: Synapse,
+  manifest: ChunkedManifest,
+  outputPath: string,
+  options: ChunkedDownloadOptions = {}
+): Promise<number> {
+  if (manifest.version > CHUNKED_UPLOAD.MANIFEST_VERSION) {
+    throw createFileError(`Unsupported manifest version: ${manifest.version}`, {
+      userMessage: 'This file was written by a newer version of synapse-cli. Please upgrade to download it.',
+      details: { version: manifest.version, supported: CHUNKED_UPLOAD.MANIFEST_VERSION }
+    });
+  }
+  if (manifest.encrypted && !options.decryptChunk) {
+    throw createFileError('Encrypted manifest requires a decryption session', {
+      details: { dataIdentifier: manifest.dataIdentifier }
+    });
+  }
+
+  const pieces = [...manifest.pieces].sort((a, b) => a.index - b.index);
+  const fileHash = createHash('sha256');
+  const handle = await fs.open(outputPath, 'w');
+  let writtenBytes = 0;
+
+  try {
+    for (const piece of pieces) {
+      const downloaded = await synapse.storage.download(piece.pieceCid);
+      const pieceBytes = piece.paddingSize ? downloaded.subarray(0, downloaded.length - piece.paddingSize) : downloaded;
+
+      const chunk = manifest.encrypted ? await options.decryptChunk!(pieceBytes) : pieceBytes;
+
+      if (hashData(chunk) !== piece.sha256) {
+        throw createFileError(`Chunk ${piece.index} failed integrity check`, {
+          userMessage: `Downloaded chunk ${piece.index + 1}/${pieces.length} is corrupted.`,
+          details: { pieceCid: piece.pieceCid, index: piece.index }
+        });
+      }
+
+      await handle.write(chunk);
+      fileHash.update(chunk);
+      writtenBytes += chunk.length;
+      options.onChunkDownloaded?.(piece, writtenBytes);
+    }
+  } finally {
+    await handle.close();
+  }
+
+  if (fileHash.digest('hex') !== manifest.sha256) {
+    throw createFileError('Reassembled file failed integrity check', {
+      userMessage: 'The reassembled file does not match the uploaded file.',
+      details: { outputPath, expected: manifest.sha256 }
+    });
+  }
+
+  return writtenBytes;
+}
+
+function padBytes(bytes: Uint8Array, paddingSize: number): Uint8Array {
+  const padded = new Uint8Array(bytes.length + paddingSize);
+  padded.set(bytes);
+  return padded;
+}
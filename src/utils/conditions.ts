@@ -0,0 +1,487 @@
+import fs from 'fs/promises';
+import yaml from 'js-yaml';
+import { createPublicClient, http, erc20Abi, erc721Abi, erc1155Abi, isAddress, parseUnits } from 'viem';
+import { LIT_CHAINS, LitEVMChainKeys } from '@lit-protocol/constants';
+import { AppError, ErrorCategory } from './errorHandler.js';
+import { getRegistryChain } from './registryChain.js';
+import { EXIT_CODES } from '../constants.js';
+import type { AccessCondition } from '../sdk/types.js';
+
+type Leaf = Exclude<AccessCondition, { and: AccessCondition[] } | { or: AccessCondition[] }>;
+
+/**
+ * Reads `--condition`: inline JSON, the path of a JSON or YAML file, or an expression such as
+ * `registry and (erc20:0xToken:100 or erc721:0xNft)`. The result is validated, token
+ * decimals and chains are filled in, and the registry check is added with AND unless the
+ * condition already names `registry`. With `allowFile: false` (values from the HTTP API)
+ * nothing is read from disk.
+ */
+export async function resolveAccessCondition(value: string, options: { allowFile?: boolean } = {}): Promise<AccessCondition> {
+  const condition = normalize(await readCondition(value.trim(), options.allowFile ?? true), value);
+  const resolved = await fillIn(condition, value);
+  return mentionsRegistry(resolved) ? resolved : { and: [{ type: 'registry' }, resolved] };
+}
+
+/**
+ * Compiles a condition into Lit unified access control conditions. `registryCondition` is
+ * the file's checkPermission condition; groups become nested arrays with one operator.
+ */
+export function compileAccessCondition(condition: AccessCondition, registryCondition: object): any[] {
+  const compiled = compileNode(condition, registryCondition);
+  return Array.isArray(compiled) ? compiled : [compiled];
+}
+
+/**
+ * The registry checkPermission condition inside compiled conditions, wherever it is nested.
+ */
+export function findRegistryCondition(accs: any): any | null {
+  if (Array.isArray(accs)) {
+    for (const item of accs) {
+      const found = findRegistryCondition(item);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  }
+  return accs?.conditionType === 'evmContract' && accs.functionName === 'checkPermission' ? accs : null;
+}
+
+/**
+ * Checks compiled conditions for `address` the way Lit nodes would and describes each one,
+ * so a failed decryption can say which condition was not met. Conditions on chains other
+ * than the registry chain are listed but not checked.
+ */
+export async function explainAccessConditions(accs: any[], address: string): Promise<{ passed: boolean | null; lines: string[] }> {
+  const lines: string[] = [];
+  const passed = await explainGroup(accs, address, 0, lines);
+  return { passed, lines };
+}
+
+/**
+ * Writes a condition back as an expression, e.g. for printing it after an upload.
+ */
+export function formatAccessCondition(condition: AccessCondition, nested = false): string {
+  if ('and' in condition || 'or' in condition) {
+    const operator = 'and' in condition ? 'and' : 'or';
+    const children = 'and' in condition ? condition.and : condition.or;
+    const text = children.map(child => formatAccessCondition(child, true)).join(` ${operator} `);
+    return nested && children.length > 1 ? `(${text})` : text;
+  }
+
+  const chain = 'chain' in condition && condition.chain && condition.chain !== getRegistryChain().litChain ? `@${condition.chain}` : '';
+  switch (condition.type) {
+    case 'registry':
+      return 'registry';
+    case 'erc20':
+      return `erc20:${condition.token}:${condition.minBalance}${chain}`;
+    case 'erc721':
+      return `erc721:${condition.contract}${condition.tokenId ? `:${condition.tokenId}` : ''}${chain}`;
+    case 'erc1155':
+      return `erc1155:${condition.contract}:${condition.tokenId}${condition.minBalance ? `:${condition.minBalance}` : ''}${chain}`;
+    case 'wallets':
+      return `wallets:${condition.addresses.join(',')}`;
+  }
+}
+
+async function readCondition(value: string, allowFile: boolean): Promise<unknown> {
+  if (value.startsWith('{')) {
+    return parseJson(value, value);
+  }
+
+  let raw: string | null = null;
+  try {
+    raw = allowFile ? await fs.readFile(value, 'utf8') : null;
+  } catch (error: any) {
+    if (error.code !== 'ENOENT' && error.code !== 'ENAMETOOLONG') {
+      throw error;
+    }
+  }
+  if (raw !== null) {
+    return /\.ya?ml$/i.test(value) ? parseYaml(raw, value) : parseJson(raw, value);
+  }
+  return parseExpression(value);
+}
+
+function parseJson(raw: string, value: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw invalidCondition(value, 'It is not valid JSON.', error);
+  }
+}
+
+function parseYaml(raw: string, value: string): unknown {
+  try {
+    // Every scalar stays a string, so unquoted addresses are not read as hex numbers
+    return yaml.load(raw, { schema: yaml.FAILSAFE_SCHEMA });
+  } catch (error) {
+    throw invalidCondition(value, 'It is not valid YAML.', error);
+  }
+}
+
+/**
+ * Expression syntax: atoms joined with `and` / `or` (`and` binds tighter) and parentheses.
+ * Atoms are `registry`, `erc20:<token>:<min>`, `erc721:<contract>[:<tokenId>]`,
+ * `erc1155:<contract>:<tokenId>[:<min>]` and `wallets:<address>,<address>`, optionally
+ * followed by `@<chain>`.
+ */
+function parseExpression(value: string): AccessCondition {
+  const tokens = value.match(/\(|\)|[^\s()]+/g) ?? [];
+  let position = 0;
+
+  const parseOperator = (operator: 'and' | 'or', parseOperand: () => AccessCondition): AccessCondition => {
+    const operands = [parseOperand()];
+    while (tokens[position]?.toLowerCase() === operator) {
+      position++;
+      operands.push(parseOperand());
+    }
+    return operands.length === 1 ? operands[0] : (operator === 'and' ? { and: operands } : { or: operands });
+  };
+  const parseOr = (): AccessCondition => parseOperator('or', () => parseOperator('and', parsePrimary));
+  const parsePrimary = (): AccessCondition => {
+    const token = tokens[position++];
+    if (token === '(') {
+      const inner = parseOr();
+      if (tokens[position++] !== ')') {
+        throw invalidCondition(value, 'A parenthesis is not closed.');
+      }
+      return inner;
+    }
+    if (!token || token === ')' || /^(and|or)$/i.test(token)) {
+      throw invalidCondition(value, token ? `Unexpected "${token}".` : 'The expression ends too early.');
+    }
+    return parseAtom(token, value);
+  };
+
+  const condition = parseOr();
+  if (position < tokens.length) {
+    throw invalidCondition(value, `Unexpected "${tokens[position]}".`);
+  }
+  return condition;
+}
+
+function parseAtom(token: string, value: string): AccessCondition {
+  const at = token.lastIndexOf('@');
+  const chain = at > 0 ? token.slice(at + 1) : undefined;
+  const [kind, ...args] = (at > 0 ? token.slice(0, at) : token).split(':');
+
+  switch (kind.toLowerCase()) {
+    case 'registry':
+      return { type: 'registry' };
+    case 'erc20':
+      return { type: 'erc20', token: args[0], minBalance: args[1], chain };
+    case 'erc721':
+      return { type: 'erc721', contract: args[0], tokenId: args[1], chain };
+    case 'erc1155':
+      return { type: 'erc1155', contract: args[0], tokenId: args[1], minBalance: args[2], chain };
+    case 'wallets':
+      return { type: 'wallets', addresses: (args[0] ?? '').split(',').filter(Boolean) };
+    default:
+      throw invalidCondition(value, `Unknown condition "${token}". Use registry, erc20, erc721, erc1155 or wallets.`);
+  }
+}
+
+/**
+ * Validates a parsed condition and keeps only the fields it uses.
+ */
+function normalize(node: any, value: string): AccessCondition {
+  if (node && typeof node === 'object' && !Array.isArray(node) && ('and' in node || 'or' in node)) {
+    const operator = 'and' in node ? 'and' : 'or';
+    const children = node[operator];
+    if (!Array.isArray(children) || children.length === 0) {
+      throw invalidCondition(value, `"${operator}" must be a non-empty list of conditions.`);
+    }
+    const normalized = children.map((child: unknown) => normalize(child, value));
+    return operator === 'and' ? { and: normalized } : { or: normalized };
+  }
+
+  const chain = node?.chain === undefined ? undefined : resolveChain(String(node.chain), value);
+  switch (node?.type) {
+    case 'registry':
+      return { type: 'registry' };
+    case 'erc20':
+      return {
+        type: 'erc20',
+        token: address(node.token, 'erc20 token', value),
+        minBalance: amount(node.minBalance, 'erc20 minimum balance', value),
+        ...(node.decimals !== undefined && { decimals: integer(node.decimals, 'erc20 decimals', value) }),
+        ...(chain && { chain }),
+      };
+    case 'erc721':
+      return {
+        type: 'erc721',
+        contract: address(node.contract, 'erc721 contract', value),
+        ...(node.tokenId !== undefined && { tokenId: tokenId(node.tokenId, value) }),
+        ...(chain && { chain }),
+      };
+    case 'erc1155':
+      return {
+        type: 'erc1155',
+        contract: address(node.contract, 'erc1155 contract', value),
+        tokenId: tokenId(node.tokenId, value),
+        ...(node.minBalance !== undefined && { minBalance: integer(node.minBalance, 'erc1155 minimum balance', value).toString() }),
+        ...(chain && { chain }),
+      };
+    case 'wallets': {
+      if (!Array.isArray(node.addresses) || node.addresses.length === 0) {
+        throw invalidCondition(value, 'wallets needs at least one address.');
+      }
+      return { type: 'wallets', addresses: node.addresses.map((entry: unknown) => address(entry, 'wallet', value)) };
+    }
+    default:
+      throw invalidCondition(value, 'Each condition needs a type (registry, erc20, erc721, erc1155 or wallets), or "and" / "or" with a list of conditions.');
+  }
+}
+
+/**
+ * Pins every leaf to a chain and reads ERC-20 decimals, so the stored condition compiles the
+ * same way later (e.g. when `revoke --rotate` encrypts the file again).
+ */
+async function fillIn(condition: AccessCondition, value: string): Promise<AccessCondition> {
+  if ('and' in condition) {
+    return { and: await Promise.all(condition.and.map(child => fillIn(child, value))) };
+  }
+  if ('or' in condition) {
+    return { or: await Promise.all(condition.or.map(child => fillIn(child, value))) };
+  }
+  if (condition.type === 'registry' || condition.type === 'wallets') {
+    return condition;
+  }
+
+  const registryChain = getRegistryChain();
+  const chain = condition.chain ?? registryChain.litChain;
+  if (condition.type !== 'erc20' || condition.decimals !== undefined) {
+    return { ...condition, chain };
+  }
+  if (chain !== registryChain.litChain) {
+    throw invalidCondition(value, `Set "decimals" for the ERC-20 token ${condition.token}: only tokens on the registry chain can be read.`);
+  }
+
+  let decimals: number;
+  try {
+    const publicClient = createPublicClient({ chain: registryChain.chain, transport: http() });
+    decimals = await publicClient.readContract({ address: condition.token as `0x${string}`, abi: erc20Abi, functionName: 'decimals' });
+  } catch (error) {
+    throw invalidCondition(value, `${condition.token} is not an ERC-20 token on the registry chain.`, error);
+  }
+  try {
+    parseUnits(condition.minBalance, decimals);
+  } catch (error) {
+    throw invalidCondition(value, `The token has ${decimals} decimals.`, error);
+  }
+  return { ...condition, decimals, chain };
+}
+
+function mentionsRegistry(condition: AccessCondition): boolean {
+  if ('and' in condition) {
+    return condition.and.some(mentionsRegistry);
+  }
+  if ('or' in condition) {
+    return condition.or.some(mentionsRegistry);
+  }
+  return condition.type === 'registry';
+}
+
+function compileNode(condition: AccessCondition, registryCondition: object): any {
+  if ('and' in condition || 'or' in condition) {
+    const operator = 'and' in condition ? 'and' : 'or';
+    const children = 'and' in condition ? condition.and : condition.or;
+    return children.flatMap((child, index) => {
+      const compiled = compileNode(child, registryCondition);
+      return index === 0 ? [compiled] : [{ operator }, compiled];
+    });
+  }
+  return compileLeaf(condition, registryCondition);
+}
+
+function compileLeaf(condition: Leaf, registryCondition: object): any {
+  const basic = (chain: string | undefined, contractAddress: string, standardContractType: string, method: string, parameters: string[], comparator: string, value: string) => ({
+    conditionType: 'evmBasic' as const,
+    contractAddress,
+    standardContractType,
+    chain: chain ?? getRegistryChain().litChain,
+    method,
+    parameters,
+    returnValueTest: { comparator, value },
+  });
+
+  switch (condition.type) {
+    case 'registry':
+      return registryCondition;
+    case 'erc20':
+      return basic(condition.chain, condition.token, 'ERC20', 'balanceOf', [':userAddress'], '>=',
+        parseUnits(condition.minBalance, condition.decimals ?? 18).toString());
+    case 'erc721':
+      return condition.tokenId
+        ? basic(condition.chain, condition.contract, 'ERC721', 'ownerOf', [condition.tokenId], '=', ':userAddress')
+        : basic(condition.chain, condition.contract, 'ERC721', 'balanceOf', [':userAddress'], '>', '0');
+    case 'erc1155':
+      return basic(condition.chain, condition.contract, 'ERC1155', 'balanceOf', [':userAddress', condition.tokenId], '>=', condition.minBalance ?? '1');
+    case 'wallets': {
+      const wallets = condition.addresses.map(wallet => basic(undefined, '', '', '', [':userAddress'], '=', wallet));
+      return wallets.length === 1 ? wallets[0] : wallets.flatMap((wallet, index) => index === 0 ? [wallet] : [{ operator: 'or' }, wallet]);
+    }
+  }
+}
+
+async function explainGroup(accs: any[], address: string, depth: number, lines: string[]): Promise<boolean | null> {
+  const operator = accs.find(item => item?.operator)?.operator ?? 'and';
+  const indent = '  '.repeat(depth);
+  if (accs.length > 1) {
+    lines.push(`${indent}${operator === 'and' ? 'All of:' : 'Any of:'}`);
+  }
+  const childDepth = accs.length > 1 ? depth + 1 : depth;
+
+  const results: (boolean | null)[] = [];
+  for (const item of accs) {
+    if (Array.isArray(item)) {
+      results.push(await explainGroup(item, address, childDepth, lines));
+    } else if (!item?.operator) {
+      const passed = await checkLeaf(item, address);
+      lines.push(`${'  '.repeat(childDepth)}${passed === null ? '?' : passed ? '✓' : '✗'} ${describeLeaf(item)}${passed === null ? ' (not checked)' : ''}`);
+      results.push(passed);
+    }
+  }
+
+  if (operator === 'and') {
+    return results.includes(false) ? false : results.includes(null) ? null : true;
+  }
+  return results.includes(true) ? true : results.includes(null) ? null : false;
+}
+
+async function checkLeaf(condition: any, address: string): Promise<boolean | null> {
+  const registryChain = getRegistryChain();
+  const withUser = (param: string) => param === ':userAddress' ? address : param;
+  const { comparator, value } = condition.returnValueTest ?? {};
+
+  if (condition.conditionType === 'evmBasic' && condition.standardContractType === '' && condition.method === '') {
+    return compare(address, comparator, withUser(value));
+  }
+  if (condition.chain !== registryChain.litChain) {
+    return null;
+  }
+
+  const publicClient = createPublicClient({ chain: registryChain.chain, transport: http() });
+  try {
+    if (condition.conditionType === 'evmContract') {
+      const result = await publicClient.readContract({
+        address: condition.contractAddress,
+        abi: [condition.functionAbi],
+        functionName: condition.functionName,
+        args: condition.functionParams.map(withUser),
+      });
+      return compare(result, comparator, withUser(value));
+    }
+
+    const args = condition.parameters.map((param: string) => param === ':userAddress' ? address : BigInt(param));
+    const abi = { ERC20: erc20Abi, ERC721: erc721Abi, ERC1155: erc1155Abi }[condition.standardContractType as string];
+    if (!abi) {
+      return null;
+    }
+    const result = await publicClient.readContract({ address: condition.contractAddress, abi, functionName: condition.method, args } as any);
+    return compare(result, comparator, withUser(value));
+  } catch (error: any) {
+    // ownerOf reverts for tokens that do not exist, which Lit treats as not owned
+    return condition.method === 'ownerOf' && error?.name === 'ContractFunctionExecutionError' ? false : null;
+  }
+}
+
+function compare(result: unknown, comparator: string, expected: string): boolean | null {
+  if (typeof result === 'boolean') {
+    return String(result) === expected;
+  }
+  if (typeof result === 'bigint' || typeof result === 'number') {
+    const actual = BigInt(result);
+    const target = BigInt(expected);
+    switch (comparator) {
+      case '=': return actual === target;
+      case '>': return actual > target;
+      case '>=': return actual >= target;
+      case '<': return actual < target;
+      case '<=': return actual <= target;
+      default: return null;
+    }
+  }
+  if (typeof result === 'string') {
+    return comparator === 'contains'
+      ? result.toLowerCase().includes(expected.toLowerCase())
+      : result.toLowerCase() === expected.toLowerCase();
+  }
+  return null;
+}
+
+function describeLeaf(condition: any): string {
+  const chain = condition.chain && condition.chain !== getRegistryChain().litChain ? ` on ${condition.chain}` : '';
+  const { comparator, value } = condition.returnValueTest ?? {};
+
+  if (condition.conditionType === 'evmContract') {
+    return condition.functionName === 'checkPermission'
+      ? `Registry permission for the file (access NFT, group membership or public access)${chain}`
+      : `${condition.functionName}() on ${condition.contractAddress} ${comparator} ${value}${chain}`;
+  }
+  switch (condition.standardContractType) {
+    case '':
+      return `Wallet is ${value}`;
+    case 'ERC20':
+      return `Balance of ERC-20 ${condition.contractAddress} ${comparator} ${value} (smallest units)${chain}`;
+    case 'ERC721':
+      return condition.method === 'ownerOf'
+        ? `Owns token #${condition.parameters[0]} of ERC-721 ${condition.contractAddress}${chain}`
+        : `Owns a token of ERC-721 ${condition.contractAddress}${chain}`;
+    case 'ERC1155':
+      return `Balance of token #${condition.parameters[1]} of ERC-1155 ${condition.contractAddress} ${comparator} ${value}${chain}`;
+    default:
+      return `${condition.method}() on ${condition.contractAddress} ${comparator} ${value}${chain}`;
+  }
+}
+
+function resolveChain(chain: string, value: string): LitEVMChainKeys {
+  const names = Object.keys(LIT_CHAINS) as LitEVMChainKeys[];
+  const match = names.find(name => name.toLowerCase() === chain.toLowerCase());
+  if (!match) {
+    throw invalidCondition(value, `"${chain}" is not an EVM chain Lit Protocol can evaluate conditions on.`);
+  }
+  return match;
+}
+
+function address(entry: unknown, label: string, value: string): string {
+  if (typeof entry !== 'string' || !isAddress(entry)) {
+    throw invalidCondition(value, `The ${label} must be an address (got ${entry === undefined ? 'nothing' : `"${entry}"`}).`);
+  }
+  return entry;
+}
+
+function amount(entry: unknown, label: string, value: string): string {
+  const text = entry === undefined ? '' : String(entry).trim();
+  if (!/^\d+(\.\d+)?$/.test(text)) {
+    throw invalidCondition(value, `The ${label} must be a decimal amount like 100 or 2.5.`);
+  }
+  return text;
+}
+
+function integer(entry: unknown, label: string, value: string): number {
+  const number = Number(entry);
+  if (!Number.isSafeInteger(number) || number < 0) {
+    throw invalidCondition(value, `The ${label} must be a whole number.`);
+  }
+  return number;
+}
+
+function tokenId(entry: unknown, value: string): string {
+  const text = entry === undefined ? '' : String(entry).trim();
+  if (!/^\d+$/.test(text)) {
+    throw invalidCondition(value, 'Token IDs must be whole numbers.');
+  }
+  return text;
+}
+
+function invalidCondition(value: string, reason: string, cause?: unknown): AppError {
+  return new AppError(`Invalid access condition: ${value}`, {
+    category: ErrorCategory.VALIDATION,
+    userMessage: `Invalid --condition "${value}". ${reason}`,
+    exitCode: EXIT_CODES.VALIDATION_ERROR,
+    cause,
+    details: { condition: value }
+  });
+}
@@ -85,26 +85,28 @@ export const deployPermissionedData = async (
 
     return receipt.transactionHash;
   } catch (error: any) {
-    console.error("Error sending user operation:", error);
-    
-    // Log more detailed error information
-    if (error.message) {
-      console.error("Error message:", error.message);
-    }
-    if (error.cause) {
-      console.error("Error cause:", error.cause);
-    }
-    if (error.stack) {
-      console.error("Error stack:", error.stack);
-    }
-    
-    // Check for specific error types
-    if (error.message && error.message.includes("UserOperation reverted during simulation")) {
-      console.error("UserOperation simulation failed - this could be due to:");
-      console.error("1. Insufficient gas estimation");
-      console.error("2. Contract state issues");
-      console.error("3. Network congestion");
-      console.error("4. Invalid parameters");
+    if (debug) {
+      console.error("Error sending user operation:", error);
+
+      // Log more detailed error information
+      if (error.message) {
+        console.error("Error message:", error.message);
+      }
+      if (error.cause) {
+        console.error("Error cause:", error.cause);
+      }
+      if (error.stack) {
+        console.error("Error stack:", error.stack);
+      }
+
+      // Check for specific error types
+      if (error.message && error.message.includes("UserOperation reverted during simulation")) {
+        console.error("UserOperation simulation failed - this could be due to:");
+        console.error("1. Insufficient gas estimation");
+        console.error("2. Contract state issues");
+        console.error("3. Network congestion");
+        console.error("4. Invalid parameters");
+      }
     }
     
     throw error;
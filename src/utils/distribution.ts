@@ -0,0 +1,112 @@
+import { createPublicClient, http, erc20Abi, formatUnits, parseUnits, isAddress, zeroAddress } from 'viem';
+import { AppError, ErrorCategory } from './errorHandler.js';
+import { getRegistryChain } from './registryChain.js';
+import { PermissionedFileAbi } from './contracts.js';
+import { EXIT_CODES } from '../constants.js';
+import type { AccessPrice } from '../sdk/types.js';
+
+/**
+ * Turns `--price` and `--token` into the fee of a file's public distribution, scaled by the
+ * token's decimals. The zero address stands for the registry chain's native currency.
+ */
+export async function resolvePrice(amount: string, token: string | undefined, feeRecipient: string): Promise<AccessPrice> {
+  if (!token || !isAddress(token)) {
+    throw invalidPrice(amount, token, 'Pass the ERC-20 token the price is paid in with --token <address>.');
+  }
+  if (!/^\d+(\.\d+)?$/.test(amount.trim())) {
+    throw invalidPrice(amount, token, 'The price must be a positive decimal amount of the token, like 5 or 2.5.');
+  }
+
+  let tokenInfo: { decimals: number; symbol: string };
+  try {
+    tokenInfo = await readTokenInfo(token);
+  } catch (error) {
+    throw invalidPrice(amount, token, `${token} is not an ERC-20 token on the registry chain.`, error);
+  }
+
+  let fee: bigint;
+  try {
+    fee = parseUnits(amount.trim(), tokenInfo.decimals);
+  } catch (error) {
+    throw invalidPrice(amount, token, `The token has ${tokenInfo.decimals} decimals.`, error);
+  }
+  if (fee <= 0n) {
+    throw invalidPrice(amount, token, 'The price must be more than 0; upload without --price for free access.');
+  }
+  return toAccessPrice(fee, token, feeRecipient, tokenInfo);
+}
+
+/**
+ * Price anyone can pay to mint an access NFT of a file contract, or null when the file is not
+ * for sale.
+ */
+export async function getAccessPrice(fileContractAddress: string): Promise<AccessPrice | null> {
+  const publicClient = createPublicClient({ chain: getRegistryChain().chain, transport: http() });
+  const contract = { address: fileContractAddress as `0x${string}`, abi: PermissionedFileAbi } as const;
+
+  const allowed = await publicClient.readContract({ ...contract, functionName: 'allowsPublicDistribution' }) as boolean;
+  if (!allowed) {
+    return null;
+  }
+  const fee = await publicClient.readContract({ ...contract, functionName: 'distributionFee' }) as bigint;
+  const token = await publicClient.readContract({ ...contract, functionName: 'distributionFeeTokenAddress' }) as string;
+  const feeRecipient = await publicClient.readContract({ ...contract, functionName: 'feeRecipientAddress' }) as string;
+  return toAccessPrice(fee, token, feeRecipient, await readTokenInfo(token));
+}
+
+/**
+ * Balance `address` can pay a price from.
+ */
+export async function getPaymentBalance(price: AccessPrice, address: string): Promise<bigint> {
+  const publicClient = createPublicClient({ chain: getRegistryChain().chain, transport: http() });
+  if (isNativeToken(price.token)) {
+    return publicClient.getBalance({ address: address as `0x${string}` });
+  }
+  return publicClient.readContract({
+    address: price.token as `0x${string}`,
+    abi: erc20Abi,
+    functionName: 'balanceOf',
+    args: [address as `0x${string}`],
+  });
+}
+
+export function isNativeToken(token: string): boolean {
+  return token.toLowerCase() === zeroAddress;
+}
+
+export function formatPrice(price: AccessPrice): string {
+  return `${price.amount} ${price.symbol}`;
+}
+
+async function readTokenInfo(token: string): Promise<{ decimals: number; symbol: string }> {
+  const chain = getRegistryChain().chain;
+  if (isNativeToken(token)) {
+    return { decimals: chain.nativeCurrency.decimals, symbol: chain.nativeCurrency.symbol };
+  }
+  const publicClient = createPublicClient({ chain, transport: http() });
+  const contract = { address: token as `0x${string}`, abi: erc20Abi } as const;
+  const decimals = await publicClient.readContract({ ...contract, functionName: 'decimals' });
+  const symbol = await publicClient.readContract({ ...contract, functionName: 'symbol' });
+  return { decimals, symbol };
+}
+
+function toAccessPrice(fee: bigint, token: string, feeRecipient: string, tokenInfo: { decimals: number; symbol: string }): AccessPrice {
+  return {
+    amount: formatUnits(fee, tokenInfo.decimals),
+    amountRaw: fee.toString(),
+    token,
+    symbol: tokenInfo.symbol,
+    decimals: tokenInfo.decimals,
+    feeRecipient,
+  };
+}
+
+function invalidPrice(amount: string, token: string | undefined, reason: string, cause?: unknown): AppError {
+  return new AppError(`Invalid price: ${amount}`, {
+    category: ErrorCategory.VALIDATION,
+    userMessage: `Invalid --price ${amount}${token ? ` --token ${token}` : ''}. ${reason}`,
+    exitCode: EXIT_CODES.VALIDATION_ERROR,
+    cause,
+    details: { price: amount, token }
+  });
+}
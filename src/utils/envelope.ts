@@ -0,0 +1,117 @@
+import { SIZE_CONSTANTS } from '@filoz/synapse-sdk';
+import { DataMetadata } from './types.js';
+import type { AccessCondition } from '../sdk/types.js';
+import { createFileError } from './errorHandler.js';
+import { PAYLOAD_ENVELOPE } from '../constants.js';
+
+/**
+ * Data key wrapped by Lit Protocol, plus what is needed to decrypt the body locally.
+ */
+export interface EnvelopeEncryption {
+  algorithm: string;
+  segmentSize: number;
+  wrappedKey: {
+    ciphertext: string;
+    dataToEncryptHash: string;
+  };
+  accessControlConditions: any;
+  dataIdentifier: string;
+  litNetwork?: string;          // Lit network that wrapped the key; absent on files from before it was recorded (dev)
+  condition?: AccessCondition;  // Declarative --condition the access control conditions were compiled from
+}
+
+/**
+ * Binary container for payloads stored on Filecoin.
+ *
+ * Layout (all integers big-endian):
+ *   magic "SYNP" (4 bytes) | version (1 byte) | header length (4 bytes)
+ *   | header JSON (UTF-8) | payload bytes
+ *
+ * Version 1 stores the metadata as the header and raw bytes as the payload. Version 2
+ * stores `{ metadata, encryption }` as the header and a locally encrypted body.
+ */
+export interface PayloadEnvelope {
+  version: number;
+  metadata: DataMetadata;
+  encryption?: EnvelopeEncryption;
+  data: Uint8Array;
+}
+
+/**
+ * Checks whether the bytes start with the envelope magic header.
+ */
+export function isEnvelope(bytes: Uint8Array): boolean {
+  if (bytes.length < PAYLOAD_ENVELOPE.HEADER_BYTES) {
+    return false;
+  }
+  return PAYLOAD_ENVELOPE.MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Wraps payload bytes and their metadata into a versioned binary envelope. Passing
+ * `encryption` marks the data as a locally encrypted body (version 2). Tiny payloads get
+ * trailing whitespace in the header JSON so the piece meets Synapse's minimum upload size.
+ */
+export function encodeEnvelope(data: Uint8Array, metadata: DataMetadata, encryption?: EnvelopeEncryption): Uint8Array {
+  const header = encryption ? { metadata, encryption } : metadata;
+  const headerJson = JSON.stringify(header);
+  const padding = Math.max(0, SIZE_CONSTANTS.MIN_UPLOAD_SIZE - PAYLOAD_ENVELOPE.HEADER_BYTES - headerJson.length - data.length);
+  const metadataBytes = new TextEncoder().encode(headerJson + ' '.repeat(padding));
+  const out = new Uint8Array(PAYLOAD_ENVELOPE.HEADER_BYTES + metadataBytes.length + data.length);
+  const view = new DataView(out.buffer);
+
+  out.set(PAYLOAD_ENVELOPE.MAGIC, 0);
+  view.setUint8(4, encryption ? PAYLOAD_ENVELOPE.ENCRYPTED_VERSION : PAYLOAD_ENVELOPE.VERSION);
+  view.setUint32(5, metadataBytes.length);
+  out.set(metadataBytes, PAYLOAD_ENVELOPE.HEADER_BYTES);
+  out.set(data, PAYLOAD_ENVELOPE.HEADER_BYTES + metadataBytes.length);
+
+  return out;
+}
+
+/**
+ * Parses a binary envelope. The returned data is a view into the input bytes.
+ */
+export function decodeEnvelope(bytes: Uint8Array): PayloadEnvelope {
+  if (!isEnvelope(bytes)) {
+    throw createFileError('Not a payload envelope', {
+      userMessage: 'The downloaded file has an unsupported format.',
+    });
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint8(4);
+  if (version > PAYLOAD_ENVELOPE.LATEST_VERSION) {
+    throw createFileError(`Unsupported payload envelope version: ${version}`, {
+      userMessage: 'This file was written by a newer version of synapse-cli. Please upgrade to download it.',
+      details: { version, supported: PAYLOAD_ENVELOPE.LATEST_VERSION }
+    });
+  }
+
+  const metadataLength = view.getUint32(5);
+  const dataStart = PAYLOAD_ENVELOPE.HEADER_BYTES + metadataLength;
+  if (dataStart > bytes.length) {
+    throw createFileError('Truncated payload envelope', {
+      userMessage: 'The downloaded file is truncated or corrupted.',
+      details: { metadataLength, totalLength: bytes.length }
+    });
+  }
+
+  const metadataBytes = bytes.subarray(PAYLOAD_ENVELOPE.HEADER_BYTES, dataStart);
+  const header = JSON.parse(new TextDecoder().decode(metadataBytes));
+
+  if (version === PAYLOAD_ENVELOPE.ENCRYPTED_VERSION) {
+    return {
+      version,
+      metadata: header.metadata as DataMetadata,
+      encryption: header.encryption as EnvelopeEncryption,
+      data: bytes.subarray(dataStart),
+    };
+  }
+
+  return {
+    version,
+    metadata: header as DataMetadata,
+    data: bytes.subarray(dataStart),
+  };
+}
@@ -1,5 +1,6 @@
 import chalk from 'chalk';
 import { EXIT_CODES } from '../constants.js';
+import { isMachineOutput, emitError } from './output.js';
 
 export enum ErrorCategory {
   CONFIG = 'CONFIGURATION',
@@ -97,6 +98,12 @@ class ErrorHandler {
       this.context.spinner.fail(message);
     }
 
+    // Machine-readable modes print the error object and always exit with its code
+    if (isMachineOutput()) {
+      emitError(appError);
+      process.exit(appError.exitCode);
+    }
+
     // Log based on severity
     this.logError(appError);
 
@@ -139,7 +146,7 @@ class ErrorHandler {
     }
   }
 
-  private normalizeError(error: unknown): AppError {
+  public normalizeError(error: unknown): AppError {
     if (error instanceof AppError) {
       return error;
     }
@@ -267,7 +274,7 @@ class ErrorHandler {
     }
     
     if (message.includes('private_key')) {
-      return 'Private key not configured. Please set PRIVATE_KEY in your .env file.';
+      return 'No wallet configured. Run "wallet create" or "wallet import", or set PRIVATE_KEY in your .env file.';
     }
     
     if (message.includes('not found') && category === ErrorCategory.FILE) {
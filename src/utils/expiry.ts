@@ -0,0 +1,117 @@
+import { createPublicClient, http } from 'viem';
+import { AppError, ErrorCategory } from './errorHandler.js';
+import { getRegistryChain } from './registryChain.js';
+import { EXIT_CODES, EXPIRY, TIME } from '../constants.js';
+import type { AccessExpiry } from '../sdk/types.js';
+
+interface ChainClock {
+  blockNumber: number;
+  timestamp: number;            // Seconds
+  blockTimeSeconds: number;
+}
+
+let clock: Promise<ChainClock> | null = null;
+
+/**
+ * Turns `--expires` input into a block number on the registry chain. Accepts a duration
+ * (`30m`, `12h`, `7d`, `2w`, or combined like `1d12h`), a date (`2026-12-31`,
+ * `2026-12-31T18:00:00Z`), or a block number (`block:35000000` or a bare integer).
+ */
+export async function resolveExpiry(value: string): Promise<AccessExpiry> {
+  const input = value.trim();
+  const { blockNumber, timestamp, blockTimeSeconds } = await getChainClock();
+
+  let target: number;
+  const block = /^(?:block:)?(\d+)$/i.exec(input);
+  if (block) {
+    target = Number(block[1]);
+  } else {
+    const seconds = parseDuration(input) ?? secondsUntil(input, timestamp);
+    target = blockNumber + Math.ceil(seconds / blockTimeSeconds);
+  }
+
+  if (target <= blockNumber) {
+    throw invalidExpiry(value, `It is not in the future (the registry chain is at block ${blockNumber}).`);
+  }
+  return describeExpiry(target);
+}
+
+/**
+ * Remaining validity of a time limit, estimated from the current block and block time.
+ */
+export async function describeExpiry(blockNumber: number): Promise<AccessExpiry> {
+  const now = await getChainClock();
+  const secondsLeft = (blockNumber - now.blockNumber) * now.blockTimeSeconds;
+  return {
+    blockNumber,
+    expiresAt: new Date((now.timestamp + secondsLeft) * TIME.SECOND_MS).toISOString(),
+    expired: blockNumber <= now.blockNumber,
+  };
+}
+
+/**
+ * Human-readable remaining validity, e.g. "~3d 4h left (block 35000000, <local time>)".
+ */
+export function formatExpiry(expiry: AccessExpiry): string {
+  if (expiry.expired) {
+    return `expired at block ${expiry.blockNumber}`;
+  }
+  const msLeft = Math.max(TIME.MINUTE_MS, Date.parse(expiry.expiresAt) - Date.now());
+  const days = Math.floor(msLeft / TIME.DAY_MS);
+  const hours = Math.floor((msLeft % TIME.DAY_MS) / TIME.HOUR_MS);
+  const minutes = Math.floor((msLeft % TIME.HOUR_MS) / TIME.MINUTE_MS);
+  const left = days > 0 ? `${days}d ${hours}h` : hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  return `~${left} left (block ${expiry.blockNumber}, ${new Date(expiry.expiresAt).toLocaleString()})`;
+}
+
+/**
+ * Latest block of the registry chain and its average block time over the last
+ * EXPIRY.BLOCK_TIME_SAMPLE blocks. Read once per process.
+ */
+function getChainClock(): Promise<ChainClock> {
+  if (!clock) {
+    clock = (async () => {
+      const client = createPublicClient({ chain: getRegistryChain().chain, transport: http() });
+      const latest = await client.getBlock();
+      const sampleStart = latest.number > BigInt(EXPIRY.BLOCK_TIME_SAMPLE) ? latest.number - BigInt(EXPIRY.BLOCK_TIME_SAMPLE) : 0n;
+      const earlier = await client.getBlock({ blockNumber: sampleStart });
+      const blocks = Number(latest.number - earlier.number);
+      const blockTimeSeconds = blocks > 0 ? Number(latest.timestamp - earlier.timestamp) / blocks : EXPIRY.FALLBACK_BLOCK_TIME_SECONDS;
+      return {
+        blockNumber: Number(latest.number),
+        timestamp: Number(latest.timestamp),
+        blockTimeSeconds: blockTimeSeconds > 0 ? blockTimeSeconds : EXPIRY.FALLBACK_BLOCK_TIME_SECONDS,
+      };
+    })();
+    clock.catch(() => { clock = null; });
+  }
+  return clock;
+}
+
+function parseDuration(input: string): number | null {
+  if (!/^(\d+[smhdw])+$/i.test(input)) {
+    return null;
+  }
+  let seconds = 0;
+  for (const [, amount, unit] of input.toLowerCase().matchAll(/(\d+)([smhdw])/g)) {
+    seconds += Number(amount) * EXPIRY.UNIT_SECONDS[unit as keyof typeof EXPIRY.UNIT_SECONDS];
+  }
+  return seconds;
+}
+
+function secondsUntil(input: string, chainTimestamp: number): number {
+  const time = Date.parse(input);
+  if (Number.isNaN(time)) {
+    throw invalidExpiry(input, 'Use a duration like 7d or 12h, a date like 2026-12-31, or a block number like block:35000000.');
+  }
+  return time / TIME.SECOND_MS - chainTimestamp;
+}
+
+function invalidExpiry(value: string, reason: string): AppError {
+  return new AppError(`Invalid expiry: ${value}`, {
+    category: ErrorCategory.VALIDATION,
+    userMessage: `Invalid --expires value "${value}". ${reason}`,
+    exitCode: EXIT_CODES.VALIDATION_ERROR,
+    details: { expires: value }
+  });
+}
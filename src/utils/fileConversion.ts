@@ -1,8 +1,8 @@
 import chalk from 'chalk';
-import { ethers } from 'ethers';
-import { getWalletAddress } from './synapse.js';
+import { getWalletAddress } from './account.js';
 import { list as listEncryptedFiles } from './list.js';
-import { PermissionsRegistryAbi } from './contracts.js';
+import { getFileContract } from './keypo.js';
+import { getRegistryChain } from './registryChain.js';
 import { config } from '../config.js';
 import { EXIT_CODES } from '../constants.js';
 
@@ -10,6 +10,7 @@ export interface FileConversionResult {
   success: boolean;
   dataIdentifier?: string;
   fileData?: any;
+  fileMetadata?: Record<string, any>;
   fileContractAddress?: string;
   message?: string;
 }
@@ -69,6 +70,18 @@ export async function validateFileForConversion(
       };
     }
     
+    // The index keeps the complete registry metadata in userMetaData; conversions
+    // re-publish it, so it must be intact
+    let fileMetadata: Record<string, any>;
+    try {
+      fileMetadata = JSON.parse(fileData.dataMetadata?.userMetaData || '');
+    } catch {
+      return {
+        success: false,
+        message: 'File metadata could not be parsed.'
+      };
+    }
+    
     // Step 5: Get file smart contract address from permissions registry
     try {
       const registryAddress = config.registryContractAddress;
@@ -76,21 +89,17 @@ export async function validateFileForConversion(
         throw new Error('REGISTRY_CONTRACT_ADDRESS not configured in environment variables');
       }
       
-      // Create a provider for Base Sepolia (where the registry contract is deployed)
-      const baseSepoliaProvider = new ethers.JsonRpcProvider('https://sepolia.base.org');
-      
-      // Create a contract instance for the permissions registry
-      const registryContract = new ethers.Contract(registryAddress, PermissionsRegistryAbi, baseSepoliaProvider);
-      
+      const { chain } = getRegistryChain();
+
       // Debug information
       console.log(chalk.gray(`\n🔍 Debug Info:`));
       console.log(chalk.gray(`  Registry Address: ${registryAddress}`));
       console.log(chalk.gray(`  Data Identifier: ${dataIdentifier}`));
-      console.log(chalk.gray(`  Network: ${await baseSepoliaProvider.getNetwork().then(n => `${n.name} (${n.chainId})`)}`));
+      console.log(chalk.gray(`  Network: ${chain.name} (${chain.id})`));
       
-      const fileContractAddress = await registryContract.fileIdentifierToFileContract(dataIdentifier);
+      const fileContractAddress = await getFileContract(dataIdentifier, registryAddress);
       
-      if (fileContractAddress === ethers.ZeroAddress) {
+      if (!fileContractAddress) {
         throw new Error('File contract not found in registry');
       }
       
@@ -102,6 +111,7 @@ export async function validateFileForConversion(
         success: true,
         dataIdentifier,
         fileData,
+        fileMetadata,
         fileContractAddress
       };
       
@@ -118,4 +128,4 @@ export async function validateFileForConversion(
       message: `Unexpected error: ${error instanceof Error ? error.message : String(error)}`
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,245 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { minimatch } from 'minimatch';
+import type { StorageService } from '@filoz/synapse-sdk';
+import { preProcess } from './keypo.js';
+import { encodeEnvelope, EnvelopeEncryption } from './envelope.js';
+import { uploadChunkedFile } from './chunkedFile.js';
+import { createFileError } from './errorHandler.js';
+import { hashData } from './hashData.js';
+import { CHUNKED_UPLOAD, FOLDER_UPLOAD } from '../constants.js';
+
+export interface FolderFile {
+  absolutePath: string;
+  relativePath: string;   // POSIX separators, relative to the folder root
+  size: number;
+}
+
+export interface FolderEntry {
+  path: string;
+  size: number;
+  pieceCid: string;       // Envelope, or chunked manifest for large files
+  pieceCount: number;
+  sha256: string;         // Hash of the original file
+}
+
+export interface FolderManifest {
+  kind: typeof FOLDER_UPLOAD.MANIFEST_KIND;
+  version: number;
+  name: string;
+  createdAt: string;
+  totalSize: number;
+  encrypted: boolean;
+  entries: FolderEntry[];
+}
+
+export interface FolderUploadOptions {
+  chunkSize: number;
+  forceChunked?: boolean;
+  encryptBytes?: (data: Uint8Array) => Promise<Uint8Array>;
+  encryption?: EnvelopeEncryption;
+  onFileUploaded?: (entry: FolderEntry, uploadedFiles: number) => void;
+}
+
+/**
+ * Checks whether a path contains glob syntax.
+ */
+export function isGlobPattern(input: string): boolean {
+  return /[*?[\]{}]/.test(input);
+}
+
+/**
+ * Expands directories and glob patterns into the list of files to upload. Symbolic
+ * links are skipped. `exclude` patterns match paths relative to the walked directory,
+ * or any basename when they contain no slash (e.g. `node_modules`, `*.log`).
+ */
+export async function collectFolderFiles(
+  inputs: string[],
+  exclude: string[] = []
+): Promise<{ name: string; root: string; files: FolderFile[] }> {
+  const isExcluded = (relativePath: string) =>
+    exclude.some(pattern => minimatch(relativePath, pattern, { dot: true, matchBase: true }));
+  const found = new Map<string, number>();
+  let directoryRoot: string | undefined;
+
+  for (const input of inputs) {
+    if (isGlobPattern(input)) {
+      const { base, pattern } = splitGlob(input);
+      for (const [filePath, size] of await walk(base, isExcluded)) {
+        if (minimatch(toPosix(path.relative(base, filePath)), pattern)) {
+          found.set(filePath, size);
+        }
+      }
+      continue;
+    }
+
+    let stats;
+    try {
+      stats = await fs.stat(input);
+    } catch (error) {
+      throw createFileError(`Cannot access path: ${input}`, {
+        cause: error,
+        userMessage: `File or directory not found: ${input}`,
+        details: { input }
+      });
+    }
+
+    if (stats.isDirectory()) {
+      // A single directory is its own root, even if some files sit deep inside it
+      directoryRoot = inputs.length === 1 ? path.resolve(input) : undefined;
+      for (const [filePath, size] of await walk(path.resolve(input), isExcluded)) {
+        found.set(filePath, size);
+      }
+    } else if (!isExcluded(path.basename(input))) {
+      found.set(path.resolve(input), stats.size);
+    }
+  }
+
+  const absolutePaths = [...found.keys()];
+  const root = directoryRoot ?? commonParent(absolutePaths.map(filePath => path.dirname(filePath)));
+
+  const files = absolutePaths
+    .map(absolutePath => ({
+      absolutePath,
+      relativePath: toPosix(path.relative(root, absolutePath)),
+      size: found.get(absolutePath)!,
+    }))
+    .sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+
+  return { name: path.basename(root) || 'root', root, files };
+}
+
+/**
+ * Uploads every file through the regular pipeline (preProcess, optional local encryption,
+ * envelope, or chunked upload for large files), then uploads the folder manifest
+ * itself as an envelope. The manifest's piece CID addresses the whole tree.
+ */
+export async function uploadFolder(
+  storageService: StorageService,
+  folder: { name: string; files: FolderFile[] },
+  options: FolderUploadOptions
+): Promise<{ manifest: FolderManifest; manifestPieceCid: string }> {
+  const entries: FolderEntry[] = [];
+
+  for (const file of folder.files) {
+    const fileName = path.posix.basename(file.relativePath);
+    let entry: FolderEntry;
+
+    if (options.forceChunked || file.size > CHUNKED_UPLOAD.AUTO_THRESHOLD_BYTES) {
+      const { manifest, manifestPieceCid } = await uploadChunkedFile(storageService, file.absolutePath, {
+        chunkSize: options.chunkSize,
+        metadata: { name: fileName, type: 'buffer' },
+        encryptChunk: options.encryptBytes,
+        encryption: options.encryption,
+      });
+      entry = {
+        path: file.relativePath,
+        size: manifest.totalSize,
+        pieceCid: manifestPieceCid,
+        pieceCount: manifest.pieces.length,
+        sha256: manifest.sha256,
+      };
+    } else {
+      const fileBuffer = await fs.readFile(file.absolutePath);
+      const { pieceCid } = await storageService.upload(await toEnvelope(fileBuffer, fileName, options));
+      entry = {
+        path: file.relativePath,
+        size: fileBuffer.length,
+        pieceCid: pieceCid.toV1().toString(),
+        pieceCount: 1,
+        sha256: hashData(fileBuffer),
+      };
+    }
+
+    entries.push(entry);
+    options.onFileUploaded?.(entry, entries.length);
+  }
+
+  const manifest: FolderManifest = {
+    kind: FOLDER_UPLOAD.MANIFEST_KIND,
+    version: FOLDER_UPLOAD.MANIFEST_VERSION,
+    name: folder.name,
+    createdAt: new Date().toISOString(),
+    totalSize: entries.reduce((total, entry) => total + entry.size, 0),
+    encrypted: !!options.encryptBytes,
+    entries,
+  };
+
+  const { pieceCid } = await storageService.upload(await toEnvelope(manifest, folder.name, options));
+
+  return { manifest, manifestPieceCid: pieceCid.toV1().toString() };
+}
+
+/**
+ * Checks whether a decoded payload is a folder manifest.
+ */
+export function isFolderManifest(json: any): json is FolderManifest {
+  return !!json && json.kind === FOLDER_UPLOAD.MANIFEST_KIND && Array.isArray(json.entries);
+}
+
+/**
+ * Resolves a manifest entry path inside the output directory, rejecting entries
+ * that would escape it.
+ */
+export function resolveEntryPath(outputDir: string, entryPath: string): string {
+  const resolved = path.resolve(outputDir, ...entryPath.split('/'));
+  if (path.isAbsolute(entryPath) || !resolved.startsWith(path.resolve(outputDir) + path.sep)) {
+    throw createFileError(`Unsafe path in folder manifest: ${entryPath}`, {
+      userMessage: 'The folder manifest contains a path outside the output directory.',
+      details: { entryPath, outputDir }
+    });
+  }
+  return resolved;
+}
+
+async function toEnvelope(data: Buffer | object, name: string, options: FolderUploadOptions): Promise<Uint8Array> {
+  const { dataOut, metadataOut } = await preProcess(data, name);
+  return options.encryptBytes
+    ? encodeEnvelope(await options.encryptBytes(dataOut), metadataOut, options.encryption)
+    : encodeEnvelope(dataOut, metadataOut);
+}
+
+async function walk(dir: string, isExcluded: (relativePath: string) => boolean, base: string = dir): Promise<Map<string, number>> {
+  const files = new Map<string, number>();
+  for (const dirent of await fs.readdir(dir, { withFileTypes: true })) {
+    const filePath = path.join(dir, dirent.name);
+    if (isExcluded(toPosix(path.relative(base, filePath)))) {
+      continue;
+    }
+    if (dirent.isDirectory()) {
+      for (const [nestedPath, size] of await walk(filePath, isExcluded, base)) {
+        files.set(nestedPath, size);
+      }
+    } else if (dirent.isFile()) {
+      files.set(filePath, (await fs.stat(filePath)).size);
+    }
+  }
+  return files;
+}
+
+function splitGlob(input: string): { base: string; pattern: string } {
+  const segments = toPosix(input).split('/');
+  const firstMagic = segments.findIndex(isGlobPattern);
+  const baseSegments = segments.slice(0, firstMagic);
+  return {
+    base: path.resolve(baseSegments.join('/') || '.'),
+    pattern: segments.slice(firstMagic).join('/'),
+  };
+}
+
+function commonParent(dirs: string[]): string {
+  if (dirs.length === 0) {
+    return process.cwd();
+  }
+  let common = dirs[0];
+  for (const dir of dirs.slice(1)) {
+    while (dir !== common && !dir.startsWith(common.endsWith(path.sep) ? common : common + path.sep)) {
+      common = path.dirname(common);
+    }
+  }
+  return common;
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
@@ -2,6 +2,7 @@ import { createPublicClient, http } from "viem";
 import { create7702KernelAccount, create7702KernelAccountClient } from "@zerodev/ecdsa-validator";
 import { createZeroDevPaymasterClient, getUserOperationGasPrice } from "@zerodev/sdk";
 import { getEntryPoint, KERNEL_V3_3 } from "@zerodev/sdk/constants";
+import { markLocalIndexStale } from "./localIndex.js";
 
 // Helper to create a kernel client from a userSigner
 export async function getKernelClient(
@@ -20,8 +21,13 @@ export async function getKernelClient(
       });
     }
     
+    // Kernel clients only exist to change the registry, so the local file index is out of date from here on
+    await markLocalIndexStale();
+
     try {
-      console.log("[DEBUG] Creating public client...");
+      if (debug) {
+        console.log("[DEBUG] Creating public client...");
+      }
       const publicClient = createPublicClient({
         transport: http(bundlerRpcUrl),
         chain,
@@ -30,7 +36,9 @@ export async function getKernelClient(
         console.log("[DEBUG] publicClient created");
       }
 
-      console.log("[DEBUG] Creating kernel account...");
+      if (debug) {
+        console.log("[DEBUG] Creating kernel account...");
+      }
       const account = await Promise.race([
         create7702KernelAccount(publicClient, {
           signer: userSigner,
@@ -46,7 +54,9 @@ export async function getKernelClient(
         console.log("[DEBUG] kernelAccount:", account);
       }
 
-      console.log("[DEBUG] Creating paymaster client...");
+      if (debug) {
+        console.log("[DEBUG] Creating paymaster client...");
+      }
       const paymasterClient = createZeroDevPaymasterClient({
         chain,
         transport: http(bundlerRpcUrl),
@@ -55,7 +65,9 @@ export async function getKernelClient(
         console.log("[DEBUG] paymasterClient created");
       }
 
-      console.log("[DEBUG] Creating kernel client...");
+      if (debug) {
+        console.log("[DEBUG] Creating kernel client...");
+      }
       const kernelClient = await Promise.race([
         create7702KernelAccountClient({
           account,
@@ -89,8 +101,8 @@ export async function getKernelClient(
       }
       return kernelClient;
     } catch (error: any) {
-      console.error("Error creating kernel client:", error);
       if (debug) {
+        console.error("[DEBUG] Error creating kernel client:", error);
         console.error("Error details:", {
           message: error.message,
           cause: error.cause,
@@ -0,0 +1,124 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config.js';
+import { AppError, ErrorCategory, createFileError } from './errorHandler.js';
+import { getRegistryChain } from './registryChain.js';
+import { getFileContract } from './keypo.js';
+import { ACCESS_GROUP, EXIT_CODES, LOCAL_STATE } from '../constants.js';
+
+/**
+ * An access group created on this machine. The group itself lives in the registry (its
+ * identifier is registered like a file and its access NFTs are the memberships); the
+ * record only remembers its name and current contract.
+ */
+export interface GroupRecord {
+  id: string;                       // Data identifier the group is registered under
+  name: string;
+  ownerAddress: string;
+  contractAddress: string;          // Changes when a member is removed
+  registry: string;                 // Chain ID and registry address the group belongs to
+  createdAt: string;
+}
+
+interface GroupsFile {
+  version: number;
+  groups: GroupRecord[];
+}
+
+/**
+ * Path of the groups file inside the local state directory.
+ */
+export function getGroupsPath(): string {
+  return path.join(config.stateDir, LOCAL_STATE.GROUPS_FILE);
+}
+
+/**
+ * Groups of the configured registry, oldest first.
+ */
+export async function listGroupRecords(): Promise<GroupRecord[]> {
+  const registry = registryKey();
+  return (await readGroups()).groups.filter(group => group.registry === registry);
+}
+
+/**
+ * Finds a group of the configured registry by identifier or (case-insensitive) name.
+ */
+export async function findGroupRecord(idOrName: string): Promise<GroupRecord | undefined> {
+  const groups = await listGroupRecords();
+  return groups.find(group => group.id === idOrName)
+    ?? groups.find(group => group.name.toLowerCase() === idOrName.toLowerCase());
+}
+
+/**
+ * Adds a group or replaces the record with the same identifier.
+ */
+export async function saveGroupRecord(fields: Omit<GroupRecord, 'registry' | 'createdAt'> & Partial<Pick<GroupRecord, 'createdAt'>>): Promise<GroupRecord> {
+  const file = await readGroups();
+  const record: GroupRecord = {
+    createdAt: new Date().toISOString(),
+    ...fields,
+    registry: registryKey(),
+  };
+  file.groups = [...file.groups.filter(group => group.id !== record.id), record];
+  await writeGroups(file);
+  return record;
+}
+
+/**
+ * Looks a group up by name or identifier and reads its current contract from the registry,
+ * so a group created (or changed) on another machine can be used by its identifier.
+ */
+export async function resolveGroup(idOrName: string): Promise<{ id: string; name: string | null; contractAddress: string }> {
+  const record = await findGroupRecord(idOrName);
+  const id = record?.id ?? (ACCESS_GROUP.IDENTIFIER_PATTERN.test(idOrName) ? idOrName.toLowerCase() : null);
+  const contractAddress = id ? await getFileContract(id, config.registryContractAddress!) : null;
+  if (!id || !contractAddress) {
+    throw new AppError(`Unknown group: ${idOrName}`, {
+      category: ErrorCategory.VALIDATION,
+      userMessage: `No access group "${idOrName}" was found. Use a name from "group list" or a group identifier.`,
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { group: idOrName }
+    });
+  }
+
+  if (record && record.contractAddress !== contractAddress) {
+    await saveGroupRecord({ ...record, contractAddress });
+  }
+  return { id, name: record?.name ?? null, contractAddress };
+}
+
+async function readGroups(): Promise<GroupsFile> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getGroupsPath(), 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return { version: LOCAL_STATE.GROUPS_VERSION, groups: [] };
+    }
+    throw error;
+  }
+
+  try {
+    return JSON.parse(raw) as GroupsFile;
+  } catch (error) {
+    throw createFileError('Groups file is corrupted', {
+      cause: error,
+      userMessage: `The groups file at ${getGroupsPath()} is not valid JSON. Fix or remove it to continue.`,
+      details: { path: getGroupsPath() }
+    });
+  }
+}
+
+async function writeGroups(file: GroupsFile): Promise<void> {
+  const groupsPath = getGroupsPath();
+  await fs.mkdir(path.dirname(groupsPath), { recursive: true });
+
+  // Write to a temporary file first so an interrupted write never truncates the file
+  const tmpPath = `${groupsPath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+  await fs.rename(tmpPath, groupsPath);
+}
+
+function registryKey(): string {
+  return `${getRegistryChain().chain.id}:${(config.registryContractAddress || '').toLowerCase()}`;
+}
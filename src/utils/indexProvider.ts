@@ -0,0 +1,360 @@
+import chalk from 'chalk';
+import { createPublicClient, http, type Log } from 'viem';
+import { PermissionsRegistryAbi } from './contracts.js';
+import { createConfigError, createNetworkError } from './errorHandler.js';
+import { getRegistryChain } from './registryChain.js';
+import { config } from '../config.js';
+
+/**
+ * A file registration as the index reports it. `fileMetadata` is the registry metadata JSON string.
+ */
+export interface IndexedFileRecord {
+  fileIdentifier: string;
+  fileMetadata: string;
+  fileContractAddress: string;
+  fileOwner: string;
+}
+
+export interface IndexedDeletionRecord {
+  fileIdentifier: string;
+  fileOwner: string;
+  fileContractAddress: string;
+}
+
+/**
+ * One page of index results, in the shape of the Keypo `graph/*` endpoints.
+ */
+export interface IndexPage {
+  permissionedFileDeployeds: IndexedFileRecord[];
+  permissionedFileAccessMinteds: IndexedFileRecord[];
+  permissionedFileDeleteds: IndexedDeletionRecord[];
+}
+
+/**
+ * Selects files by owner, by access-NFT minter, or every file when neither is set.
+ */
+export interface IndexQuery {
+  owner?: string;
+  minter?: string;
+  skip: number;
+  first: number;
+}
+
+export interface IndexProvider {
+  readonly name: string;
+  fetchPage(query: IndexQuery): Promise<IndexPage>;
+  /** Maps each (lowercased) file identifier to whether it has been deleted */
+  getDeletionStatus(fileIdentifiers: string[]): Promise<Record<string, boolean>>;
+}
+
+export interface IndexProviderOptions {
+  provider?: string;
+  apiUrl?: string;
+  rpcUrl?: string;
+  debug?: boolean;
+}
+
+/**
+ * Builds the configured index provider. An explicit `apiUrl` always selects the Keypo API.
+ */
+export function getIndexProvider(options: IndexProviderOptions = {}): IndexProvider {
+  const providerName = options.apiUrl ? 'keypo' : (options.provider || config.indexProvider);
+  const keypo = () => new KeypoIndexProvider(options.apiUrl || config.keypoApiUrl, options.debug);
+  const rpc = () => new RegistryLogIndexProvider({
+    rpcUrl: options.rpcUrl || getRegistryChain().rpcUrl,
+    registryAddress: requireRegistryAddress(),
+    fromBlock: config.indexFromBlock,
+    blockRange: config.indexBlockRange,
+    debug: options.debug,
+  });
+
+  switch (providerName) {
+    case 'keypo':
+      return keypo();
+    case 'rpc':
+      return rpc();
+    case 'auto':
+      // Without a registry address there is nothing to scan, so Keypo is the only option
+      return config.registryContractAddress ? new FallbackIndexProvider(keypo(), rpc) : keypo();
+    default:
+      throw createConfigError(`Unknown index provider: ${providerName}`, {
+        userMessage: `INDEX_PROVIDER must be "keypo", "rpc" or "auto" (got "${providerName}")`,
+        details: { provider: providerName }
+      });
+  }
+}
+
+/**
+ * Reads the hosted Keypo index (`/graph/filesByOwner`, `/graph/filesByMinter`, `/graph/isDeleted`).
+ */
+export class KeypoIndexProvider implements IndexProvider {
+  readonly name = 'keypo';
+
+  constructor(private readonly baseUrl: string, private readonly debug?: boolean) {}
+
+  async fetchPage(query: IndexQuery): Promise<IndexPage> {
+    const params = new URLSearchParams();
+    let endpoint = 'filesByOwner';
+    if (query.minter) {
+      endpoint = 'filesByMinter';
+      params.set('fileMinterAddress', query.minter);
+    } else if (query.owner) {
+      params.set('fileOwnerAddress', query.owner);
+    }
+    params.set('skip', String(query.skip));
+    params.set('first', String(query.first));
+
+    const data = await this.get(`${this.baseUrl}/graph/${endpoint}?${params}`);
+    return {
+      permissionedFileDeployeds: data.permissionedFileDeployeds || [],
+      permissionedFileAccessMinteds: data.permissionedFileAccessMinteds || [],
+      permissionedFileDeleteds: data.permissionedFileDeleteds || [],
+    };
+  }
+
+  async getDeletionStatus(fileIdentifiers: string[]): Promise<Record<string, boolean>> {
+    const data = await this.get(`${this.baseUrl}/graph/isDeleted?fileIdentifiers=${encodeURIComponent(JSON.stringify(fileIdentifiers))}`);
+    return data.deletedFiles || {};
+  }
+
+  private async get(url: string): Promise<any> {
+    if (this.debug) {
+      console.log('[DEBUG] Keypo index request:', url);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, { method: 'GET', headers: { 'Content-Type': 'application/json' } });
+    } catch (error) {
+      throw createNetworkError('Keypo API unreachable', {
+        cause: error,
+        userMessage: `Could not reach the Keypo API at ${this.baseUrl}. Set INDEX_PROVIDER=rpc to read the registry directly.`,
+        details: { url }
+      });
+    }
+
+    if (!response.ok) {
+      throw createNetworkError(`API request failed with status ${response.status}`, {
+        userMessage: `The Keypo API returned ${response.status} ${response.statusText}`,
+        details: { url, status: response.status }
+      });
+    }
+    return response.json();
+  }
+}
+
+export interface RegistryLogScanOptions {
+  rpcUrl: string;
+  registryAddress: string;
+  fromBlock: bigint;
+  toBlock?: bigint;
+  blockRange: number;
+  debug?: boolean;
+}
+
+/**
+ * State of every file the registry has announced, rebuilt from its event logs.
+ */
+export interface RegistryState {
+  files: Map<string, IndexedFileRecord & { deleted: boolean }>;
+  minters: Map<string, Set<string>>;      // fileIdentifier -> lowercased minter addresses (empty when unknown)
+  lastBlock: bigint;
+}
+
+export function createRegistryState(fromBlock: bigint = 0n): RegistryState {
+  return { files: new Map(), minters: new Map(), lastBlock: fromBlock - 1n };
+}
+
+/**
+ * Fetches registry logs in `blockRange` windows from `state.lastBlock + 1` up to the chain head
+ * (or `toBlock`) and applies them in order. A redeploy of the same identifier replaces its metadata,
+ * clears an earlier deletion and forgets the access NFTs minted from the previous file contract.
+ */
+export async function scanRegistryLogs(
+  state: RegistryState,
+  options: RegistryLogScanOptions,
+  onProgress?: (scannedTo: bigint, head: bigint) => void
+): Promise<RegistryState> {
+  const client = createPublicClient({ transport: http(options.rpcUrl) });
+
+  let head: bigint;
+  try {
+    head = options.toBlock ?? await client.getBlockNumber();
+  } catch (error) {
+    throw createNetworkError('Index RPC endpoint unreachable', {
+      cause: error,
+      userMessage: `Could not reach the JSON-RPC endpoint at ${options.rpcUrl}. Check REGISTRY_RPC_URL.`,
+      details: { rpcUrl: options.rpcUrl }
+    });
+  }
+
+  const range = BigInt(Math.max(1, options.blockRange));
+  for (let from = state.lastBlock + 1n; from <= head; from += range) {
+    const to = from + range - 1n < head ? from + range - 1n : head;
+    if (options.debug) {
+      console.log(`[DEBUG] Scanning registry logs ${from}-${to}`);
+    }
+
+    let logs: Log[];
+    try {
+      logs = await client.getContractEvents({
+        address: options.registryAddress as `0x${string}`,
+        abi: PermissionsRegistryAbi as any,
+        fromBlock: from,
+        toBlock: to,
+        strict: true,
+      });
+    } catch (error) {
+      throw createNetworkError(`Failed to read registry logs for blocks ${from}-${to}`, {
+        cause: error,
+        userMessage: `The JSON-RPC endpoint rejected a log query. Lower INDEX_BLOCK_RANGE or use another REGISTRY_RPC_URL.`,
+        details: { rpcUrl: options.rpcUrl, fromBlock: from.toString(), toBlock: to.toString() }
+      });
+    }
+
+    for (const log of logs) {
+      applyRegistryLog(state, log as any);
+    }
+    state.lastBlock = to;
+    onProgress?.(to, head);
+  }
+
+  return state;
+}
+
+function applyRegistryLog(state: RegistryState, log: { eventName: string; args: Record<string, any> }): void {
+  const fileIdentifier = String(log.args.fileIdentifier).toLowerCase();
+
+  switch (log.eventName) {
+    case 'PermissionedFileDeployed':
+      // A redeploy creates a fresh file contract, so access NFTs minted before it no longer count
+      state.minters.delete(fileIdentifier);
+      state.files.set(fileIdentifier, {
+        fileIdentifier,
+        fileMetadata: log.args.fileMetadata,
+        fileContractAddress: log.args.fileContractAddress,
+        fileOwner: log.args.fileOwner,
+        deleted: false,
+      });
+      break;
+    case 'PermissionedFileAccessMinted': {
+      const minters = state.minters.get(fileIdentifier) ?? new Set<string>();
+      minters.add(String(log.args.fileAccessMinter).toLowerCase());
+      state.minters.set(fileIdentifier, minters);
+      break;
+    }
+    case 'PermissionedFileDeleted': {
+      const file = state.files.get(fileIdentifier);
+      if (file) {
+        file.deleted = true;
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Answers index queries from a registry state, however it was built.
+ */
+export class RegistryStateIndexProvider implements IndexProvider {
+  private state?: Promise<RegistryState>;
+
+  constructor(readonly name: string, private readonly loadState: () => Promise<RegistryState>) {}
+
+  async fetchPage(query: IndexQuery): Promise<IndexPage> {
+    const state = await this.load();
+    const files = [...state.files.values()];
+    const owner = query.owner?.toLowerCase();
+    const minter = query.minter?.toLowerCase();
+
+    const matching = files.filter(file => {
+      if (minter) return state.minters.get(file.fileIdentifier)?.has(minter) ?? false;
+      if (owner) return file.fileOwner.toLowerCase() === owner;
+      return true;
+    });
+    const page = matching.slice(query.skip, query.skip + query.first);
+
+    return {
+      permissionedFileDeployeds: page.map(toRecord),
+      permissionedFileAccessMinteds: page.filter(file => state.minters.has(file.fileIdentifier)).map(toRecord),
+      permissionedFileDeleteds: page.filter(file => file.deleted).map(file => ({
+        fileIdentifier: file.fileIdentifier,
+        fileOwner: file.fileOwner,
+        fileContractAddress: file.fileContractAddress,
+      })),
+    };
+  }
+
+  async getDeletionStatus(fileIdentifiers: string[]): Promise<Record<string, boolean>> {
+    const state = await this.load();
+    return Object.fromEntries(fileIdentifiers.map(id => [id, state.files.get(id.toLowerCase())?.deleted ?? false]));
+  }
+
+  private load(): Promise<RegistryState> {
+    this.state ??= this.loadState();
+    return this.state;
+  }
+}
+
+/**
+ * Answers index queries from the registry's own event logs over JSON-RPC. Works against any
+ * chain the registry is deployed to, including a local dev chain. Logs are scanned once per instance.
+ */
+export class RegistryLogIndexProvider extends RegistryStateIndexProvider {
+  constructor(options: RegistryLogScanOptions) {
+    super('rpc', () => scanRegistryLogs(createRegistryState(options.fromBlock), options));
+  }
+}
+
+/**
+ * Uses the primary provider until its first failure, then switches to the secondary for good.
+ */
+class FallbackIndexProvider implements IndexProvider {
+  private fallback?: IndexProvider;
+
+  constructor(private readonly primary: IndexProvider, private readonly createFallback: () => IndexProvider) {}
+
+  get name(): string {
+    return this.fallback ? this.fallback.name : this.primary.name;
+  }
+
+  fetchPage(query: IndexQuery): Promise<IndexPage> {
+    return this.run(provider => provider.fetchPage(query));
+  }
+
+  getDeletionStatus(fileIdentifiers: string[]): Promise<Record<string, boolean>> {
+    return this.run(provider => provider.getDeletionStatus(fileIdentifiers));
+  }
+
+  private async run<T>(call: (provider: IndexProvider) => Promise<T>): Promise<T> {
+    if (this.fallback) {
+      return call(this.fallback);
+    }
+    try {
+      return await call(this.primary);
+    } catch (error) {
+      this.fallback = this.createFallback();
+      console.warn(chalk.yellow(`\n⚠️  ${this.primary.name} index unavailable (${error instanceof Error ? error.message : error}); scanning registry logs instead`));
+      return call(this.fallback);
+    }
+  }
+}
+
+function toRecord(file: IndexedFileRecord): IndexedFileRecord {
+  return {
+    fileIdentifier: file.fileIdentifier,
+    fileMetadata: file.fileMetadata,
+    fileContractAddress: file.fileContractAddress,
+    fileOwner: file.fileOwner,
+  };
+}
+
+function requireRegistryAddress(): string {
+  if (!config.registryContractAddress) {
+    throw createConfigError('Missing registry configuration', {
+      userMessage: 'REGISTRY_CONTRACT_ADDRESS is required to scan registry logs. Please set it in your .env file.',
+      details: { missing: 'REGISTRY_CONTRACT_ADDRESS' }
+    });
+  }
+  return config.registryContractAddress;
+}
@@ -0,0 +1,171 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { config } from '../config.js';
+import { createFileError } from './errorHandler.js';
+import { LOCAL_STATE } from '../constants.js';
+import type { PermissionParameters } from './deployPermissionedData.js';
+import type { AccessCondition } from '../sdk/types.js';
+
+export type JournalOperation = 'upload' | 'repair' | 'make-private' | 'rotate';
+
+/**
+ * Progress of an operation. Uploads and repairs go `uploaded` → `deployed` → `minted` →
+ * `completed` (public files skip `minted`); make-private goes `started` →
+ * `permissions-updated` → `completed`; `revoke --rotate` goes `started` → `downloaded` →
+ * `uploaded` → `shared` → `bound` → `completed`.
+ */
+export type JournalStage = 'started' | 'downloaded' | 'uploaded' | 'deployed' | 'minted' | 'shared' | 'bound' | 'permissions-updated' | 'completed';
+
+export interface JournalEntry {
+  id: string;
+  operation: JournalOperation;
+  stage: JournalStage;
+  createdAt: string;
+  updatedAt: string;
+  ownerAddress: string;             // Wallet that started the operation and must finish it
+  fileName?: string;
+  pieceCid?: string;
+  dataIdentifier?: string;
+  accessType?: 'public' | 'private';
+  fileContractAddress?: string;
+  metadata?: Record<string, any>;   // Registry metadata the remaining steps will write
+  timeLimitBlockNumber?: number;    // Access expiry of the group binding
+  distribution?: {                 // Paid access set once the owner NFT is minted (or carried over by make-private)
+    fee: string;                    // In the token's smallest unit
+    tokenAddress: string;
+    feeRecipient: string;
+  };
+  groupContractAddress?: string;    // Access group the permission contract also admits
+  recipient?: string;
+  rotation?: {                      // `revoke --rotate`: what the re-encrypted copy inherits, and the copy once stored
+    recipients: string[];           // Remaining holders to share the copy with
+    permissions: PermissionParameters[]; // Group bindings, with their time limits
+    price?: { amount: string; token: string };
+    condition?: AccessCondition;
+    pieceCid?: string;
+    dataIdentifier?: string;
+    uploadJournalId?: string;       // Entry that registers the copy when its upload stopped part way
+  };
+  txHashes: {
+    deploy?: string;
+    update?: string;
+    mint?: string;
+    share?: string;
+    bind?: string;
+    delete?: string;
+  };
+  lastError?: string;
+}
+
+interface JournalFile {
+  version: number;
+  entries: JournalEntry[];
+}
+
+/**
+ * Path of the journal file inside the local state directory.
+ */
+export function getJournalPath(): string {
+  return path.join(config.stateDir, LOCAL_STATE.JOURNAL_FILE);
+}
+
+/**
+ * Records the start of a multi-step operation and returns the new entry.
+ */
+export async function startJournalEntry(
+  operation: JournalOperation,
+  fields: Omit<JournalEntry, 'id' | 'operation' | 'createdAt' | 'updatedAt' | 'txHashes'> & Partial<Pick<JournalEntry, 'txHashes'>>
+): Promise<JournalEntry> {
+  const now = new Date().toISOString();
+  const entry: JournalEntry = {
+    id: randomBytes(4).toString('hex'),
+    operation,
+    createdAt: now,
+    updatedAt: now,
+    txHashes: {},
+    ...fields,
+  };
+
+  const journal = await readJournal();
+  journal.entries.push(entry);
+  await writeJournal(journal);
+  return entry;
+}
+
+/**
+ * Applies a partial update to an entry. Transaction hashes are merged, not replaced.
+ */
+export async function updateJournalEntry(
+  id: string,
+  patch: Partial<Omit<JournalEntry, 'id' | 'operation' | 'createdAt'>>
+): Promise<JournalEntry> {
+  const journal = await readJournal();
+  const entry = journal.entries.find(candidate => candidate.id === id);
+  if (!entry) {
+    throw createFileError(`Journal entry not found: ${id}`, {
+      userMessage: `No journal entry with id ${id}. Run "resume --list" to see pending operations.`,
+      details: { id }
+    });
+  }
+
+  Object.assign(entry, patch, {
+    txHashes: { ...entry.txHashes, ...patch.txHashes },
+    updatedAt: new Date().toISOString(),
+  });
+  await writeJournal(journal);
+  return entry;
+}
+
+/**
+ * Lists journal entries, oldest first. Only unfinished entries unless `includeCompleted` is set.
+ */
+export async function listJournalEntries(includeCompleted: boolean = false): Promise<JournalEntry[]> {
+  const { entries } = await readJournal();
+  return includeCompleted ? entries : entries.filter(entry => entry.stage !== 'completed');
+}
+
+/**
+ * Removes an entry from the journal. Returns false if it did not exist.
+ */
+export async function removeJournalEntry(id: string): Promise<boolean> {
+  const journal = await readJournal();
+  const remaining = journal.entries.filter(entry => entry.id !== id);
+  if (remaining.length === journal.entries.length) {
+    return false;
+  }
+  await writeJournal({ ...journal, entries: remaining });
+  return true;
+}
+
+async function readJournal(): Promise<JournalFile> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getJournalPath(), 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return { version: LOCAL_STATE.JOURNAL_VERSION, entries: [] };
+    }
+    throw error;
+  }
+
+  try {
+    return JSON.parse(raw) as JournalFile;
+  } catch (error) {
+    throw createFileError('Journal file is corrupted', {
+      cause: error,
+      userMessage: `The operation journal at ${getJournalPath()} is not valid JSON. Fix or remove it to continue.`,
+      details: { path: getJournalPath() }
+    });
+  }
+}
+
+async function writeJournal(journal: JournalFile): Promise<void> {
+  const journalPath = getJournalPath();
+  await fs.mkdir(path.dirname(journalPath), { recursive: true });
+
+  // Write to a temporary file first so an interrupted write never truncates the journal
+  const tmpPath = `${journalPath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(journal, null, 2), { mode: 0o600 });
+  await fs.rename(tmpPath, journalPath);
+}
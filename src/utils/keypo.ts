@@ -1,12 +1,13 @@
 import { DataMetadata, TypedArray, BrowserFile, BrowserBlob } from './types.js';
+import type { AccessCondition } from '../sdk/types.js';
 import { createLitClient } from "@lit-protocol/lit-client";
-import { encodeFunctionData } from 'viem';
-import { nagaDev } from "@lit-protocol/networks";
+import { encodeFunctionData, erc20Abi, zeroAddress } from 'viem';
 import { createAuthManager, storagePlugins } from "@lit-protocol/auth";
-import { privateKeyToAccount } from 'viem/accounts';
-import { createWalletClient, http, Client, Transport, Chain, Account } from 'viem';
-import { baseSepolia } from 'viem/chains';
+import type { PrivateKeyAccount } from 'viem/accounts';
+import { createWalletClient, createPublicClient, http, Client, Transport, Chain, Account } from 'viem';
 import { getKernelClient } from './getKernelClient.js';
+import { getRegistryChain } from './registryChain.js';
+import { getLitNetwork } from './litNetwork.js';
 import { 
   KernelVersionToAddressesMap, 
   KERNEL_V3_3 
@@ -14,8 +15,12 @@ import {
 import { generateRandomDataIdentifier } from './generateRandomIdentifier.js';
 import { deployPermissionedData, PermissionParameters } from './deployPermissionedData.js';
 import { mintOwnerNFT } from './mintOwnerNFT.js';
-import { PermissionsRegistryAbi } from './contracts.js';
-import { AUTH_EXPIRATION, LIT_PROTOCOL } from '../constants.js';
+import { generateDataKey, encryptWithDataKey, decryptWithDataKey } from './localEncryption.js';
+import { EnvelopeEncryption } from './envelope.js';
+import { createEncryptionError } from './errorHandler.js';
+import { compileAccessCondition, findRegistryCondition } from './conditions.js';
+import { PermissionedFileAbi, PermissionsRegistryAbi } from './contracts.js';
+import { AUTH_EXPIRATION, LIT_PROTOCOL, LOCAL_ENCRYPTION } from '../constants.js';
 import { config } from '../config.js';
 
 // Check if we're in a browser environment where File and Blob are available
@@ -209,30 +214,35 @@ export function postProcess<T extends BrowserFile | BrowserBlob | ArrayBuffer |
   throw new Error(`Unsupported metadata type: ${metadataIn.type}`);
 } 
 
-export async function encrypt(
-  alicePrivateKey: string,
-  data: Uint8Array, 
-  metadata: DataMetadata,
+/**
+ * Sets up everything needed to encrypt one logical file: the owner's kernel client, a
+ * data identifier with its access control conditions, and a random data key wrapped by
+ * Lit. The returned `encryptBytes` encrypts locally with that key and can be called
+ * repeatedly, e.g. once per chunk of a large file.
+ */
+export async function createEncryptionSession(
+  AliceAccount: PrivateKeyAccount,
+  identifierSeed: Uint8Array,
   registryContractAddress: string,
   validationContractAddress: string,
-  bundlerRpcUrl: string
+  bundlerRpcUrl: string,
+  condition?: AccessCondition,
+  debug?: boolean
 ) {
-  // Create LitClient
+  // Create LitClient on the configured network; the envelope records it for decryption
+  const litNetwork = config.litNetwork;
   const litClient = await createLitClient({
-      network: nagaDev,
+      network: getLitNetwork(litNetwork),
   });
 
-  // Ensure private key has 0x prefix
-  const formattedPrivateKey = alicePrivateKey.startsWith('0x') ? alicePrivateKey : `0x${alicePrivateKey}`;
-  
-  // Alice's account (sender)
-  const AliceAccount = privateKeyToAccount(formattedPrivateKey as `0x${string}`);
-  console.log('🙋‍♀️ AliceAccount:', AliceAccount.address);
+  if (debug) {
+    console.log('[DEBUG] Encrypting as:', AliceAccount.address);
+  }
 
   // Create wallet client for Alice
   const aliceWalletClient = createWalletClient({
       account: AliceAccount,
-      chain: baseSepolia,
+      chain: getRegistryChain().chain,
       transport: http(),
   });
 
@@ -246,14 +256,110 @@ export async function encrypt(
 
   const kernelClient = await getKernelClient(
     AliceAccount,
-    baseSepolia,
+    getRegistryChain().chain,
     bundlerRpcUrl,
     authorization,
-    true,
+    debug,
   );
   
-  const dataIdentifier = generateRandomDataIdentifier(data);
+  const dataIdentifier = generateRandomDataIdentifier(identifierSeed);
+  const accs = buildAccessControlConditions(registryContractAddress, dataIdentifier, condition);
+
+  if (debug) {
+    console.log('[DEBUG] Access control conditions:', accs);
+  }
+
+  // Only the data key goes through Lit (no AuthContext needed); file contents never leave this machine unencrypted
+  const dataKey = generateDataKey();
+  const wrappedKey = await litClient.encrypt({
+      dataToEncrypt: dataKey,
+      unifiedAccessControlConditions: accs,
+      chain: getRegistryChain().litChain,
+  });
+
+  const encryption: EnvelopeEncryption = {
+    algorithm: LOCAL_ENCRYPTION.ALGORITHM,
+    segmentSize: LOCAL_ENCRYPTION.SEGMENT_SIZE,
+    wrappedKey: {
+      ciphertext: wrappedKey.ciphertext,
+      dataToEncryptHash: wrappedKey.dataToEncryptHash,
+    },
+    accessControlConditions: accs,
+    dataIdentifier,
+    litNetwork,
+    ...(condition && { condition }),
+  };
+
+  const encryptBytes = async (data: Uint8Array) => encryptWithDataKey(dataKey, data, encryption.segmentSize);
+
+  return {
+    dataIdentifier,
+    accessControlConditions: accs,
+    encryption,
+    encryptBytes,
+    // Include data needed for smart contract operations after Filecoin upload
+    smartContractData: {
+      kernelClient: kernelClient,
+      userAddress: AliceAccount.address,
+      registryContractAddress: registryContractAddress,
+      validationContractAddress: validationContractAddress,
+    }
+  };
+}
+
+export async function encrypt(
+  aliceAccount: PrivateKeyAccount,
+  data: Uint8Array, 
+  metadata: DataMetadata,
+  registryContractAddress: string,
+  validationContractAddress: string,
+  bundlerRpcUrl: string,
+  condition?: AccessCondition,
+  debug?: boolean
+) {
+  const session = await createEncryptionSession(
+    aliceAccount,
+    data,
+    registryContractAddress,
+    validationContractAddress,
+    bundlerRpcUrl,
+    condition,
+    debug
+  );
+
+  const encryptedData = await session.encryptBytes(data);
+
+  // Note: Smart contract operations (deploy permissioned file + mint NFT) 
+  // are now handled separately after Filecoin upload
+
+  // Return the encrypted body and all necessary info for smart contract operations
+  const encryptedDataPayload = {
+    encryptedData,
+    encryption: session.encryption,
+    accessControlConditions: session.accessControlConditions,
+    metadata: metadata,
+    dataIdentifier: session.dataIdentifier,
+    smartContractData: session.smartContractData
+  };
+
+  if (debug) {
+    console.log('[DEBUG] Encrypted payload:', {
+      encryptedBytes: encryptedData.length,
+      algorithm: session.encryption.algorithm,
+      wrappedKeyHash: session.encryption.wrappedKey.dataToEncryptHash,
+      metadata: encryptedDataPayload.metadata,
+      dataIdentifier: encryptedDataPayload.dataIdentifier
+    });
+  }
+
+  return encryptedDataPayload;
+}
 
+/**
+ * Access control conditions that gate decryption on the registry's checkPermission, or on
+ * `condition` with checkPermission standing in for its `registry` parts.
+ */
+function buildAccessControlConditions(registryContractAddress: string, dataIdentifier: string, condition?: AccessCondition) {
   const rawAccs = {
     contractAddress: registryContractAddress,
     functionName: "checkPermission",
@@ -282,7 +388,7 @@ export async function encrypt(
         },
       ],
     },
-    chain: "baseSepolia" as const,
+    chain: getRegistryChain().litChain,
     conditionType: "evmContract" as const,
     returnValueTest: {
       key: "",
@@ -290,47 +396,29 @@ export async function encrypt(
       value: "true",
     },
   };
-  const accs = [rawAccs];
-
-  console.log('🔒 Access control conditions:', accs);
-
-  // Alice encrypts data (no AuthContext needed)
-  const encryptedData = await litClient.encrypt({
-      dataToEncrypt: data,
-      unifiedAccessControlConditions: accs,
-      chain: 'baseSepolia',
-  });
-
-  // Note: Smart contract operations (deploy permissioned file + mint NFT) 
-  // are now handled separately after Filecoin upload
-
-  console.log('✅ Encryption complete!');
-  console.log('📋 Data identifier:', dataIdentifier);
-  
-  // Return the encrypted data and all necessary info for smart contract operations
-  const encryptedDataPayload = {
-    ciphertext: encryptedData.ciphertext,
-    dataToEncryptHash: encryptedData.dataToEncryptHash,
-    accessControlConditions: accs,
-    metadata: metadata,
-    dataIdentifier: dataIdentifier,
-    // Include data needed for smart contract operations after Filecoin upload
-    smartContractData: {
-      kernelClient: kernelClient,
-      userAddress: AliceAccount.address,
-      registryContractAddress: registryContractAddress,
-      validationContractAddress: validationContractAddress,
-    }
-  };
+  return condition ? compileAccessCondition(condition, rawAccs) : [rawAccs];
+}
 
-  console.log('🔒 Complete encrypted payload:', {
-    ciphertext: encryptedDataPayload.ciphertext,
-    dataToEncryptHash: encryptedDataPayload.dataToEncryptHash,
-    metadata: encryptedDataPayload.metadata,
-    dataIdentifier: encryptedDataPayload.dataIdentifier
-  });
+/**
+ * Progress hooks for deployPermissionsAndMintNFT. `skipDeploy` resumes a private file
+ * whose permission contract was already deployed, so only the NFT is minted; `skipMint`
+ * resumes one whose owner NFT was minted as well.
+ */
+export interface DeployProgress {
+  skipDeploy?: boolean;
+  skipMint?: boolean;
+  onDeployed?: (transactionHash: string) => void | Promise<void>;
+  onMinted?: (transactionHash: string) => void | Promise<void>;
+}
 
-  return encryptedDataPayload;
+/**
+ * Public distribution of a private file: anyone can mint an access NFT by paying `fee` of
+ * `tokenAddress` (the native currency for the zero address) to `feeRecipient`.
+ */
+export interface DistributionParameters {
+  fee: bigint;
+  tokenAddress: string;
+  feeRecipient: string;
 }
 
 export async function deployPermissionsAndMintNFT(
@@ -340,70 +428,101 @@ export async function deployPermissionsAndMintNFT(
   userAddress: string,
   registryContractAddress: string,
   validationContractAddress: string,
-  isPublic: boolean = false
+  isPublic: boolean = false,
+  progress: DeployProgress = {},
+  distribution?: DistributionParameters,
+  extraPermissions: PermissionParameters[] = [],
+  debug?: boolean
 ) {
+  let deployTransactionHash: string | undefined;
+  let mintTransactionHash: string | undefined;
+  let distributionTransactionHash: string | undefined;
   try {
     // Create custom parameters based on public/private access
     const customParameters: PermissionParameters[] = [{
       permissionType: 0,
       permissionAddress: userAddress,
       tokenQuantity: isPublic ? 0 : 1, // 0 for public (anyone can access), 1 for private (NFT required)
-      timeLimitBlockNumber: 0,
+      timeLimitBlockNumber: 0, // Never limited: every access NFT holder passes this permission
       operator: 0,
-    }];
+    }, ...extraPermissions];
 
     // Deploy the permissioned data
-    console.log(`🚀 Deploying ${isPublic ? 'public' : 'private'} permission contract...`);
-    await deployPermissionedData(
-      dataIdentifier,
-      JSON.stringify(metadata),
-      kernelClient,
-      userAddress,
-      registryContractAddress,
-      validationContractAddress,
-      PermissionsRegistryAbi as any,
-      customParameters,
-      true
-    );
-    console.log('✅ Permission contract deployed');
+    if (!progress.skipDeploy) {
+      if (debug) {
+        console.log(`[DEBUG] Deploying ${isPublic ? 'public' : 'private'} permission contract...`);
+      }
+      const transactionHash: string = await deployPermissionedData(
+        dataIdentifier,
+        JSON.stringify(metadata),
+        kernelClient,
+        userAddress,
+        registryContractAddress,
+        validationContractAddress,
+        PermissionsRegistryAbi as any,
+        customParameters,
+        debug
+      );
+      deployTransactionHash = transactionHash;
+      await progress.onDeployed?.(transactionHash);
+    }
 
     // Only mint NFT for private files
-    if (!isPublic) {
-      console.log('🎫 Minting owner NFT...');
-      await mintOwnerNFT(
+    if (!isPublic && !progress.skipMint) {
+      if (debug) {
+        console.log('[DEBUG] Minting owner NFT...');
+      }
+      const transactionHash: string = await mintOwnerNFT(
         kernelClient,
         registryContractAddress,
         dataIdentifier,
         PermissionsRegistryAbi as any,
-        true
+        debug
       );
-      console.log('✅ Owner NFT minted');
-    } else {
-      console.log('📢 Public file - no NFT needed (anyone can decrypt)');
+      mintTransactionHash = transactionHash;
+      await progress.onMinted?.(transactionHash);
+    } else if (isPublic && debug) {
+      console.log('[DEBUG] Public file - no NFT needed (anyone can decrypt)');
+    }
+
+    // Setting the parameters again is harmless, so a resumed upload simply repeats it
+    if (distribution && !isPublic) {
+      if (debug) {
+        console.log('[DEBUG] Opening paid access...');
+      }
+      distributionTransactionHash = await setPublicDistribution(kernelClient, dataIdentifier, registryContractAddress, distribution);
     }
   } catch (error) {
-    console.error('❌ Smart contract operation failed:', error);
+    if (debug) {
+      console.error('[DEBUG] Smart contract operation failed:', error);
+    }
     throw error; // Re-throw so caller can handle appropriately
   }
+
+  return { deployTransactionHash, mintTransactionHash, distributionTransactionHash };
 }
 
-export async function decrypt(userAccount: any, encryptedDataPayload: any) {
+/**
+ * Creates a Lit client and auth context for the given account once, so that many
+ * ciphertexts (e.g. the chunks of a large file) can be decrypted without
+ * re-authenticating for each of them. `litNetwork` is the network the files were
+ * encrypted on; files that do not record one were encrypted on the default network.
+ */
+export async function createDecryptionSession(userAccount: any, litNetwork: string = LIT_PROTOCOL.DEFAULT_NETWORK, debug?: boolean) {
     // Create LitClient
     const litClient = await createLitClient({
-        network: nagaDev,
+        network: getLitNetwork(litNetwork),
     });
 
-    console.log('🙋‍♀️ Decrypting with account:', userAccount.address);
-
-    const accs = encryptedDataPayload.accessControlConditions;
-
-    console.log('🔒 Recreated access control conditions:', accs);
+    if (debug) {
+        console.log('[DEBUG] Decrypting with account:', userAccount.address);
+    }
 
     // Create AuthContext for decryption
     const authManager = createAuthManager({
         storage: storagePlugins.localStorageNode({
         appName: LIT_PROTOCOL.APP_NAME,
-        networkName: LIT_PROTOCOL.NETWORK_NAME,
+        networkName: litNetwork,
         storagePath: LIT_PROTOCOL.STORAGE_PATH,
         }),
     });
@@ -424,28 +543,76 @@ export async function decrypt(userAccount: any, encryptedDataPayload: any) {
         litClient,
     });    
 
-    console.log('🔑 Auth context created');
+    if (debug) {
+        console.log('[DEBUG] Auth context created');
+    }
 
-    // Reconstruct encrypted data object for decryption
-    const encryptedData = {
-        ciphertext: encryptedDataPayload.ciphertext,
-        dataToEncryptHash: encryptedDataPayload.dataToEncryptHash,
+    const decryptBytes = async (
+        encryptedData: { ciphertext: string; dataToEncryptHash: string },
+        accs: any
+    ): Promise<Uint8Array> => {
+        // Decrypt the data using recreated access control conditions. Conditions name the chain
+        // they were written for, so files stay readable after REGISTRY_CHAIN changes.
+        const decryptedResponse = await litClient.decrypt({
+            data: encryptedData,
+            unifiedAccessControlConditions: accs,
+            authContext: authContext,
+            chain: findRegistryCondition(accs)?.chain ?? getRegistryChain().litChain,
+        });
+        return new Uint8Array(decryptedResponse.decryptedData);
     };
 
-    // Decrypt the data using recreated access control conditions
-    const decryptedResponse = await litClient.decrypt({
-        data: encryptedData,
-        unifiedAccessControlConditions: accs,
-        authContext: authContext,
-        chain: 'baseSepolia',
-    });
+    // Lit releases the data key only if the access control conditions pass
+    const unwrapDataKey = async (encryption: EnvelopeEncryption): Promise<Uint8Array> => {
+        if (encryption.algorithm !== LOCAL_ENCRYPTION.ALGORITHM) {
+            throw createEncryptionError(`Unsupported encryption algorithm: ${encryption.algorithm}`, {
+                userMessage: 'This file was written by a newer version of synapse-cli. Please upgrade to download it.',
+                details: { algorithm: encryption.algorithm }
+            });
+        }
+        return decryptBytes(encryption.wrappedKey, encryption.accessControlConditions);
+    };
+
+    return { decryptBytes, unwrapDataKey };
+}
+
+/**
+ * Decrypts either a decoded version 2 envelope (local AES-GCM body, Lit-wrapped key)
+ * or a legacy JSON payload whose whole ciphertext was encrypted by Lit.
+ */
+export async function decrypt(userAccount: any, encryptedDataPayload: any, debug?: boolean) {
+    const { decryptBytes, unwrapDataKey } = await createDecryptionSession(userAccount, encryptedDataPayload.encryption?.litNetwork, debug);
+
+    if (encryptedDataPayload.encryption) {
+        const encryption = encryptedDataPayload.encryption as EnvelopeEncryption;
+        if (debug) {
+            console.log('[DEBUG] Unwrapping data key for:', encryption.dataIdentifier);
+        }
+
+        const dataKey = await unwrapDataKey(encryption);
+        const decryptedData = decryptWithDataKey(dataKey, encryptedDataPayload.data, encryption.segmentSize);
+
+        return {decryptedData, metadata: encryptedDataPayload.metadata};
+    }
 
-    console.log('🔓 Decrypted response:', decryptedResponse);
-    console.log('✅ Decryption successful!');
+    const accs = encryptedDataPayload.accessControlConditions;
+
+    if (debug) {
+        console.log('[DEBUG] Recreated access control conditions:', accs);
+    }
+
+    // Reconstruct encrypted data object for decryption
+    const decryptedData = await decryptBytes({
+        ciphertext: encryptedDataPayload.ciphertext,
+        dataToEncryptHash: encryptedDataPayload.dataToEncryptHash,
+    }, accs);
     
-    return {decryptedData: decryptedResponse.decryptedData, metadata: encryptedDataPayload.metadata};
+    return {decryptedData, metadata: encryptedDataPayload.metadata};
 }
 
+/**
+ * Mints access NFTs of a private file to `recipientAddresses`.
+ */
 export async function share(
   dataIdentifier: string,
   walletClient: Client<Transport, Chain, Account>,
@@ -458,21 +625,49 @@ export async function share(
 
   const kernelClient = await getKernelClient(
       walletClient,
-      baseSepolia,
+      getRegistryChain().chain,
       bundlerRpcUrl,
       authorization,
       debug
   );
 
+  return shareBatch(
+      kernelClient,
+      [{ dataIdentifier, recipientAddresses }],
+      permissionsRegistryContractAddress,
+      debug
+  );
+}
+
+/**
+ * Access NFTs to mint for one file within a batch.
+ */
+export interface ShareGrant {
+  dataIdentifier: string;
+  recipientAddresses: string[];
+}
+
+/**
+ * Mints the access NFTs of several files in one user operation: one
+ * mintFromPermissionedFileForOwner call per file.
+ */
+export async function shareBatch(
+  kernelClient: any,
+  grants: ShareGrant[],
+  permissionsRegistryContractAddress: string,
+  debug?: boolean
+) {
+  const calls = grants.map(({ dataIdentifier, recipientAddresses }) => ({
+      to: permissionsRegistryContractAddress as `0x${string}`,
+      data: encodeFunctionData({
+          abi: PermissionsRegistryAbi,
+          functionName: "mintFromPermissionedFileForOwner",
+          args: [dataIdentifier, recipientAddresses]
+      }),
+  }));
+
   const tx = await kernelClient.sendUserOperation({
-      callData: await kernelClient.account.encodeCalls([{
-          to: permissionsRegistryContractAddress as `0x${string}`,
-          data: encodeFunctionData({
-              abi: PermissionsRegistryAbi,
-              functionName: "mintFromPermissionedFileForOwner",
-              args: [dataIdentifier, recipientAddresses]
-          }),
-      }]),
+      callData: await kernelClient.account.encodeCalls(calls),
   });
 
   if (debug) {
@@ -501,7 +696,7 @@ export async function deleteData(
 
   const kernelClient = await getKernelClient(
       walletClient,
-      baseSepolia,
+      getRegistryChain().chain,
       bundlerRpcUrl,
       authorization,
       debug
@@ -531,4 +726,472 @@ export async function deleteData(
   }
 
   return receipt;
-}
\ No newline at end of file
+}
+
+/**
+ * Lists the wallets currently holding an access NFT of a permissioned file contract.
+ */
+export async function getAccessHolders(fileContractAddress: string): Promise<string[]> {
+  const publicClient = createPublicClient({ chain: getRegistryChain().chain, transport: http() });
+  const contract = { address: fileContractAddress as `0x${string}`, abi: PermissionedFileAbi } as const;
+
+  const totalSupply = await publicClient.readContract({ ...contract, functionName: 'totalSupply' }) as bigint;
+  const holders = new Map<string, string>();
+  for (let index = 0n; index < totalSupply; index++) {
+      const tokenId = await publicClient.readContract({ ...contract, functionName: 'tokenByIndex', args: [index] });
+      const holder = await publicClient.readContract({ ...contract, functionName: 'ownerOf', args: [tokenId] }) as string;
+      holders.set(holder.toLowerCase(), holder);
+  }
+  return [...holders.values()];
+}
+
+/**
+ * Earliest block after which one of a file contract's group bindings stops passing
+ * checkPermission, or null when none of them has a time limit.
+ */
+export async function getAccessExpiry(fileContractAddress: string): Promise<number | null> {
+  let expiry: number | null = null;
+  for (const { timeLimitBlockNumber } of await getPermissionParameters(fileContractAddress)) {
+      if (timeLimitBlockNumber > 0 && (expiry === null || timeLimitBlockNumber < expiry)) {
+          expiry = timeLimitBlockNumber;
+      }
+  }
+  return expiry;
+}
+
+/**
+ * Permission parameters a file contract currently checks.
+ */
+export async function getPermissionParameters(fileContractAddress: string): Promise<PermissionParameters[]> {
+  const publicClient = createPublicClient({ chain: getRegistryChain().chain, transport: http() });
+  const contract = { address: fileContractAddress as `0x${string}`, abi: PermissionedFileAbi } as const;
+
+  const count = await publicClient.readContract({ ...contract, functionName: 'getPermissionParametersArrayLength' }) as bigint;
+  const permissions: PermissionParameters[] = [];
+  for (let index = 0n; index < count; index++) {
+      const [permissionType, permissionAddress, tokenQuantity, timeLimitBlockNumber, operator] = await publicClient.readContract({ ...contract, functionName: 'filePermissionParameters', args: [index] }) as readonly [number, string, bigint, bigint, number];
+      permissions.push({
+          permissionType,
+          permissionAddress,
+          tokenQuantity: Number(tokenQuantity),
+          timeLimitBlockNumber: Number(timeLimitBlockNumber),
+          operator,
+      });
+  }
+  return permissions;
+}
+
+/**
+ * Permission that passes for anyone holding an access NFT of a group's contract, in addition
+ * to the file's own NFT holders (the same shape as PermissionedFile.addSmartContract).
+ */
+export function groupPermission(groupContractAddress: string, timeLimitBlockNumber: number = 0): PermissionParameters {
+  return {
+      permissionType: 1,
+      permissionAddress: groupContractAddress,
+      tokenQuantity: 1,
+      timeLimitBlockNumber,
+      operator: 1,
+  };
+}
+
+/**
+ * Group permissions of a file contract, which re-registrations carry over.
+ */
+export function isGroupPermission(permission: PermissionParameters): boolean {
+  return permission.permissionType === 1;
+}
+
+/**
+ * Points group permissions that name an earlier contract of their group (a group is registered
+ * again when a member is removed) at the group's current contract, so the removed member stops
+ * passing them. A binding already on the current contract keeps its own time limit.
+ */
+export async function followGroupBindings(permissions: PermissionParameters[], permissionsRegistryContractAddress: string): Promise<PermissionParameters[]> {
+  const publicClient = createPublicClient({ chain: getRegistryChain().chain, transport: http() });
+  const followed: { permission: PermissionParameters; moved: boolean }[] = [];
+  for (const permission of permissions) {
+      if (!isGroupPermission(permission)) {
+          followed.push({ permission, moved: false });
+          continue;
+      }
+      let current: string | null = null;
+      try {
+          const groupIdentifier = await publicClient.readContract({ address: permission.permissionAddress as `0x${string}`, abi: PermissionedFileAbi, functionName: 'fileIdentifier' }) as string;
+          current = await getFileContract(groupIdentifier, permissionsRegistryContractAddress);
+      } catch {
+          // Not a registry contract, so there is nothing to follow
+      }
+      const moved = current !== null && current.toLowerCase() !== permission.permissionAddress.toLowerCase();
+      followed.push({ permission: moved ? { ...permission, permissionAddress: current! } : permission, moved });
+  }
+
+  const address = (entry: { permission: PermissionParameters }) => entry.permission.permissionAddress.toLowerCase();
+  return followed
+      .filter((entry, index) => !entry.moved || !followed.some((other, otherIndex) =>
+          isGroupPermission(other.permission) && address(other) === address(entry) && (!other.moved || otherIndex < index)))
+      .map(entry => entry.permission);
+}
+
+/**
+ * Rewrites the permission parameters of several file contracts in one user operation.
+ */
+export async function replacePermissions(
+  kernelClient: any,
+  updates: { fileContractAddress: string; permissions: PermissionParameters[] }[],
+  debug?: boolean
+): Promise<string> {
+  const tx = await kernelClient.sendUserOperation({
+      callData: await kernelClient.account.encodeCalls(updates.flatMap(({ fileContractAddress, permissions }) => [
+          {
+              to: fileContractAddress as `0x${string}`,
+              data: encodeFunctionData({
+                  abi: PermissionedFileAbi,
+                  functionName: "clearPermissions",
+                  args: []
+              }),
+          },
+          {
+              to: fileContractAddress as `0x${string}`,
+              data: encodeFunctionData({
+                  abi: PermissionedFileAbi,
+                  functionName: "addNewPermissionParameters",
+                  args: [permissions.map(toPermissionStruct)]
+              }),
+          },
+      ])),
+  });
+
+  if (debug) {
+      console.log("[DEBUG] tx:", tx);
+  }
+
+  const { receipt } = await kernelClient.waitForUserOperationReceipt({
+      hash: tx,
+  });
+
+  if (debug) {
+      console.log("[DEBUG] receipt:", receipt);
+  }
+
+  return receipt.transactionHash;
+}
+
+/**
+ * File contract registered for a data identifier, or null when none is.
+ */
+export async function getFileContract(dataIdentifier: string, permissionsRegistryContractAddress: string): Promise<string | null> {
+  const publicClient = createPublicClient({ chain: getRegistryChain().chain, transport: http() });
+  const fileContractAddress = await publicClient.readContract({
+      address: permissionsRegistryContractAddress as `0x${string}`,
+      abi: PermissionsRegistryAbi,
+      functionName: 'fileIdentifierToFileContract',
+      args: [dataIdentifier],
+  }) as string;
+  return fileContractAddress.toLowerCase() === zeroAddress ? null : fileContractAddress;
+}
+
+/**
+ * Whether the registry grants `address` access to a file, which is what Lit nodes check.
+ */
+export async function checkAccess(dataIdentifier: string, address: string, permissionsRegistryContractAddress: string): Promise<boolean> {
+  const publicClient = createPublicClient({ chain: getRegistryChain().chain, transport: http() });
+  return await publicClient.readContract({
+      address: permissionsRegistryContractAddress as `0x${string}`,
+      abi: PermissionsRegistryAbi,
+      functionName: 'checkPermission',
+      args: [dataIdentifier, address],
+  }) as boolean;
+}
+
+/**
+ * Lets anyone mint an access NFT of a private file by paying the distribution fee. Called by
+ * the file owner's kernel client after the file contract is deployed.
+ */
+export async function setPublicDistribution(
+  kernelClient: any,
+  dataIdentifier: string,
+  permissionsRegistryContractAddress: string,
+  distribution: DistributionParameters,
+  debug?: boolean
+): Promise<string> {
+  const fileContractAddress = await getFileContract(dataIdentifier, permissionsRegistryContractAddress);
+  if (!fileContractAddress) {
+      throw new Error(`No file contract registered for ${dataIdentifier}`);
+  }
+
+  const tx = await kernelClient.sendUserOperation({
+      callData: await kernelClient.account.encodeCalls([{
+          to: fileContractAddress as `0x${string}`,
+          data: encodeFunctionData({
+              abi: PermissionedFileAbi,
+              functionName: "setPublicDistributionParameters",
+              args: [true, distribution.fee, distribution.tokenAddress, distribution.feeRecipient]
+          }),
+      }]),
+  });
+
+  if (debug) {
+      console.log("[DEBUG] tx:", tx);
+  }
+
+  const { receipt } = await kernelClient.waitForUserOperationReceipt({
+      hash: tx,
+  });
+
+  if (debug) {
+      console.log("[DEBUG] receipt:", receipt);
+  }
+
+  return receipt.transactionHash;
+}
+
+/**
+ * Pays a file's distribution fee and mints an access NFT to the wallet in one user operation.
+ * ERC-20 fees are approved to the file contract, which collects them; native fees are sent
+ * with the mint.
+ */
+export async function buyAccess(
+  dataIdentifier: string,
+  fileContractAddress: string,
+  distribution: DistributionParameters,
+  walletClient: Client<Transport, Chain, Account>,
+  authorization: any,
+  permissionsRegistryContractAddress: string,
+  bundlerRpcUrl: string,
+  debug?: boolean
+) {
+
+  const kernelClient = await getKernelClient(
+      walletClient,
+      getRegistryChain().chain,
+      bundlerRpcUrl,
+      authorization,
+      debug
+  );
+
+  const isNative = distribution.tokenAddress.toLowerCase() === zeroAddress;
+  const calls: { to: `0x${string}`; value?: bigint; data: `0x${string}` }[] = [];
+  if (!isNative) {
+      calls.push({
+          to: distribution.tokenAddress as `0x${string}`,
+          data: encodeFunctionData({
+              abi: erc20Abi,
+              functionName: "approve",
+              args: [fileContractAddress as `0x${string}`, distribution.fee]
+          }),
+      });
+  }
+  calls.push({
+      to: permissionsRegistryContractAddress as `0x${string}`,
+      value: isNative ? distribution.fee : 0n,
+      data: encodeFunctionData({
+          abi: PermissionsRegistryAbi,
+          functionName: "mintFromPermissionedFileForPublic",
+          args: [dataIdentifier]
+      }),
+  });
+
+  const tx = await kernelClient.sendUserOperation({
+      callData: await kernelClient.account.encodeCalls(calls),
+  });
+
+  if (debug) {
+      console.log("[DEBUG] tx:", tx);
+  }
+
+  const { receipt } = await kernelClient.waitForUserOperationReceipt({
+      hash: tx,
+  });
+
+  if (debug) {
+      console.log("[DEBUG] receipt:", receipt);
+  }
+
+  return receipt;
+}
+
+/**
+ * Takes access away from wallets by re-registering the file identifier, which deploys a fresh
+ * file contract without any of the old access NFTs, and minting new NFTs to `remainingHolders`
+ * in the same user operation.
+ */
+export async function revokeAccess(
+  dataIdentifier: string,
+  fileMetadata: Record<string, any>,
+  remainingHolders: string[],
+  walletClient: Client<Transport, Chain, Account>,
+  authorization: any,
+  permissionsRegistryContractAddress: string,
+  validationContractAddress: string,
+  bundlerRpcUrl: string,
+  debug?: boolean,
+  extraPermissions: PermissionParameters[] = []
+) {
+
+  const kernelClient = await getKernelClient(
+      walletClient,
+      getRegistryChain().chain,
+      bundlerRpcUrl,
+      authorization,
+      debug
+  );
+
+  const ownerAddress = walletClient.account.address;
+  const permissions: PermissionParameters[] = [{
+      permissionType: 0,
+      permissionAddress: ownerAddress,
+      tokenQuantity: 1,
+      timeLimitBlockNumber: 0,
+      operator: 0,
+  }, ...extraPermissions];
+
+  const tx = await kernelClient.sendUserOperation({
+      callData: await kernelClient.account.encodeCalls([
+          {
+              to: permissionsRegistryContractAddress as `0x${string}`,
+              data: encodeFunctionData({
+                  abi: PermissionsRegistryAbi,
+                  functionName: "deployPermissionedFile",
+                  args: [
+                      dataIdentifier,
+                      JSON.stringify(fileMetadata),
+                      validationContractAddress as `0x${string}`,
+                      ownerAddress,
+                      permissions.map(toPermissionStruct)
+                  ]
+              }),
+          },
+          {
+              to: permissionsRegistryContractAddress as `0x${string}`,
+              data: encodeFunctionData({
+                  abi: PermissionsRegistryAbi,
+                  functionName: "mintFromPermissionedFileForOwner",
+                  args: [dataIdentifier, remainingHolders]
+              }),
+          },
+      ]),
+  });
+
+  if (debug) {
+      console.log("[DEBUG] tx:", tx);
+  }
+
+  const { receipt } = await kernelClient.waitForUserOperationReceipt({
+      hash: tx,
+  });
+
+  if (debug) {
+      console.log("[DEBUG] receipt:", receipt);
+  }
+
+  return receipt;
+}
+
+/**
+ * Switches a file between public and private access. The registry has no metadata setter, so
+ * the identifier is re-registered with the updated metadata, which deploys a fresh file
+ * contract. For private files the access NFT is minted in the same user operation, so the
+ * old holders lose access exactly when the new holder gets it. Group bindings (with their
+ * time limits) and `distribution` (set on the new contract afterwards) carry over.
+ */
+export async function updateAccessType(
+  dataIdentifier: string,
+  fileContractAddress: string,
+  fileMetadata: Record<string, any>,
+  accessType: 'public' | 'private',
+  walletClient: Client<Transport, Chain, Account>,
+  authorization: any,
+  permissionsRegistryContractAddress: string,
+  validationContractAddress: string,
+  bundlerRpcUrl: string,
+  debug?: boolean,
+  nftRecipient?: string,
+  onPermissionsUpdated?: (transactionHash: string) => void | Promise<void>,
+  distribution?: DistributionParameters
+) {
+
+  const kernelClient = await getKernelClient(
+      walletClient,
+      getRegistryChain().chain,
+      bundlerRpcUrl,
+      authorization,
+      debug
+  );
+
+  const current = await followGroupBindings(await getPermissionParameters(fileContractAddress), permissionsRegistryContractAddress);
+  const ownerAddress = walletClient.account.address;
+  const permissions: PermissionParameters[] = [{
+      permissionType: 0,
+      permissionAddress: ownerAddress,
+      tokenQuantity: accessType === 'public' ? 0 : 1, // 0 for public (anyone can access), 1 for private (NFT required)
+      timeLimitBlockNumber: 0,
+      operator: 0,
+  }, ...current.filter(isGroupPermission)];
+  const updatedMetadata = { ...fileMetadata, accessType };
+
+  const calls: { to: `0x${string}`; data: `0x${string}` }[] = [{
+      to: permissionsRegistryContractAddress as `0x${string}`,
+      data: encodeFunctionData({
+          abi: PermissionsRegistryAbi,
+          functionName: "deployPermissionedFile",
+          args: [
+              dataIdentifier,
+              JSON.stringify(updatedMetadata),
+              validationContractAddress as `0x${string}`,
+              ownerAddress,
+              permissions.map(toPermissionStruct)
+          ]
+      }),
+  }];
+  if (accessType === 'private') {
+      calls.push({
+          to: permissionsRegistryContractAddress as `0x${string}`,
+          data: encodeFunctionData({
+              abi: PermissionsRegistryAbi,
+              functionName: "mintFromPermissionedFileForOwner",
+              args: [dataIdentifier, [nftRecipient || ownerAddress]]
+          }),
+      });
+  }
+
+  const tx = await kernelClient.sendUserOperation({
+      callData: await kernelClient.account.encodeCalls(calls),
+  });
+
+  if (debug) {
+      console.log("[DEBUG] tx:", tx);
+  }
+
+  const { receipt } = await kernelClient.waitForUserOperationReceipt({
+      hash: tx,
+  });
+
+  if (debug) {
+      console.log("[DEBUG] receipt:", receipt);
+  }
+
+  await onPermissionsUpdated?.(receipt.transactionHash);
+
+  // The distribution belongs to the replaced contract; public files keep it for a later make-private
+  const distributionTransactionHash = distribution
+      ? await setPublicDistribution(kernelClient, dataIdentifier, permissionsRegistryContractAddress, distribution, debug)
+      : undefined;
+
+  return {
+      receipt,
+      mintTransactionHash: accessType === 'private' ? receipt.transactionHash as string : undefined,
+      distributionTransactionHash,
+      metadata: updatedMetadata,
+  };
+}
+
+function toPermissionStruct(permission: PermissionParameters) {
+  return {
+      permissionType: permission.permissionType,
+      permissionAddress: permission.permissionAddress as `0x${string}`,
+      tokenQuantity: BigInt(permission.tokenQuantity),
+      timeLimitBlockNumber: BigInt(permission.timeLimitBlockNumber),
+      operator: permission.operator,
+  };
+}
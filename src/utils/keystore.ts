@@ -0,0 +1,206 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ethers } from 'ethers';
+import { config } from '../config.js';
+import { AppError, ErrorCategory, createConfigError, createFileError } from './errorHandler.js';
+import { EXIT_CODES, KEYSTORE, LOCAL_STATE } from '../constants.js';
+
+export interface KeystoreSummary {
+  name: string;
+  address: string;
+  active: boolean;
+  path: string;
+}
+
+/**
+ * Directory holding one Web3 Secret Storage (scrypt) JSON file per wallet. The files are the
+ * standard keystore format, so they can be copied to and from other Ethereum tools.
+ */
+export function getKeystoreDir(): string {
+  return path.join(config.stateDir, KEYSTORE.DIR_NAME);
+}
+
+export function getKeystorePath(name: string): string {
+  return path.join(getKeystoreDir(), `${name}.json`);
+}
+
+/**
+ * Encrypts `privateKey` with `password` and saves it as wallet `name`.
+ */
+export async function saveKeystore(name: string, privateKey: string, password: string): Promise<KeystoreSummary> {
+  assertWalletName(name);
+  const wallet = toWallet(privateKey);
+
+  const keystores = await listKeystores();
+  const existing = keystores.find((item) => item.name === name || item.address === wallet.address);
+  if (existing) {
+    throw new AppError(`Wallet already exists: ${existing.name}`, {
+      category: ErrorCategory.VALIDATION,
+      userMessage: existing.name === name
+        ? `A wallet named "${name}" already exists.`
+        : `This key is already stored as wallet "${existing.name}" (${existing.address}).`,
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { name: existing.name, address: existing.address }
+    });
+  }
+
+  const json = await wallet.encrypt(password);
+  await fs.mkdir(getKeystoreDir(), { recursive: true, mode: 0o700 });
+  await fs.writeFile(getKeystorePath(name), json, { mode: 0o600, flag: 'wx' });
+
+  // The first wallet stays selected when more are added
+  if (keystores.length === 0 && !await readActiveWalletFile()) {
+    return setActiveWallet(name);
+  }
+  return { name, address: wallet.address, active: name === await getActiveWalletName(), path: getKeystorePath(name) };
+}
+
+/**
+ * Stored wallets by name. Addresses are read from the files, so no password is needed.
+ */
+export async function listKeystores(): Promise<KeystoreSummary[]> {
+  let fileNames: string[];
+  try {
+    fileNames = await fs.readdir(getKeystoreDir());
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const activeName = await readActiveWalletFile();
+  const keystores: KeystoreSummary[] = [];
+  for (const fileName of fileNames.filter((item) => item.endsWith('.json')).sort()) {
+    const name = fileName.slice(0, -'.json'.length);
+    const json = await readKeystoreJson(name);
+    keystores.push({ name, address: toChecksumAddress(json.address), active: name === activeName, path: getKeystorePath(name) });
+  }
+
+  // A single wallet is used without selecting it
+  if (keystores.length === 1 && !activeName) {
+    keystores[0].active = true;
+  }
+  return keystores;
+}
+
+/**
+ * Wallet commands sign with: SYNAPSE_WALLET, else the one chosen with `wallet use`,
+ * else the only stored wallet. Null when none applies.
+ */
+export async function getActiveWalletName(): Promise<string | null> {
+  if (config.wallet) {
+    return config.wallet;
+  }
+  return (await listKeystores()).find((item) => item.active)?.name ?? null;
+}
+
+export async function setActiveWallet(name: string): Promise<KeystoreSummary> {
+  const keystore = (await listKeystores()).find((item) => item.name === name);
+  if (!keystore) {
+    throw unknownWallet(name);
+  }
+  await fs.writeFile(path.join(config.stateDir, LOCAL_STATE.ACTIVE_WALLET_FILE), `${name}\n`, 'utf8');
+  return { ...keystore, active: true };
+}
+
+/**
+ * Address of wallet `name` without decrypting it.
+ */
+export async function getKeystoreAddress(name: string): Promise<string> {
+  return toChecksumAddress((await readKeystoreJson(name)).address);
+}
+
+/**
+ * Decrypts wallet `name` and returns its 0x-prefixed private key.
+ */
+export async function unlockKeystore(name: string, password: string): Promise<`0x${string}`> {
+  const json = await readKeystoreJson(name);
+  try {
+    const wallet = await ethers.Wallet.fromEncryptedJson(JSON.stringify(json), password);
+    return wallet.privateKey as `0x${string}`;
+  } catch (error) {
+    throw new AppError(`Cannot unlock wallet ${name}`, {
+      category: ErrorCategory.PERMISSION,
+      cause: error,
+      userMessage: `Wrong passphrase for wallet "${name}".`,
+      exitCode: EXIT_CODES.PERMISSION_ERROR,
+      details: { name }
+    });
+  }
+}
+
+/**
+ * Parses a hex private key with or without the 0x prefix.
+ */
+export function toWallet(privateKey: string): ethers.Wallet {
+  try {
+    return new ethers.Wallet(privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`);
+  } catch (error) {
+    throw createConfigError('Invalid private key', {
+      cause: error,
+      userMessage: 'The private key must be 32 bytes of hex (64 characters, optionally prefixed with 0x).'
+    });
+  }
+}
+
+export function assertWalletName(name: string): void {
+  if (!KEYSTORE.NAME_PATTERN.test(name)) {
+    throw new AppError(`Invalid wallet name: ${name}`, {
+      category: ErrorCategory.VALIDATION,
+      userMessage: 'Wallet names may contain letters, digits, "-" and "_" (up to 64 characters).',
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { name }
+    });
+  }
+}
+
+async function readKeystoreJson(name: string): Promise<{ address: string } & Record<string, any>> {
+  assertWalletName(name);
+  let raw: string;
+  try {
+    raw = await fs.readFile(getKeystorePath(name), 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw unknownWallet(name);
+    }
+    throw error;
+  }
+
+  try {
+    const json = JSON.parse(raw);
+    if (typeof json.address !== 'string' || !json.crypto && !json.Crypto) {
+      throw new Error('not a keystore');
+    }
+    return json;
+  } catch (error) {
+    throw createFileError('Keystore is corrupted', {
+      cause: error,
+      userMessage: `${getKeystorePath(name)} is not a valid keystore file.`,
+      details: { path: getKeystorePath(name) }
+    });
+  }
+}
+
+// Keystore files store the address in lowercase hex, usually without the 0x prefix
+function toChecksumAddress(address: string): string {
+  return ethers.getAddress(address.startsWith('0x') ? address : `0x${address}`);
+}
+
+async function readActiveWalletFile(): Promise<string | null> {
+  try {
+    return (await fs.readFile(path.join(config.stateDir, LOCAL_STATE.ACTIVE_WALLET_FILE), 'utf8')).trim() || null;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function unknownWallet(name: string): AppError {
+  return createConfigError(`Unknown wallet: ${name}`, {
+    userMessage: `No wallet named "${name}". Run "wallet list" to see your wallets.`,
+    details: { name, dir: getKeystoreDir() }
+  });
+}
@@ -1,3 +1,6 @@
+import { getIndexProvider } from './indexProvider.js';
+import { openLocalIndex } from './localIndex.js';
+
 export async function list(
     address: string,
     debug?: boolean,
@@ -16,56 +19,32 @@ export async function list(
             pageSize?: number;
             maxPages?: number;
         };
-    }
-  ) {
-    // If localURL is provided, use it, otherwise use the default
-    const baseUrl = apiUrl || 'https://api.keypo.io';
+    },
+    options: { offline?: boolean; refresh?: boolean; onWarning?: (message: string) => void } = {}
+  ): Promise<{ [key: string]: any }> {
+    // An explicit apiUrl queries the Keypo API directly; otherwise files resolve against the local index
+    const local = apiUrl ? null : await openLocalIndex(address, { ...options, debug });
+    const provider = local?.provider ?? getIndexProvider({ apiUrl, debug });
     const pageSize = filter?.pagination?.pageSize || 100;
     const maxPages = filter?.pagination?.maxPages || Infinity;
   
     if (debug) {
-        console.log("[DEBUG] Pagination settings:", { pageSize, maxPages });
+        console.log("[DEBUG] Pagination settings:", { pageSize, maxPages, provider: provider.name });
     }
   
     // Helper function to fetch a single page of data
     async function fetchPage(skip: number, isOwner: boolean) {
-        const endpoint = isOwner ? 'filesByOwner' : 'filesByMinter';
-        const url = `${baseUrl}/graph/${endpoint}?file${isOwner ? 'Owner' : 'Minter'}Address=${address}&skip=${skip}&first=${pageSize}`;
-        
         if (debug) {
-            console.log(`[DEBUG] Fetching ${endpoint} page at skip=${skip}:`, url);
-        }
-  
-        const response = await fetch(url, {
-            method: 'GET',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-        });
-  
-        if (!response.ok) {
-            throw new Error(`API request failed with status ${response.status}`);
+            console.log(`[DEBUG] Fetching ${isOwner ? 'owner' : 'minter'} page at skip=${skip}`);
         }
-  
-        return response.json();
+        return provider.fetchPage(isOwner
+            ? { owner: address, skip, first: pageSize }
+            : { minter: address, skip, first: pageSize });
     }
   
     // Helper function to check if files are deleted (batch version)
     async function areFilesDeleted(fileIdentifiers: string[]): Promise<{ [key: string]: boolean }> {
-        const url = `${baseUrl}/graph/isDeleted?fileIdentifiers=${encodeURIComponent(JSON.stringify(fileIdentifiers))}`;
-        const response = await fetch(url, {
-            method: 'GET',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-        });
-  
-        if (!response.ok) {
-            throw new Error(`API request failed with status ${response.status}`);
-        }
-  
-        const data = await response.json();
-        return data.deletedFiles || {};
+        return provider.getDeletionStatus(fileIdentifiers);
     }
   
     // Helper function to fetch all pages for a given endpoint
@@ -330,10 +309,15 @@ export async function list(
         }
   
     } catch (error) {
-        console.warn('Failed to check deletion status, including all files:', error);
+        (options.onWarning ?? console.warn)(`Failed to check deletion status, including all files: ${error instanceof Error ? error.message : error}`);
         // If batch deletion check fails, include all files
         Object.assign(finalFiles, allFiles);
     }
+
+    // A lookup the local index misses may be a file it has not seen yet, so sync and look again
+    if (local && !local.synced && filter?.filterBy && Object.keys(finalFiles).length === 0 && !options.offline && !options.refresh) {
+        return list(address, debug, apiUrl, filter, { ...options, refresh: true });
+    }
   
     // Apply sorting if specified
     if (filter?.sortBy) {
@@ -361,4 +345,39 @@ export async function list(
     }
   
     return finalFiles;
-  } 
\ No newline at end of file
+  } 
+/**
+ * Flattens a file entry from `list` (or `list-public`) into the stable shape used by `--json` output.
+ */
+export function toFileSummary(dataIdentifier: string, file: any) {
+    const metadata = getRegistryMetadata(file);
+    const storage = metadata.filecoinStorageInfo || {};
+
+    return {
+        dataIdentifier,
+        name: metadata.name ?? null,
+        pieceCid: storage.pieceCid || storage.pieceCID || metadata.pieceCid || file.cid || null,
+        accessType: metadata.accessType || 'private',
+        type: metadata.type ?? null,
+        owner: file.owner ?? null,
+        contractAddress: file.dataContractAddress ?? null,
+        accessMinted: !!file.isAccessMinted,
+        uploadedAt: storage.uploadTimestamp ?? null,
+    };
+}
+
+/**
+ * Returns the full registry metadata of a file entry from `list` (or `list-public`).
+ */
+export function getRegistryMetadata(file: any): Record<string, any> {
+    // `list` keeps the full registry metadata in userMetaData; `list-public` stores it directly
+    const metadata = file.dataMetadata || {};
+    if (typeof metadata.userMetaData === 'string') {
+        try {
+            return JSON.parse(metadata.userMetaData);
+        } catch {
+            // Fall back to the extracted fields
+        }
+    }
+    return metadata;
+}
@@ -0,0 +1,27 @@
+import { nagaDev, nagaTest, nagaMainnet, nagaLocal, type LitNetworkModule } from '@lit-protocol/networks';
+import { config } from '../config.js';
+import { createConfigError } from './errorHandler.js';
+import { LIT_PROTOCOL } from '../constants.js';
+
+export type LitNetworkName = typeof LIT_PROTOCOL.NETWORKS[number];
+
+const NETWORK_MODULES = {
+  dev: nagaDev,
+  test: nagaTest,
+  production: nagaMainnet,
+  local: nagaLocal,
+} as const;
+
+/**
+ * Lit network module for `name`, defaulting to LIT_NETWORK. Files record the network they
+ * were encrypted on, so decryption passes that name instead of the configured one.
+ */
+export function getLitNetwork(name: string = config.litNetwork): LitNetworkModule {
+  if (!(LIT_PROTOCOL.NETWORKS as readonly string[]).includes(name)) {
+    throw createConfigError(`Unknown Lit network: ${name}`, {
+      userMessage: `LIT_NETWORK must be one of ${LIT_PROTOCOL.NETWORKS.join(', ')} (got "${name}").`,
+      details: { litNetwork: name, allowed: LIT_PROTOCOL.NETWORKS }
+    });
+  }
+  return NETWORK_MODULES[name as LitNetworkName];
+}
@@ -0,0 +1,97 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { createEncryptionError } from './errorHandler.js';
+import { LOCAL_ENCRYPTION } from '../constants.js';
+
+/**
+ * Segmented AES-256-GCM encryption of file contents.
+ *
+ * Body layout: nonce prefix (7 bytes) | segment 0 | segment 1 | ...
+ * Every segment is `ciphertext | tag` for up to SEGMENT_SIZE plaintext bytes. The
+ * 12-byte nonce of a segment is `prefix | uint32 BE index | final flag`, so segments
+ * can be produced and verified one at a time, and reordering or truncation fails
+ * authentication.
+ */
+
+/**
+ * Generates a random per-file data key.
+ */
+export function generateDataKey(): Uint8Array {
+  return new Uint8Array(randomBytes(LOCAL_ENCRYPTION.KEY_BYTES));
+}
+
+/**
+ * Encrypts bytes with the data key into a segmented body.
+ */
+export function encryptWithDataKey(
+  key: Uint8Array,
+  data: Uint8Array,
+  segmentSize: number = LOCAL_ENCRYPTION.SEGMENT_SIZE
+): Uint8Array {
+  const prefix = randomBytes(LOCAL_ENCRYPTION.NONCE_PREFIX_BYTES);
+  const segmentCount = Math.max(1, Math.ceil(data.length / segmentSize));
+  const parts: Uint8Array[] = [prefix];
+
+  for (let index = 0; index < segmentCount; index++) {
+    const plaintext = data.subarray(index * segmentSize, (index + 1) * segmentSize);
+    const cipher = createCipheriv('aes-256-gcm', key, segmentNonce(prefix, index, index === segmentCount - 1));
+    parts.push(cipher.update(plaintext), cipher.final(), cipher.getAuthTag());
+  }
+
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+/**
+ * Decrypts a segmented body, authenticating every segment before returning.
+ */
+export function decryptWithDataKey(
+  key: Uint8Array,
+  body: Uint8Array,
+  segmentSize: number = LOCAL_ENCRYPTION.SEGMENT_SIZE
+): Uint8Array {
+  const sealedSegmentSize = segmentSize + LOCAL_ENCRYPTION.TAG_BYTES;
+  const prefix = body.subarray(0, LOCAL_ENCRYPTION.NONCE_PREFIX_BYTES);
+  const parts: Uint8Array[] = [];
+  let offset = LOCAL_ENCRYPTION.NONCE_PREFIX_BYTES;
+
+  if (body.length < offset + LOCAL_ENCRYPTION.TAG_BYTES) {
+    throw createEncryptionError('Encrypted body is truncated', {
+      userMessage: 'The downloaded file is truncated or corrupted.',
+      details: { length: body.length }
+    });
+  }
+
+  for (let index = 0; offset < body.length; index++) {
+    const sealed = body.subarray(offset, offset + sealedSegmentSize);
+    const isFinal = offset + sealed.length === body.length;
+    if (sealed.length < LOCAL_ENCRYPTION.TAG_BYTES) {
+      throw createEncryptionError(`Encrypted segment ${index} is truncated`, {
+        userMessage: 'The downloaded file is truncated or corrupted.',
+        details: { index }
+      });
+    }
+
+    const tagStart = sealed.length - LOCAL_ENCRYPTION.TAG_BYTES;
+    const decipher = createDecipheriv('aes-256-gcm', key, segmentNonce(prefix, index, isFinal));
+    decipher.setAuthTag(sealed.subarray(tagStart));
+    try {
+      parts.push(decipher.update(sealed.subarray(0, tagStart)), decipher.final());
+    } catch (error) {
+      throw createEncryptionError(`Encrypted segment ${index} failed authentication`, {
+        cause: error,
+        userMessage: 'The downloaded file was modified or is corrupted and cannot be decrypted.',
+        details: { index }
+      });
+    }
+    offset += sealed.length;
+  }
+
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+function segmentNonce(prefix: Uint8Array, index: number, isFinal: boolean): Buffer {
+  const nonce = Buffer.alloc(LOCAL_ENCRYPTION.NONCE_PREFIX_BYTES + 5);
+  nonce.set(prefix, 0);
+  nonce.writeUInt32BE(index, LOCAL_ENCRYPTION.NONCE_PREFIX_BYTES);
+  nonce.writeUInt8(isFinal ? 1 : 0, LOCAL_ENCRYPTION.NONCE_PREFIX_BYTES + 4);
+  return nonce;
+}
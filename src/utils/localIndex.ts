@@ -0,0 +1,347 @@
+import fs from 'fs/promises';
+import path from 'path';
+import chalk from 'chalk';
+import { config } from '../config.js';
+import { AppError, ErrorCategory, createConfigError, createFileError } from './errorHandler.js';
+import { getRegistryChain } from './registryChain.js';
+import {
+  IndexProvider,
+  KeypoIndexProvider,
+  RegistryState,
+  RegistryStateIndexProvider,
+  IndexedFileRecord,
+  createRegistryState,
+  scanRegistryLogs,
+} from './indexProvider.js';
+import { FILE_INDEX, LOCAL_STATE } from '../constants.js';
+
+/**
+ * On-disk form of the local index. `lastBlock` is the registry log scan cursor; `keypoCursors`
+ * hold the Keypo `skip` to resume each owner/minter query from.
+ */
+interface LocalIndexFile {
+  version: number;
+  registryAddress: string;
+  syncedAt?: string;
+  source?: 'keypo' | 'rpc';
+  lastBlock?: string;
+  keypoCursors: Record<string, number>;
+  files: Array<IndexedFileRecord & { deleted: boolean }>;
+  minters: Record<string, string[]>;
+}
+
+export interface LocalIndex {
+  state: RegistryState;
+  syncedAt?: string;
+  source?: 'keypo' | 'rpc';
+  scannedBlock?: bigint;
+  keypoCursors: Record<string, number>;
+}
+
+export interface SyncOptions {
+  provider?: string;
+  full?: boolean;                 // Discard the local index and rebuild it
+  debug?: boolean;
+  onProgress?: (message: string) => void;
+  onWarning?: (message: string) => void;  // Default: printed to stderr
+}
+
+export interface SyncResult {
+  index: LocalIndex;
+  source: 'keypo' | 'rpc';
+  added: number;
+  totalFiles: number;
+  deletedFiles: number;
+}
+
+/**
+ * Path of the local index file inside the local state directory.
+ */
+export function getLocalIndexPath(): string {
+  return path.join(config.stateDir, LOCAL_STATE.INDEX_FILE);
+}
+
+/**
+ * Reads the local index. Returns null when it was never synced or belongs to another registry.
+ */
+export async function loadLocalIndex(): Promise<LocalIndex | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getLocalIndexPath(), 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  let file: LocalIndexFile;
+  try {
+    file = JSON.parse(raw);
+  } catch (error) {
+    throw createFileError('Local index is corrupted', {
+      cause: error,
+      userMessage: `The local index at ${getLocalIndexPath()} is not valid JSON. Run "sync --full" to rebuild it.`,
+      details: { path: getLocalIndexPath() }
+    });
+  }
+
+  if (file.version !== LOCAL_STATE.INDEX_VERSION || file.registryAddress !== registryKey()) {
+    return null;
+  }
+
+  const state = createRegistryState(config.indexFromBlock);
+  if (file.lastBlock !== undefined) {
+    state.lastBlock = BigInt(file.lastBlock);
+  }
+  for (const record of file.files) {
+    state.files.set(record.fileIdentifier, record);
+  }
+  for (const [fileIdentifier, minters] of Object.entries(file.minters)) {
+    state.minters.set(fileIdentifier, new Set(minters));
+  }
+
+  return {
+    state,
+    syncedAt: file.syncedAt,
+    source: file.source,
+    scannedBlock: file.lastBlock !== undefined ? state.lastBlock : undefined,
+    keypoCursors: file.keypoCursors,
+  };
+}
+
+/**
+ * Brings the local index up to date for `address`. The registry log scan continues from the last
+ * scanned block and covers every file; the Keypo API continues each of the wallet's owner and minter
+ * queries from its last page, then refreshes deletion status for the wallet's files.
+ * `auto` tries Keypo first and scans the registry if it is unreachable.
+ */
+export async function syncLocalIndex(address: string, options: SyncOptions = {}): Promise<SyncResult> {
+  const startedAt = Date.now();
+  const index = (!options.full && await loadLocalIndex()) || {
+    state: createRegistryState(config.indexFromBlock),
+    keypoCursors: {},
+  };
+  const knownFiles = new Set(index.state.files.keys());
+  const providerName = options.provider || config.indexProvider;
+
+  let source: 'keypo' | 'rpc';
+  if (providerName === 'rpc') {
+    source = await syncFromRegistryLogs(index, options);
+  } else if (providerName === 'keypo' || !config.registryContractAddress) {
+    source = await syncFromKeypo(index, address, options);
+  } else if (providerName === 'auto') {
+    try {
+      source = await syncFromKeypo(index, address, options);
+    } catch (error) {
+      if (!(error instanceof AppError) || error.category !== ErrorCategory.NETWORK) {
+        throw error;
+      }
+      (options.onWarning ?? printWarning)(`Keypo index unavailable (${error.message}); scanning registry logs instead`);
+      source = await syncFromRegistryLogs(index, options);
+    }
+  } else {
+    throw createConfigError(`Unknown index provider: ${providerName}`, {
+      userMessage: `Index provider must be "keypo", "rpc" or "auto" (got "${providerName}")`,
+      details: { provider: providerName }
+    });
+  }
+
+  index.source = source;
+  index.syncedAt = new Date().toISOString();
+  await saveLocalIndex(index);
+  // A change made while this sync ran may not be in it, so only older marks are cleared
+  if ((await readStaleMark() ?? Infinity) < startedAt) {
+    await fs.rm(getStaleMarkPath(), { force: true });
+  }
+
+  const files = [...index.state.files.values()];
+  return {
+    index,
+    source,
+    added: files.filter(file => !knownFiles.has(file.fileIdentifier)).length,
+    totalFiles: files.length,
+    deletedFiles: files.filter(file => file.deleted).length,
+  };
+}
+
+/**
+ * Records that this machine changed the registry, so the next command syncs the local index
+ * instead of trusting its age.
+ */
+export async function markLocalIndexStale(): Promise<void> {
+  await fs.mkdir(config.stateDir, { recursive: true });
+  await fs.writeFile(getStaleMarkPath(), String(Date.now()));
+}
+
+/**
+ * Returns a provider backed by the local index. The index is synced first only when there is
+ * none yet, it is older than FILE_INDEX.MAX_AGE_MS, this machine changed the registry since, or
+ * `refresh` is set; `offline` never syncs. If a sync fails, the last synced copy is used with a
+ * warning. `synced` tells whether the provider reflects a sync made just now.
+ */
+export async function openLocalIndex(
+  address: string,
+  options: { offline?: boolean; refresh?: boolean; debug?: boolean; onWarning?: (message: string) => void } = {}
+): Promise<{ provider: IndexProvider; synced: boolean }> {
+  let index = await loadLocalIndex();
+  let synced = false;
+
+  if (options.offline) {
+    if (!index) {
+      throw createFileError('Local index not found', {
+        userMessage: `No local index at ${getLocalIndexPath()}. Run "sync" while online first.`,
+        details: { path: getLocalIndexPath() }
+      });
+    }
+  } else if (options.refresh || !index || await isStale(index)) {
+    try {
+      index = (await syncLocalIndex(address, { debug: options.debug, onWarning: options.onWarning })).index;
+      synced = true;
+    } catch (error) {
+      if (!index || !(error instanceof AppError) || error.category !== ErrorCategory.NETWORK) {
+        throw error;
+      }
+      (options.onWarning ?? printWarning)(`Could not sync the file index (${error.message}); using the local copy from ${index.syncedAt}`);
+    }
+  }
+
+  const state = index!.state;
+  return { provider: new RegistryStateIndexProvider('local', async () => state), synced };
+}
+
+async function isStale(index: LocalIndex): Promise<boolean> {
+  const syncedAt = index.syncedAt ? Date.parse(index.syncedAt) : NaN;
+  if (Number.isNaN(syncedAt) || Date.now() - syncedAt > FILE_INDEX.MAX_AGE_MS) {
+    return true;
+  }
+  return await readStaleMark() !== null;
+}
+
+function getStaleMarkPath(): string {
+  return path.join(config.stateDir, LOCAL_STATE.INDEX_STALE_FILE);
+}
+
+async function readStaleMark(): Promise<number | null> {
+  try {
+    return Number(await fs.readFile(getStaleMarkPath(), 'utf8')) || 0;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function syncFromRegistryLogs(index: LocalIndex, options: SyncOptions): Promise<'rpc'> {
+  if (!config.registryContractAddress) {
+    throw createConfigError('Missing registry configuration', {
+      userMessage: 'REGISTRY_CONTRACT_ADDRESS is required to scan registry logs. Please set it in your .env file.',
+      details: { missing: 'REGISTRY_CONTRACT_ADDRESS' }
+    });
+  }
+
+  // An index built only from Keypo has no block cursor, so the scan starts from the configured block
+  if (index.scannedBlock === undefined) {
+    index.state.lastBlock = config.indexFromBlock - 1n;
+  }
+
+  await scanRegistryLogs(index.state, {
+    rpcUrl: getRegistryChain().rpcUrl,
+    registryAddress: config.registryContractAddress,
+    fromBlock: config.indexFromBlock,
+    blockRange: config.indexBlockRange,
+    debug: options.debug,
+  }, (scannedTo, head) => options.onProgress?.(`Scanned registry logs up to block ${scannedTo} of ${head}`));
+
+  index.scannedBlock = index.state.lastBlock;
+  return 'rpc';
+}
+
+async function syncFromKeypo(index: LocalIndex, address: string, options: SyncOptions): Promise<'keypo'> {
+  const provider = new KeypoIndexProvider(config.keypoApiUrl, options.debug);
+  const pageSize = FILE_INDEX.KEYPO_PAGE_SIZE;
+  const wallet = address.toLowerCase();
+  const { files, minters } = index.state;
+
+  for (const role of ['owner', 'minter'] as const) {
+    const cursorKey = `${role}:${wallet}`;
+    let skip = index.keypoCursors[cursorKey] ?? 0;
+
+    while (true) {
+      const page = await provider.fetchPage({ [role]: address, skip, first: pageSize });
+
+      for (const record of page.permissionedFileDeployeds) {
+        const fileIdentifier = record.fileIdentifier.toLowerCase();
+        files.set(fileIdentifier, { ...record, fileIdentifier, deleted: files.get(fileIdentifier)?.deleted ?? false });
+      }
+      for (const record of page.permissionedFileAccessMinteds) {
+        const fileIdentifier = record.fileIdentifier.toLowerCase();
+        const fileMinters = minters.get(fileIdentifier) ?? new Set<string>();
+        // The owner query reports that access was minted, but not to whom
+        if (role === 'minter') {
+          fileMinters.add(wallet);
+        }
+        minters.set(fileIdentifier, fileMinters);
+      }
+      for (const record of page.permissionedFileDeleteds) {
+        const file = files.get(record.fileIdentifier.toLowerCase());
+        if (file) file.deleted = true;
+      }
+
+      options.onProgress?.(`Fetched ${role} page at skip=${skip}`);
+
+      // Only full pages are skipped next time; the last partial page is read again
+      if (page.permissionedFileDeployeds.length < pageSize) {
+        break;
+      }
+      skip += pageSize;
+    }
+    index.keypoCursors[cursorKey] = skip;
+  }
+
+  // Files deleted since they were first seen never show up on a new page, so ask about all of them
+  const walletFiles = [...files.values()]
+    .filter(file => file.fileOwner.toLowerCase() === wallet || minters.get(file.fileIdentifier)?.has(wallet))
+    .map(file => file.fileIdentifier);
+  if (walletFiles.length > 0) {
+    const deletionStatus = await provider.getDeletionStatus(walletFiles);
+    for (const fileIdentifier of walletFiles) {
+      files.get(fileIdentifier)!.deleted = deletionStatus[fileIdentifier] ?? false;
+    }
+  }
+
+  return 'keypo';
+}
+
+async function saveLocalIndex(index: LocalIndex): Promise<void> {
+  const file: LocalIndexFile = {
+    version: LOCAL_STATE.INDEX_VERSION,
+    registryAddress: registryKey(),
+    syncedAt: index.syncedAt,
+    source: index.source,
+    lastBlock: index.scannedBlock?.toString(),
+    keypoCursors: index.keypoCursors,
+    files: [...index.state.files.values()],
+    minters: Object.fromEntries([...index.state.minters].map(([fileIdentifier, set]) => [fileIdentifier, [...set]])),
+  };
+
+  const indexPath = getLocalIndexPath();
+  await fs.mkdir(path.dirname(indexPath), { recursive: true });
+
+  // Write to a temporary file first so an interrupted write never truncates the index
+  const tmpPath = `${indexPath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(file), { mode: 0o600 });
+  await fs.rename(tmpPath, indexPath);
+}
+
+/**
+ * The index only describes one registry; switching registries or chains starts a fresh one.
+ */
+function registryKey(): string {
+  return `${getRegistryChain().chain.id}:${(config.registryContractAddress || '').toLowerCase()}`;
+}
+
+function printWarning(message: string): void {
+  console.warn(chalk.yellow(`\n⚠️  ${message}`));
+}
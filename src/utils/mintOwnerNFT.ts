@@ -10,12 +10,16 @@ export const mintOwnerNFT = async (
     debug?: boolean,
     retryAttempts: number = RETRY_CONFIG.DEFAULT_ATTEMPTS,
     retryDelay: number = RETRY_CONFIG.BASE_DELAY_MS,
+    recipientAddress?: string,
 ) => {
+    const recipient = recipientAddress || kernelClient.account.address;
+
     if (debug) {
       console.log("[DEBUG] mintOwnerNFT called with:", {
         contractAddress,
         fileIdentifier,
         kernelClientAddress: kernelClient.account.address,
+        recipient,
         retryAttempts
       });
     }
@@ -23,7 +27,7 @@ export const mintOwnerNFT = async (
     const txData = encodeFunctionData({
       abi: abi as any,
       functionName: "mintFromPermissionedFileForOwner",
-      args: [fileIdentifier, [kernelClient.account.address]]
+      args: [fileIdentifier, [recipient]]
     });
 
     if (debug) {
@@ -92,29 +96,33 @@ export const mintOwnerNFT = async (
         return receipt.transactionHash;
       } catch (error: any) {
         lastError = error;
-        console.error(`Error on attempt ${attempt}/${retryAttempts}:`, error);
-        
-        // Log more detailed error information
-        if (error.message) {
-          console.error("Error message:", error.message);
-        }
-        if (error.cause) {
-          console.error("Error cause:", error.cause);
-        }
-        
-        // Check for specific error types
-        if (error.message && error.message.includes("UserOperation reverted during simulation")) {
-          console.error("UserOperation simulation failed - this could be due to:");
-          console.error("1. Insufficient gas estimation");
-          console.error("2. Contract state issues - the deployed contract might not be fully propagated");
-          console.error("3. Network congestion");
-          console.error("4. Invalid parameters");
-          console.error("5. Timing issue - contract deployment may need more time to settle");
+        if (debug) {
+          console.error(`Error on attempt ${attempt}/${retryAttempts}:`, error);
+
+          // Log more detailed error information
+          if (error.message) {
+            console.error("Error message:", error.message);
+          }
+          if (error.cause) {
+            console.error("Error cause:", error.cause);
+          }
+
+          // Check for specific error types
+          if (error.message && error.message.includes("UserOperation reverted during simulation")) {
+            console.error("UserOperation simulation failed - this could be due to:");
+            console.error("1. Insufficient gas estimation");
+            console.error("2. Contract state issues - the deployed contract might not be fully propagated");
+            console.error("3. Network congestion");
+            console.error("4. Invalid parameters");
+            console.error("5. Timing issue - contract deployment may need more time to settle");
+          }
         }
         
         // If this is not the last attempt, continue to retry
         if (attempt < retryAttempts) {
-          console.log(`Will retry in ${retryDelay}ms...`);
+          if (debug) {
+            console.log(`[DEBUG] Will retry in ${retryDelay}ms...`);
+          }
           continue;
         }
         
@@ -123,6 +131,8 @@ export const mintOwnerNFT = async (
       }
     }
     
-    console.error(`Failed to mint owner NFT after ${retryAttempts} attempts`);
+    if (debug) {
+      console.error(`[DEBUG] Failed to mint owner NFT after ${retryAttempts} attempts`);
+    }
     throw lastError;
 };
\ No newline at end of file
@@ -0,0 +1,218 @@
+import fsp from 'fs/promises';
+import path from 'path';
+import { SynapseVault } from '../sdk/index.js';
+import type { ProgressListener, VaultFile } from '../sdk/index.js';
+import { getWalletAddress } from './account.js';
+import { AppError, ErrorCategory } from './errorHandler.js';
+import { EXIT_CODES, S3_GATEWAY } from '../constants.js';
+
+export interface StoredObject {
+  bucket: string;
+  key: string;
+  size: number;
+  etag: string;                   // Hex MD5 of the object bytes, as S3 reports it
+  contentType: string;
+  lastModified: Date;
+}
+
+export interface BucketSummary {
+  name: string;
+  createdAt: Date;                // When its oldest object was written; buckets exist only through their objects
+}
+
+export interface ObjectBody {
+  filePath: string;               // Staged object bytes
+  size: number;
+  etag: string;
+  contentType: string;
+}
+
+/**
+ * Where the S3 gateway keeps objects. `SynapseObjectStore` is the real backend;
+ * `MemoryObjectStore` stands in for Synapse and the registry when testing S3 clients.
+ */
+export interface ObjectStore {
+  put(bucket: string, key: string, body: ObjectBody): Promise<StoredObject>;
+  /** Writes the object bytes under `outputDir`; null when the key does not exist */
+  get(bucket: string, key: string, outputDir: string): Promise<{ object: StoredObject; filePath: string } | null>;
+  head(bucket: string, key: string): Promise<StoredObject | null>;
+  list(bucket: string): Promise<StoredObject[]>;
+  listBuckets(): Promise<BucketSummary[]>;
+  /** False when the key did not exist */
+  delete(bucket: string, key: string): Promise<boolean>;
+}
+
+export interface SynapseObjectStoreOptions {
+  public?: boolean;               // Upload objects with public access instead of private (NFT-gated)
+  skipPaymentCheck?: boolean;
+  onProgress?: ProgressListener;
+  debug?: boolean;
+}
+
+interface RegisteredObject extends StoredObject {
+  pieceCid: string;
+}
+
+/**
+ * Stores each object as an encrypted vault upload. The bucket, key and object headers are kept
+ * in the registry metadata under `s3`, so listing a bucket reads the wallet's file index.
+ */
+export class SynapseObjectStore implements ObjectStore {
+  private readonly vault: SynapseVault;
+
+  constructor(private readonly options: SynapseObjectStoreOptions = {}) {
+    this.vault = new SynapseVault({ debug: options.debug });
+  }
+
+  async put(bucket: string, key: string, body: ObjectBody): Promise<StoredObject> {
+    const previous = await this.find(bucket, key);
+    const object: StoredObject = { bucket, key, size: body.size, etag: body.etag, contentType: body.contentType, lastModified: new Date() };
+
+    const result = await this.vault.upload(body.filePath, {
+      private: !this.options.public,
+      skipPaymentCheck: this.options.skipPaymentCheck,
+      metadata: { [S3_GATEWAY.METADATA_FIELD]: { ...object, lastModified: object.lastModified.toISOString() } },
+      onProgress: this.options.onProgress,
+    });
+    if (result.contracts.status !== 'deployed') {
+      throw new AppError('Object stored but not registered', {
+        category: ErrorCategory.CONTRACT,
+        userMessage: `The object was stored (piece ${result.pieceCid}) but registering it failed: ${result.contracts.error}. ` +
+          `Finish it with "resume ${result.contracts.journalId}".`,
+        exitCode: EXIT_CODES.CONTRACT_ERROR,
+        details: { bucket, key, pieceCid: result.pieceCid, journalId: result.contracts.journalId }
+      });
+    }
+
+    // The new upload is registered, so the object it replaces can go
+    if (previous) {
+      await this.vault.delete(previous.pieceCid, { onProgress: this.options.onProgress });
+    }
+    return object;
+  }
+
+  async get(bucket: string, key: string, outputDir: string): Promise<{ object: StoredObject; filePath: string } | null> {
+    const object = await this.find(bucket, key);
+    if (!object) {
+      return null;
+    }
+    const result = await this.vault.download(object.pieceCid, { outputDir, onProgress: this.options.onProgress });
+    return { object, filePath: result.path };
+  }
+
+  head(bucket: string, key: string): Promise<StoredObject | null> {
+    return this.find(bucket, key);
+  }
+
+  async list(bucket: string): Promise<RegisteredObject[]> {
+    return (await this.listObjects()).filter((object) => object.bucket === bucket);
+  }
+
+  async listBuckets(): Promise<BucketSummary[]> {
+    return summarizeBuckets(await this.listObjects());
+  }
+
+  async delete(bucket: string, key: string): Promise<boolean> {
+    const object = await this.find(bucket, key);
+    if (!object) {
+      return false;
+    }
+    await this.vault.delete(object.pieceCid, { onProgress: this.options.onProgress });
+    return true;
+  }
+
+  private async find(bucket: string, key: string): Promise<RegisteredObject | null> {
+    return (await this.list(bucket)).find((object) => object.key === key) ?? null;
+  }
+
+  /**
+   * Objects owned by the wallet, newest registration per bucket and key. Files shared with
+   * the wallet by others are not part of its buckets.
+   */
+  private async listObjects(): Promise<RegisteredObject[]> {
+    const address = (await getWalletAddress()).toLowerCase();
+    const files = await this.vault.list({ onProgress: this.options.onProgress });
+
+    const objects = new Map<string, RegisteredObject>();
+    for (const file of files) {
+      const object = file.owner?.toLowerCase() === address ? toRegisteredObject(file) : null;
+      if (!object) {
+        continue;
+      }
+      const id = `${object.bucket}/${object.key}`;
+      const existing = objects.get(id);
+      if (!existing || existing.lastModified < object.lastModified) {
+        objects.set(id, object);
+      }
+    }
+    return [...objects.values()];
+  }
+}
+
+/**
+ * Keeps objects in memory, without a wallet, Synapse or the registry.
+ */
+export class MemoryObjectStore implements ObjectStore {
+  private readonly objects = new Map<string, { object: StoredObject; data: Buffer }>();
+
+  async put(bucket: string, key: string, body: ObjectBody): Promise<StoredObject> {
+    const object: StoredObject = { bucket, key, size: body.size, etag: body.etag, contentType: body.contentType, lastModified: new Date() };
+    this.objects.set(`${bucket}/${key}`, { object, data: await fsp.readFile(body.filePath) });
+    return object;
+  }
+
+  async get(bucket: string, key: string, outputDir: string): Promise<{ object: StoredObject; filePath: string } | null> {
+    const entry = this.objects.get(`${bucket}/${key}`);
+    if (!entry) {
+      return null;
+    }
+    const filePath = path.join(outputDir, 'object');
+    await fsp.writeFile(filePath, entry.data);
+    return { object: entry.object, filePath };
+  }
+
+  async head(bucket: string, key: string): Promise<StoredObject | null> {
+    return this.objects.get(`${bucket}/${key}`)?.object ?? null;
+  }
+
+  async list(bucket: string): Promise<StoredObject[]> {
+    return [...this.objects.values()].map((entry) => entry.object).filter((object) => object.bucket === bucket);
+  }
+
+  async listBuckets(): Promise<BucketSummary[]> {
+    return summarizeBuckets([...this.objects.values()].map((entry) => entry.object));
+  }
+
+  async delete(bucket: string, key: string): Promise<boolean> {
+    return this.objects.delete(`${bucket}/${key}`);
+  }
+}
+
+function summarizeBuckets(objects: StoredObject[]): BucketSummary[] {
+  const buckets = new Map<string, Date>();
+  for (const object of objects) {
+    const createdAt = buckets.get(object.bucket);
+    if (!createdAt || object.lastModified < createdAt) {
+      buckets.set(object.bucket, object.lastModified);
+    }
+  }
+  return [...buckets.entries()]
+    .map(([name, createdAt]) => ({ name, createdAt }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function toRegisteredObject(file: VaultFile): RegisteredObject | null {
+  const fields = file.metadata[S3_GATEWAY.METADATA_FIELD];
+  if (!file.pieceCid || !fields || typeof fields.bucket !== 'string' || typeof fields.key !== 'string') {
+    return null;
+  }
+  return {
+    bucket: fields.bucket,
+    key: fields.key,
+    size: Number(fields.size) || 0,
+    etag: String(fields.etag || ''),
+    contentType: fields.contentType || 'application/octet-stream',
+    lastModified: new Date(fields.lastModified || file.uploadedAt || 0),
+    pieceCid: file.pieceCid,
+  };
+}
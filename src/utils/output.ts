@@ -0,0 +1,123 @@
+import { stripVTControlCharacters } from 'util';
+import chalk from 'chalk';
+import type { Ora } from 'ora';
+import type { AppError } from './errorHandler.js';
+import type { ProgressListener } from '../sdk/types.js';
+
+/**
+ * `text` is the decorated terminal output. `json` prints one result object per command;
+ * `ndjson` prints one line per list item (and single-line objects for everything else).
+ */
+export type OutputMode = 'text' | 'json' | 'ndjson';
+
+let outputMode: OutputMode = 'text';
+let commandName = '';
+
+/**
+ * Selects the output mode for the running command. In machine-readable modes stdout carries
+ * only the result, so human-readable progress printed through `console` is sent to stderr.
+ */
+export function setOutputMode(mode: OutputMode, command: string): void {
+  outputMode = mode;
+  commandName = command;
+
+  if (mode !== 'text') {
+    console.log = console.error;
+    console.info = console.error;
+    console.warn = console.error;
+  }
+}
+
+export function getOutputMode(): OutputMode {
+  return outputMode;
+}
+
+export function isMachineOutput(): boolean {
+  return outputMode !== 'text';
+}
+
+/**
+ * Prints the command result as `{ ok: true, command, data }`.
+ */
+export function emitResult(data: Record<string, any>): void {
+  write({ ok: true, command: commandName, data });
+}
+
+/**
+ * Prints a list result. In `json` mode the items are wrapped as `data.items` next to `summary`;
+ * in `ndjson` mode each item is printed on its own line and the summary is omitted.
+ */
+export function emitList(items: Record<string, any>[], summary: Record<string, any> = {}): void {
+  if (outputMode === 'ndjson') {
+    for (const item of items) {
+      write(item);
+    }
+    return;
+  }
+  emitResult({ ...summary, items });
+}
+
+/**
+ * Prints a failure as `{ ok: false, command, error }`.
+ */
+export function emitError(error: AppError): void {
+  write({ ok: false, command: commandName, error: toErrorObject(error) });
+}
+
+/**
+ * The `error` member of a failure object, shared with the API server's error responses.
+ * Terminal colors are removed from the user message.
+ */
+export function toErrorObject(error: AppError): Record<string, any> {
+  return {
+    message: error.message,
+    userMessage: stripVTControlCharacters(error.userMessage),
+    category: error.category,
+    severity: error.severity,
+    exitCode: error.exitCode,
+    recoverable: error.recoverable,
+    details: error.details ?? {},
+  };
+}
+
+/**
+ * For failures a command reports with its own text and exit: in machine-readable modes,
+ * emits the error and exits with its code; in text mode it does nothing.
+ */
+export function reportFailure(error: AppError): void {
+  if (outputMode === 'text') {
+    return;
+  }
+  emitError(error);
+  process.exit(error.exitCode);
+}
+
+/**
+ * Renders SDK progress events on a command's spinner.
+ */
+export function spinnerProgress(spinner: Ora): ProgressListener {
+  return ({ stage, message }) => {
+    switch (stage) {
+      case 'start':
+        spinner.start(message);
+        break;
+      case 'update':
+        spinner.text = message;
+        break;
+      case 'info':
+        console.log(chalk.gray(message));
+        break;
+      default:
+        spinner[stage](message);
+    }
+  };
+}
+
+function write(value: unknown): void {
+  const json = JSON.stringify(
+    value,
+    (_key, item) => (typeof item === 'bigint' ? item.toString() : item),
+    outputMode === 'json' ? 2 : undefined
+  );
+  process.stdout.write(json + '\n');
+}
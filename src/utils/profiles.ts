@@ -0,0 +1,249 @@
+import fs from 'fs';
+import path from 'path';
+import { isAddress } from 'viem';
+import { config, Config } from '../config.js';
+import { AppError, ErrorCategory, createConfigError, createFileError } from './errorHandler.js';
+import { resolveLitChain } from './registryChain.js';
+import { EXIT_CODES, FILE_INDEX, LIT_PROTOCOL, LOCAL_STATE, VALIDATION } from '../constants.js';
+
+type ProfileValue = string | number | boolean;
+
+interface ProfileSetting {
+  env: string;                                  // Environment variable the setting otherwise comes from
+  description: string;
+  parse: (value: string) => ProfileValue;       // Throws on invalid input
+}
+
+/**
+ * Settings a profile can hold, keyed by their `config` field. Secrets (keys, passphrases,
+ * tokens) stay in the environment and keystores.
+ */
+export const PROFILE_SETTINGS = {
+  network: { env: 'NETWORK', description: 'Filecoin network', parse: oneOf(VALIDATION.VALID_NETWORKS) },
+  rpcUrl: { env: 'RPC_URL', description: 'Filecoin JSON-RPC endpoint', parse: url },
+  withCDN: { env: 'WITH_CDN', description: 'Use the Filecoin CDN', parse: boolean },
+  registryChain: { env: 'REGISTRY_CHAIN', description: 'Chain of the permissions registry (Lit chain name or chain ID)', parse: chain },
+  registryRpcUrl: { env: 'REGISTRY_RPC_URL', description: 'JSON-RPC endpoint of the registry chain', parse: url },
+  registryContractAddress: { env: 'REGISTRY_CONTRACT_ADDRESS', description: 'Permissions registry contract', parse: address },
+  validationContractAddress: { env: 'VALIDATION_CONTRACT_ADDRESS', description: 'Permission validation contract', parse: address },
+  litNetwork: { env: 'LIT_NETWORK', description: 'Lit Protocol network new files are encrypted on', parse: oneOf(LIT_PROTOCOL.NETWORKS) },
+  bundlerRpcUrl: { env: 'BUNDLER_RPC_URL', description: 'Account abstraction bundler endpoint', parse: url },
+  indexProvider: { env: 'INDEX_PROVIDER', description: 'File index source', parse: oneOf(FILE_INDEX.PROVIDERS) },
+  keypoApiUrl: { env: 'KEYPO_API_URL', description: 'Keypo index API URL', parse: url },
+} satisfies Record<string, ProfileSetting>;
+
+export type ProfileKey = keyof typeof PROFILE_SETTINGS;
+export type Profile = Partial<Record<ProfileKey, ProfileValue>>;
+
+export interface ConfigFile {
+  version: number;
+  activeProfile?: string;
+  profiles: Record<string, Profile>;
+}
+
+let appliedProfile: string | null = null;
+
+/**
+ * Path of the profiles file inside the local state directory.
+ */
+export function getConfigFilePath(): string {
+  return path.join(config.stateDir, LOCAL_STATE.CONFIG_FILE);
+}
+
+export function loadConfigFile(): ConfigFile {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(getConfigFilePath(), 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return { version: LOCAL_STATE.CONFIG_VERSION, profiles: {} };
+    }
+    throw error;
+  }
+
+  try {
+    const file = JSON.parse(raw);
+    return { version: LOCAL_STATE.CONFIG_VERSION, ...file, profiles: file.profiles ?? {} };
+  } catch (error) {
+    throw createFileError('Config file is corrupted', {
+      cause: error,
+      userMessage: `${getConfigFilePath()} is not valid JSON. Fix or delete it.`,
+      details: { path: getConfigFilePath() }
+    });
+  }
+}
+
+export function saveConfigFile(file: ConfigFile): void {
+  fs.mkdirSync(config.stateDir, { recursive: true });
+  fs.writeFileSync(getConfigFilePath(), JSON.stringify(file, null, 2) + '\n', 'utf8');
+}
+
+/**
+ * Applies a profile on top of the environment: `name`, else SYNAPSE_PROFILE, else the one
+ * chosen with `config use`. Profile values win over .env. Returns the applied profile name,
+ * or null when no profile is selected.
+ */
+export function applyProfile(name?: string): string | null {
+  const selected = selectProfile(name);
+  if (!selected) {
+    return null;
+  }
+  Object.assign(config, selected.settings);
+  appliedProfile = selected.name;
+  return selected.name;
+}
+
+/**
+ * Settings of a profile, chosen like `applyProfile` does, without applying them. Empty when
+ * no profile is selected.
+ */
+export function readProfile(name?: string): Partial<Config> {
+  return selectProfile(name)?.settings ?? {};
+}
+
+function selectProfile(name?: string): { name: string; settings: Partial<Config> } | null {
+  const file = loadConfigFile();
+  const selected = name || process.env.SYNAPSE_PROFILE || file.activeProfile;
+  if (!selected) {
+    return null;
+  }
+
+  const profile = file.profiles[selected];
+  if (!profile) {
+    throw unknownProfile(selected, file);
+  }
+  const settings = Object.fromEntries(Object.entries(profile).filter(([key]) => key in PROFILE_SETTINGS));
+  return { name: selected, settings: settings as Partial<Config> };
+}
+
+/**
+ * Name of the profile applied to `config`, if any.
+ */
+export function getAppliedProfile(): string | null {
+  return appliedProfile;
+}
+
+/**
+ * Validates and stores one setting, creating the profile if needed.
+ */
+export function setProfileValue(profileName: string, key: string, value: string): { key: ProfileKey; value: ProfileValue } {
+  assertProfileName(profileName);
+  const settingKey = resolveKey(key);
+
+  let parsed: ProfileValue;
+  try {
+    parsed = PROFILE_SETTINGS[settingKey].parse(value);
+  } catch (error) {
+    throw new AppError(`Invalid value for ${settingKey}`, {
+      category: ErrorCategory.VALIDATION,
+      cause: error,
+      userMessage: `Invalid value for ${settingKey}: ${(error as Error).message}`,
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { key: settingKey, value }
+    });
+  }
+
+  const file = loadConfigFile();
+  file.profiles[profileName] = { ...file.profiles[profileName], [settingKey]: parsed };
+  saveConfigFile(file);
+  return { key: settingKey, value: parsed };
+}
+
+export function setActiveProfile(profileName: string): void {
+  const file = loadConfigFile();
+  if (!file.profiles[profileName]) {
+    throw unknownProfile(profileName, file);
+  }
+  saveConfigFile({ ...file, activeProfile: profileName });
+}
+
+/**
+ * Accepts the `config` field name or its environment variable (`registryRpcUrl` or `REGISTRY_RPC_URL`).
+ */
+export function resolveKey(key: string): ProfileKey {
+  const match = (Object.keys(PROFILE_SETTINGS) as ProfileKey[])
+    .find((name) => name.toLowerCase() === key.toLowerCase() || PROFILE_SETTINGS[name].env === key.toUpperCase());
+  if (!match) {
+    throw new AppError(`Unknown setting: ${key}`, {
+      category: ErrorCategory.VALIDATION,
+      userMessage: `Unknown setting "${key}". Profiles can set: ${Object.keys(PROFILE_SETTINGS).join(', ')}.`,
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { key }
+    });
+  }
+  return match;
+}
+
+/**
+ * Where the current value of a setting comes from.
+ */
+export function getSettingSource(key: ProfileKey): 'profile' | 'env' | 'default' {
+  if (appliedProfile && loadConfigFile().profiles[appliedProfile]?.[key] !== undefined) {
+    return 'profile';
+  }
+  return process.env[PROFILE_SETTINGS[key].env] !== undefined ? 'env' : 'default';
+}
+
+export function getSettingValue(key: ProfileKey): Config[ProfileKey] {
+  return config[key];
+}
+
+function assertProfileName(name: string): void {
+  if (!/^[A-Za-z0-9_.-]{1,64}$/.test(name)) {
+    throw new AppError(`Invalid profile name: ${name}`, {
+      category: ErrorCategory.VALIDATION,
+      userMessage: 'Profile names may contain letters, digits, ".", "-" and "_" (up to 64 characters).',
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { name }
+    });
+  }
+}
+
+function unknownProfile(name: string, file: ConfigFile): AppError {
+  const names = Object.keys(file.profiles);
+  return createConfigError(`Unknown profile: ${name}`, {
+    userMessage: names.length
+      ? `No profile named "${name}". Available profiles: ${names.join(', ')}.`
+      : `No profile named "${name}". Create one with "config set <key> <value> --profile ${name}".`,
+    details: { profile: name, path: getConfigFilePath() }
+  });
+}
+
+function oneOf(values: readonly string[]): (value: string) => string {
+  return (value) => {
+    if (!values.includes(value)) {
+      throw new Error(`expected one of ${values.join(', ')}`);
+    }
+    return value;
+  };
+}
+
+function url(value: string): string {
+  const parsed = new URL(value);
+  if (!['http:', 'https:', 'ws:', 'wss:'].includes(parsed.protocol)) {
+    throw new Error('expected an http(s) or ws(s) URL');
+  }
+  return value;
+}
+
+function boolean(value: string): boolean {
+  if (value !== 'true' && value !== 'false') {
+    throw new Error('expected true or false');
+  }
+  return value === 'true';
+}
+
+function chain(value: string): string {
+  try {
+    return resolveLitChain(value);
+  } catch {
+    throw new Error('expected a chain ID or a Lit chain name such as base or baseSepolia');
+  }
+}
+
+function address(value: string): string {
+  if (!isAddress(value)) {
+    throw new Error('expected a 0x-prefixed contract address');
+  }
+  return value;
+}
@@ -0,0 +1,93 @@
+import fs from 'fs/promises';
+import { getAddress, isAddress } from 'viem';
+import { AppError, ErrorCategory, createFileError } from './errorHandler.js';
+import { EXIT_CODES } from '../constants.js';
+
+/**
+ * A recipient address and where it came from (`team.csv:4`, or the address itself).
+ */
+export interface RecipientEntry {
+  address: string;
+  source: string;
+}
+
+/**
+ * Reads recipients from a CSV file: the `address` column when the first row names one (that row
+ * is the header), otherwise the first column of every row. Blank lines and lines starting with
+ * `#` are skipped; any other row that is not an address is reported by normalizeRecipients.
+ */
+export async function readRecipientsFile(filePath: string): Promise<RecipientEntry[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    throw createFileError(`Cannot read recipients file: ${filePath}`, {
+      cause: error,
+      userMessage: `Recipients file not found or cannot be read: ${filePath}`,
+      details: { filePath }
+    });
+  }
+
+  const rows = raw.split(/\r?\n/)
+    .map((line, index) => ({ cells: splitCsvLine(line), line: index + 1 }))
+    .filter(row => row.cells.some(Boolean) && !row.cells[0].startsWith('#'));
+
+  const header = rows[0]?.cells.map(cell => cell.toLowerCase());
+  const column = header?.includes('address') ? header.indexOf('address') : -1;
+  const dataRows = column >= 0 ? rows.slice(1) : rows;
+
+  return dataRows.map(row => ({ address: row.cells[Math.max(column, 0)] ?? '', source: `${filePath}:${row.line}` }));
+}
+
+/**
+ * Validates recipient addresses (mixed-case ones must carry a correct EIP-55 checksum) and
+ * returns them checksummed without duplicates. Every invalid entry is reported at once.
+ */
+export function normalizeRecipients(entries: RecipientEntry[]): string[] {
+  const invalid = entries.filter(entry => !isAddress(entry.address));
+  if (invalid.length > 0) {
+    const list = invalid.map(entry => `  ${entry.source}: "${entry.address}"${isAddress(entry.address, { strict: false }) ? ' (checksum mismatch)' : ''}`);
+    throw new AppError(`Invalid recipient address${invalid.length > 1 ? 'es' : ''}`, {
+      category: ErrorCategory.VALIDATION,
+      userMessage: `${invalid.length} recipient address(es) are invalid, so nothing was shared:\n${list.join('\n')}`,
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+      details: { invalid }
+    });
+  }
+  if (entries.length === 0) {
+    throw new AppError('No recipients', {
+      category: ErrorCategory.VALIDATION,
+      userMessage: 'No recipient addresses were given.',
+      exitCode: EXIT_CODES.VALIDATION_ERROR,
+    });
+  }
+
+  const addresses = entries.map(entry => getAddress(entry.address));
+  return addresses.filter((address, index) => addresses.indexOf(address) === index);
+}
+
+/**
+ * Splits one CSV line into trimmed cells. Commas inside double-quoted fields do not split,
+ * and `""` inside them is a literal quote.
+ */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted && char === '"' && line[index + 1] === '"') {
+      cell += '"';
+      index++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
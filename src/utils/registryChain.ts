@@ -0,0 +1,62 @@
+import { defineChain, Chain } from 'viem';
+import * as viemChains from 'viem/chains';
+import { LIT_CHAINS, LitEVMChainKeys } from '@lit-protocol/constants';
+import { config } from '../config.js';
+import { createConfigError } from './errorHandler.js';
+
+export interface RegistryChain {
+  /** viem chain whose default RPC is the configured registry endpoint */
+  chain: Chain;
+  /** Lit chain name used in access control conditions */
+  litChain: LitEVMChainKeys;
+  rpcUrl: string;
+}
+
+let resolved: { key: string; value: RegistryChain } | null = null;
+
+/**
+ * Chain holding the permissions registry, from REGISTRY_CHAIN (a Lit chain name such as
+ * `base` or `baseSepolia`, or a chain ID) and REGISTRY_RPC_URL. Lit nodes evaluate the
+ * access control conditions on this chain, so it must be one Lit supports.
+ */
+export function getRegistryChain(): RegistryChain {
+  const key = `${config.registryChain}|${config.registryRpcUrl ?? ''}`;
+  if (resolved?.key === key) {
+    return resolved.value;
+  }
+
+  const litChain = resolveLitChain(config.registryChain);
+  const litInfo = LIT_CHAINS[litChain];
+  const known = (Object.values(viemChains) as Chain[]).find((chain) => chain?.id === litInfo.chainId);
+  const rpcUrl = config.registryRpcUrl || known?.rpcUrls.default.http[0] || litInfo.rpcUrls[0];
+
+  // Every client built from the chain without an explicit transport uses the configured RPC
+  const chain = defineChain({
+    ...(known ?? {
+      id: litInfo.chainId,
+      name: litInfo.name,
+      nativeCurrency: { name: litInfo.symbol, symbol: litInfo.symbol, decimals: litInfo.decimals },
+    }),
+    rpcUrls: { default: { http: [rpcUrl] } },
+  });
+
+  resolved = { key, value: { chain, litChain, rpcUrl } };
+  return resolved.value;
+}
+
+/**
+ * Maps a Lit chain name (case-insensitive) or numeric chain ID to Lit's chain name.
+ */
+export function resolveLitChain(value: string): LitEVMChainKeys {
+  const names = Object.keys(LIT_CHAINS) as LitEVMChainKeys[];
+  const match = /^\d+$/.test(value)
+    ? names.find((name) => LIT_CHAINS[name].chainId === Number(value))
+    : names.find((name) => name.toLowerCase() === value.toLowerCase());
+  if (!match) {
+    throw createConfigError(`Unsupported registry chain: ${value}`, {
+      userMessage: `REGISTRY_CHAIN "${value}" is not an EVM chain Lit Protocol can evaluate access conditions on. Use a chain ID or a name such as base or baseSepolia.`,
+      details: { registryChain: value }
+    });
+  }
+  return match;
+}
@@ -0,0 +1,478 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { AppError, ErrorCategory, errorHandler } from './errorHandler.js';
+import { createSerialQueue } from './serialQueue.js';
+import type { ObjectStore, StoredObject } from './objectStore.js';
+import { EXIT_CODES, S3_GATEWAY } from '../constants.js';
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export interface S3GatewayOptions {
+  store: ObjectStore;
+  credentials?: S3Credentials;    // Keys clients sign with (SigV4); none disables auth
+  debug?: boolean;
+  onRequest?: (method: string, url: string, status: number, durationMs: number) => void;
+}
+
+interface S3RequestContext {
+  request: IncomingMessage;
+  response: ServerResponse;
+  url: URL;
+  bucket: string;
+  key: string;
+}
+
+const XML_NAMESPACE = 'http://s3.amazonaws.com/doc/2006-03-01/';
+
+// Sub-resources of features the gateway does not implement (multipart uploads, ACLs, versions...)
+const UNSUPPORTED_SUBRESOURCES = ['uploads', 'uploadId', 'partNumber', 'acl', 'tagging', 'versionId', 'versioning', 'delete', 'policy', 'cors', 'lifecycle'];
+
+// Largest clock difference accepted between a signed request and the server, in milliseconds
+const MAX_CLOCK_SKEW_MS = 15 * 60 * 1000;
+
+const S3_ERROR_BY_CATEGORY: Partial<Record<ErrorCategory, [number, string]>> = {
+  [ErrorCategory.VALIDATION]: [400, 'InvalidArgument'],
+  [ErrorCategory.PERMISSION]: [403, 'AccessDenied'],
+  [ErrorCategory.FILE]: [404, 'NoSuchKey'],
+  [ErrorCategory.NETWORK]: [503, 'ServiceUnavailable'],
+};
+
+/**
+ * Builds the HTTP server behind `gateway s3`. It speaks the path-style S3 REST protocol for
+ * PutObject, GetObject, HeadObject, ListObjectsV2 and DeleteObject (plus ListBuckets and
+ * HeadBucket, which clients probe with) and keeps the objects in `store`.
+ */
+export function createS3Gateway(options: S3GatewayOptions): http.Server {
+  const { store, credentials } = options;
+
+  // Store operations share one wallet, so they run one at a time to keep transaction nonces in order
+  const exclusive = createSerialQueue();
+
+  const putObject = async ({ request, response, bucket, key }: S3RequestContext) => {
+    if (request.headers['x-amz-copy-source']) {
+      throw s3Error(501, 'NotImplemented', 'CopyObject is not supported.');
+    }
+
+    await withTempDir(async (dir) => {
+      const name = path.basename(key);
+      const filePath = path.join(dir, name === '.' || name === '..' || !name ? 'object' : name);
+      const md5 = createHash('md5');
+      const sha256 = createHash('sha256');
+      let size = 0;
+
+      await pipeline(
+        request,
+        isAwsChunked(request) ? decodeAwsChunked : passThrough,
+        async function* (source: AsyncIterable<Buffer>) {
+          for await (const chunk of source) {
+            md5.update(chunk);
+            sha256.update(chunk);
+            size += chunk.length;
+            yield chunk;
+          }
+        },
+        fs.createWriteStream(filePath)
+      );
+
+      // The signature covers the declared hash, so a body that does not match it was altered on the way
+      const declaredHash = signedPayloadHash(request);
+      if (declaredHash && declaredHash !== sha256.digest('hex')) {
+        throw s3Error(400, 'XAmzContentSHA256Mismatch', 'The provided x-amz-content-sha256 header does not match the request body.');
+      }
+
+      const object = await exclusive(() => store.put(bucket, key, {
+        filePath,
+        size,
+        etag: md5.digest('hex'),
+        contentType: headerValue(request, 'content-type') || 'application/octet-stream',
+      }));
+      response.writeHead(200, { ETag: `"${object.etag}"` });
+      response.end();
+    });
+  };
+
+  const getObject = async ({ request, response, bucket, key }: S3RequestContext) => {
+    if (request.method === 'HEAD') {
+      const object = await exclusive(() => store.head(bucket, key));
+      if (!object) {
+        throw noSuchKey(key);
+      }
+      response.writeHead(200, objectHeaders(object));
+      response.end();
+      return;
+    }
+
+    await withTempDir(async (dir) => {
+      const found = await exclusive(() => store.get(bucket, key, dir));
+      if (!found) {
+        throw noSuchKey(key);
+      }
+      const { size } = await fsp.stat(found.filePath);
+      response.writeHead(200, { ...objectHeaders(found.object), 'Content-Length': size });
+      await pipeline(fs.createReadStream(found.filePath), response);
+    });
+  };
+
+  const deleteObject = async ({ response, bucket, key }: S3RequestContext) => {
+    // S3 answers 204 whether or not the key existed
+    await exclusive(() => store.delete(bucket, key));
+    response.writeHead(204);
+    response.end();
+  };
+
+  const listObjects = async ({ response, url, bucket }: S3RequestContext) => {
+    if (url.searchParams.get('list-type') !== '2') {
+      throw s3Error(501, 'NotImplemented', 'Only ListObjectsV2 (list-type=2) is supported.');
+    }
+
+    const prefix = url.searchParams.get('prefix') ?? '';
+    const delimiter = url.searchParams.get('delimiter') ?? '';
+    const startAfter = url.searchParams.get('start-after') ?? '';
+    const continuationToken = url.searchParams.get('continuation-token');
+    const maxKeys = Number(url.searchParams.get('max-keys') ?? S3_GATEWAY.MAX_KEYS);
+    if (!Number.isInteger(maxKeys) || maxKeys < 0) {
+      throw s3Error(400, 'InvalidArgument', 'max-keys must be a non-negative integer.');
+    }
+    const encode = url.searchParams.get('encoding-type') === 'url' ? awsUriEncode : (value: string) => value;
+    const after = continuationToken ? Buffer.from(continuationToken, 'base64url').toString('utf8') : startAfter;
+
+    const objects = (await exclusive(() => store.list(bucket)))
+      .filter((object) => object.key.startsWith(prefix) && object.key > after)
+      .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+
+    // Keys rolled up into a common prefix are consumed with it, so a page never splits a prefix
+    const contents: StoredObject[] = [];
+    const commonPrefixes: string[] = [];
+    let lastKey = after;
+    let truncated = false;
+    for (const object of objects) {
+      const rest = object.key.slice(prefix.length);
+      const cut = delimiter ? rest.indexOf(delimiter) : -1;
+      const commonPrefix = cut >= 0 ? prefix + rest.slice(0, cut + delimiter.length) : null;
+      if (commonPrefix !== null && commonPrefixes[commonPrefixes.length - 1] === commonPrefix) {
+        lastKey = object.key;
+        continue;
+      }
+      if (contents.length + commonPrefixes.length >= maxKeys) {
+        truncated = true;
+        break;
+      }
+      if (commonPrefix !== null) {
+        commonPrefixes.push(commonPrefix);
+      } else {
+        contents.push(object);
+      }
+      lastKey = object.key;
+    }
+
+    sendXml(response, 200, 'ListBucketResult', [
+      element('Name', bucket),
+      element('Prefix', encode(prefix)),
+      delimiter ? element('Delimiter', encode(delimiter)) : '',
+      element('MaxKeys', maxKeys),
+      element('KeyCount', contents.length + commonPrefixes.length),
+      element('IsTruncated', truncated),
+      continuationToken ? element('ContinuationToken', continuationToken) : '',
+      truncated ? element('NextContinuationToken', Buffer.from(lastKey, 'utf8').toString('base64url')) : '',
+      startAfter ? element('StartAfter', encode(startAfter)) : '',
+      encode === awsUriEncode ? element('EncodingType', 'url') : '',
+      ...contents.map((object) => `<Contents>${[
+        element('Key', encode(object.key)),
+        element('LastModified', object.lastModified.toISOString()),
+        element('ETag', `"${object.etag}"`),
+        element('Size', object.size),
+        element('StorageClass', 'STANDARD'),
+      ].join('')}</Contents>`),
+      ...commonPrefixes.map((commonPrefix) => `<CommonPrefixes>${element('Prefix', encode(commonPrefix))}</CommonPrefixes>`),
+    ]);
+  };
+
+  const listBuckets = async ({ response }: S3RequestContext) => {
+    const buckets = await exclusive(() => store.listBuckets());
+    sendXml(response, 200, 'ListAllMyBucketsResult', [
+      `<Buckets>${buckets.map((bucket) => `<Bucket>${element('Name', bucket.name)}${element('CreationDate', bucket.createdAt.toISOString())}</Bucket>`).join('')}</Buckets>`,
+    ]);
+  };
+
+  const route = (context: S3RequestContext): ((context: S3RequestContext) => Promise<void>) => {
+    const { request, url, bucket, key } = context;
+    if (UNSUPPORTED_SUBRESOURCES.some((name) => url.searchParams.has(name))) {
+      throw s3Error(501, 'NotImplemented', 'This S3 operation is not supported by the gateway.');
+    }
+    if (!bucket) {
+      if (request.method === 'GET') return listBuckets;
+    } else if (!key) {
+      if (request.method === 'GET') return listObjects;
+      // Buckets exist implicitly, so every bucket name is reachable
+      if (request.method === 'HEAD') return async ({ response }) => { response.writeHead(200); response.end(); };
+    } else {
+      if (request.method === 'PUT') return putObject;
+      if (request.method === 'GET' || request.method === 'HEAD') return getObject;
+      if (request.method === 'DELETE') return deleteObject;
+    }
+    throw s3Error(501, 'NotImplemented', `${request.method} ${url.pathname} is not supported by the gateway.`);
+  };
+
+  return http.createServer(async (request, response) => {
+    const startedAt = Date.now();
+    response.on('finish', () => options.onRequest?.(request.method || '', request.url || '', response.statusCode, Date.now() - startedAt));
+    response.setHeader('x-amz-request-id', randomBytes(8).toString('hex').toUpperCase());
+
+    try {
+      if (credentials) {
+        verifySignature(request, credentials);
+      }
+
+      const url = new URL(request.url || '/', 'http://localhost');
+      const [bucketSegment = '', ...keySegments] = url.pathname.slice(1).split('/');
+      const bucket = decodeUri(bucketSegment);
+      const key = decodeUri(keySegments.join('/'));
+      if (bucket && !/^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/.test(bucket)) {
+        throw s3Error(400, 'InvalidBucketName', `Invalid bucket name: ${bucket}`);
+      }
+
+      const context = { request, response, url, bucket, key };
+      await route(context)(context);
+    } catch (error) {
+      const appError = errorHandler.normalizeError(error);
+      if (options.debug) {
+        console.error('[DEBUG] Request failed:', error);
+      }
+      sendError(request, response, appError);
+    }
+  });
+}
+
+/**
+ * Checks an AWS Signature Version 4 `Authorization` header. The `x-amz-content-sha256`
+ * payload hash is compared to the body once it is staged (see signedPayloadHash); chunk
+ * signatures of streaming uploads are signed but not checked.
+ */
+function verifySignature(request: IncomingMessage, credentials: S3Credentials): void {
+  const authorization = headerValue(request, 'authorization') || '';
+  const match = /^AWS4-HMAC-SHA256 Credential=([^,]+),\s*SignedHeaders=([^,]+),\s*Signature=([0-9a-f]+)$/.exec(authorization);
+  if (!match) {
+    throw s3Error(403, 'AccessDenied', 'Requests must be signed with AWS Signature Version 4 in the Authorization header.');
+  }
+
+  const [, credential, signedHeaders, signature] = match;
+  const [accessKeyId, date, region, service, terminator] = credential.split('/');
+  if (accessKeyId !== credentials.accessKeyId) {
+    throw s3Error(403, 'InvalidAccessKeyId', 'The access key ID does not match the gateway credentials.');
+  }
+  if (service !== 's3' || terminator !== 'aws4_request') {
+    throw s3Error(400, 'AuthorizationHeaderMalformed', `Invalid credential scope: ${credential}`);
+  }
+
+  const amzDate = headerValue(request, 'x-amz-date') || '';
+  const requestTime = Date.parse(amzDate.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, '$1-$2-$3T$4:$5:$6Z'));
+  if (!amzDate.startsWith(date) || Number.isNaN(requestTime)) {
+    throw s3Error(400, 'AuthorizationHeaderMalformed', 'The X-Amz-Date header is missing or does not match the credential scope.');
+  }
+  if (Math.abs(Date.now() - requestTime) > MAX_CLOCK_SKEW_MS) {
+    throw s3Error(403, 'RequestTimeTooSkewed', 'The difference between the request time and the server time is too large.');
+  }
+
+  const [rawPath, rawQuery = ''] = (request.url || '/').split('?', 2);
+  const canonicalRequest = [
+    request.method,
+    rawPath.split('/').map((segment) => awsUriEncode(decodeUri(segment))).join('/'),
+    rawQuery
+      .split('&')
+      .filter(Boolean)
+      .map((pair) => {
+        const separator = pair.indexOf('=');
+        const [name, value] = separator < 0 ? [pair, ''] : [pair.slice(0, separator), pair.slice(separator + 1)];
+        return [awsUriEncode(decodeUri(name)), awsUriEncode(decodeUri(value))];
+      })
+      .sort(([nameA, valueA], [nameB, valueB]) => (nameA === nameB ? (valueA < valueB ? -1 : 1) : nameA < nameB ? -1 : 1))
+      .map(([name, value]) => `${name}=${value}`)
+      .join('&'),
+    ...signedHeaders.split(';').map((name) => `${name}:${(headerValue(request, name) || '').trim().replace(/\s+/g, ' ')}`),
+    '',
+    signedHeaders,
+    headerValue(request, 'x-amz-content-sha256') || 'UNSIGNED-PAYLOAD',
+  ].join('\n');
+
+  const scope = `${date}/${region}/${service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, createHash('sha256').update(canonicalRequest).digest('hex')].join('\n');
+  const signingKey = [date, region, service, 'aws4_request']
+    .reduce<Buffer>((key, part) => createHmac('sha256', key).update(part).digest(), Buffer.from(`AWS4${credentials.secretAccessKey}`));
+  const expected = createHmac('sha256', signingKey).update(stringToSign).digest();
+
+  const presented = Buffer.from(signature, 'hex');
+  if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+    throw s3Error(403, 'SignatureDoesNotMatch', 'The request signature does not match. Check the secret access key.');
+  }
+}
+
+/**
+ * SHA-256 the client declared for the whole body, or null for `UNSIGNED-PAYLOAD` and
+ * streaming (aws-chunked) uploads, which carry no hash of the body.
+ */
+function signedPayloadHash(request: IncomingMessage): string | null {
+  const value = headerValue(request, 'x-amz-content-sha256')?.toLowerCase();
+  return value && /^[0-9a-f]{64}$/.test(value) ? value : null;
+}
+
+function isAwsChunked(request: IncomingMessage): boolean {
+  return (headerValue(request, 'x-amz-content-sha256') || '').startsWith('STREAMING-') ||
+    (headerValue(request, 'content-encoding') || '').includes('aws-chunked');
+}
+
+/**
+ * Strips the `aws-chunked` framing (`<hex size>[;chunk-signature=...]\r\n<data>\r\n`) that
+ * SDKs wrap streamed uploads in. Trailing checksum headers after the last chunk are ignored.
+ */
+async function* decodeAwsChunked(source: AsyncIterable<Buffer>): AsyncGenerator<Buffer> {
+  let pending = Buffer.alloc(0);
+  let remaining = 0;
+  let skipLineEnd = false;
+
+  for await (const chunk of source) {
+    pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+    while (pending.length > 0) {
+      if (remaining > 0) {
+        const data = pending.subarray(0, remaining);
+        pending = pending.subarray(data.length);
+        remaining -= data.length;
+        skipLineEnd = remaining === 0;
+        yield data;
+        continue;
+      }
+      if (skipLineEnd) {
+        if (pending.length < 2) {
+          break;
+        }
+        pending = pending.subarray(2);
+        skipLineEnd = false;
+        continue;
+      }
+
+      const lineEnd = pending.indexOf('\r\n');
+      if (lineEnd < 0) {
+        break;
+      }
+      const size = parseInt(pending.subarray(0, lineEnd).toString('latin1').split(';')[0], 16);
+      if (Number.isNaN(size)) {
+        throw s3Error(400, 'IncompleteBody', 'Malformed aws-chunked request body.');
+      }
+      if (size === 0) {
+        return;
+      }
+      pending = pending.subarray(lineEnd + 2);
+      remaining = size;
+    }
+  }
+}
+
+async function* passThrough(source: AsyncIterable<Buffer>): AsyncGenerator<Buffer> {
+  yield* source;
+}
+
+/**
+ * URI-encodes everything but the unreserved characters, as SigV4 and `encoding-type=url` require.
+ */
+function awsUriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function objectHeaders(object: StoredObject): http.OutgoingHttpHeaders {
+  return {
+    'Content-Type': object.contentType,
+    'Content-Length': object.size,
+    ETag: `"${object.etag}"`,
+    'Last-Modified': object.lastModified.toUTCString(),
+  };
+}
+
+async function withTempDir(task: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await fsp.mkdtemp(path.join(os.tmpdir(), S3_GATEWAY.TEMP_DIR_PREFIX));
+  try {
+    await task(dir);
+  } finally {
+    await fsp.rm(dir, { recursive: true, force: true });
+  }
+}
+
+function element(name: string, value: string | number | boolean): string {
+  return `<${name}>${escapeXml(String(value))}</${name}>`;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, (char) => `&${{ '<': 'lt', '>': 'gt', '&': 'amp', "'": 'apos', '"': 'quot' }[char]};`);
+}
+
+function sendXml(response: ServerResponse, status: number, root: string, children: string[]): void {
+  response.writeHead(status, { 'Content-Type': 'application/xml' });
+  response.end(`<?xml version="1.0" encoding="UTF-8"?>\n<${root} xmlns="${XML_NAMESPACE}">${children.join('')}</${root}>`);
+}
+
+/**
+ * Answers with an S3 error document. HEAD responses carry only the status code.
+ */
+function sendError(request: IncomingMessage, response: ServerResponse, error: AppError): void {
+  if (response.headersSent) {
+    // A download failed mid-stream; the client sees a truncated body
+    response.destroy(error);
+    return;
+  }
+
+  const [status, code] = error.details?.s3Status
+    ? [error.details.s3Status as number, error.details.s3Code as string]
+    : S3_ERROR_BY_CATEGORY[error.category] ?? [500, 'InternalError'];
+  if (request.method === 'HEAD') {
+    response.writeHead(status);
+    response.end();
+    return;
+  }
+  response.writeHead(status, { 'Content-Type': 'application/xml' });
+  response.end(`<?xml version="1.0" encoding="UTF-8"?>\n<Error>${[
+    element('Code', code),
+    element('Message', error.userMessage),
+    element('Resource', request.url || '/'),
+    element('RequestId', String(response.getHeader('x-amz-request-id'))),
+  ].join('')}</Error>`);
+}
+
+function headerValue(request: IncomingMessage, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function noSuchKey(key: string): AppError {
+  return s3Error(404, 'NoSuchKey', `The specified key does not exist: ${key}`);
+}
+
+/**
+ * Decodes a percent-encoded path segment or query component, answering a malformed escape
+ * (such as `%E0`) with InvalidURI instead of an internal error.
+ */
+function decodeUri(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw s3Error(400, 'InvalidURI', `Couldn't parse the specified URI: ${value} is not valid percent-encoding.`);
+  }
+}
+
+/**
+ * An error answered with the given S3 status and error code.
+ */
+function s3Error(status: number, code: string, userMessage: string): AppError {
+  const category = status === 403 ? ErrorCategory.PERMISSION : status === 404 ? ErrorCategory.FILE : ErrorCategory.VALIDATION;
+  return new AppError(`${code}: ${userMessage}`, {
+    category,
+    userMessage,
+    exitCode: category === ErrorCategory.PERMISSION ? EXIT_CODES.PERMISSION_ERROR : category === ErrorCategory.FILE ? EXIT_CODES.FILE_ERROR : EXIT_CODES.VALIDATION_ERROR,
+    details: { s3Status: status, s3Code: code }
+  });
+}
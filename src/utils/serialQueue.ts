@@ -0,0 +1,12 @@
+/**
+ * Runs the operations passed to the returned function one at a time, in call order.
+ * A failed operation does not stop the ones queued after it.
+ */
+export function createSerialQueue(): <T>(operation: () => Promise<T>) => Promise<T> {
+  let queue: Promise<unknown> = Promise.resolve();
+  return <T>(operation: () => Promise<T>): Promise<T> => {
+    const result = queue.then(operation);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+}
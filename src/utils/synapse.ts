@@ -1,9 +1,9 @@
 import { Synapse } from '@filoz/synapse-sdk';
 import { ethers } from 'ethers';
 import { createWalletClient, http, WalletClient, Account } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
 import { filecoinCalibration, filecoin } from 'viem/chains';
-import { config, validateConfig } from '../config.js';
+import { config } from '../config.js';
+import { getAccount, getPrivateKey } from './account.js';
 
 let synapseInstance: Synapse | null = null;
 let viemAccount: Account | null = null;
@@ -14,10 +14,8 @@ export async function getSynapse(): Promise<{ synapse: Synapse; viem: { viemAcco
     return { synapse: synapseInstance, viem: { viemAccount, viemWalletClient } };
   }
 
-  validateConfig();
-
-  // Create wallet from private key
-  const wallet = new ethers.Wallet(config.privateKey!);
+  // Create wallet from the central account provider
+  const wallet = new ethers.Wallet(await getPrivateKey());
   
   // Create provider based on network
   let provider: ethers.JsonRpcProvider;
@@ -44,7 +42,7 @@ export async function getSynapse(): Promise<{ synapse: Synapse; viem: { viemAcco
   });
 
   // Create Viem account and wallet client
-  viemAccount = privateKeyToAccount(`0x${config.privateKey}`);
+  viemAccount = await getAccount();
   const chain = config.network === 'mainnet' ? filecoin : filecoinCalibration;
   
   viemWalletClient = createWalletClient({
@@ -55,9 +53,3 @@ export async function getSynapse(): Promise<{ synapse: Synapse; viem: { viemAcco
 
   return { synapse: synapseInstance, viem: { viemAccount, viemWalletClient } };
 }
-
-export async function getWalletAddress(): Promise<string> {
-  validateConfig();
-  const wallet = new ethers.Wallet(config.privateKey!);
-  return wallet.address;
-}
\ No newline at end of file